@@ -1,4 +1,6 @@
 import fs from 'node:fs/promises'
+import { createHash, timingSafeEqual } from 'node:crypto'
+import path from 'node:path'
 import express from 'express'
 import { Transform } from 'node:stream'
 
@@ -7,6 +9,14 @@ const isProduction = process.env.NODE_ENV === 'production'
 const port = process.env.PORT || 5173
 const base = process.env.BASE || '/'
 const ABORT_DELAY = 10000
+const dataFile = process.env.DATA_FILE || './data/dashboard.json'
+const alertWebhookUrl = process.env.ALERT_WEBHOOK_URL
+const WEBHOOK_TIMEOUT = 5000
+// Bearer tokens accepted by POST /api/ingest, comma-separated
+const ingestTokens = (process.env.INGEST_TOKENS ?? '')
+  .split(',')
+  .map((token) => token.trim())
+  .filter(Boolean)
 
 // Cached production assets
 const templateHtml = isProduction
@@ -34,6 +44,864 @@ if (!isProduction) {
   app.use(base, sirv('./dist/client', { extensions: [] }))
 }
 
+/** @returns {Promise<typeof import('./src/entry-server.tsx')>} */
+async function loadServerEntry() {
+  return isProduction
+    ? await import('./dist/server/entry-server.js')
+    : await vite.ssrLoadModule('/src/entry-server.tsx')
+}
+
+/**
+ * JSON file storage backend for the server-side model. Writes are queued and
+ * go through a temporary file so a crash never leaves a half-written file.
+ * @param {string} filePath
+ * @returns {import('./src/App.tsx').StorageBackend}
+ */
+function createJsonFileBackend(filePath) {
+  let writeQueue = Promise.resolve()
+
+  async function readAll() {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    } catch (e) {
+      if (e.code === 'ENOENT') return {}
+      throw e
+    }
+  }
+
+  /** @param {(entries: Record<string, unknown>) => void} update */
+  function write(update) {
+    writeQueue = writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const entries = await readAll()
+        update(entries)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(`${filePath}.tmp`, JSON.stringify(entries))
+        await fs.rename(`${filePath}.tmp`, filePath)
+      })
+    return writeQueue
+  }
+
+  return {
+    async load(key) {
+      await writeQueue.catch(() => {})
+      return (await readAll())[key] ?? null
+    },
+    save(key, value) {
+      return write((entries) => {
+        entries[key] = value
+      })
+    },
+    remove(key) {
+      return write((entries) => {
+        delete entries[key]
+      })
+    },
+  }
+}
+
+// Server-side analytics model shared by every API client
+const {
+  AGGREGATION_FNS,
+  AnalyticsModel,
+  DEFAULT_LOCALE,
+  INGEST_BATCH_LIMIT,
+  LOCALE_COOKIE,
+  REPORT_FORMATS,
+  applyBulkMetricOperation,
+  buildImportRows,
+  buildIngestResults,
+  formatLocalizedText,
+  fromDateInputValue,
+  isLocale,
+  isRecord,
+  negotiateLocale,
+  renderReport,
+  resolveMetricDefinition,
+  translate,
+  validateAlertRuleInput,
+  validateBulkMetricInput,
+  validateCategoryInput,
+  validateDefinitionInput,
+  validateGoalInput,
+  validateInsightUpdate,
+  validateMetricInput,
+  validateSettingsInput,
+  validateWidgetInput,
+} = await loadServerEntry()
+const model = await AnalyticsModel.loadFromStorage(
+  createJsonFileBackend(dataFile),
+)
+await model.syncToStorage()
+
+/**
+ * Parse an optional timestamp query parameter (epoch millis or ISO date).
+ * Plain dates are whole days in the user's time zone, so an end date
+ * includes the whole day.
+ * @param {unknown} value
+ * @param {number} fallback
+ * @param {boolean} [endOfDay]
+ */
+function parseTimestamp(value, fallback, endOfDay = false) {
+  if (typeof value !== 'string' || value === '') return fallback
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const timestamp = fromDateInputValue(value, model.getSettings().timeZone, endOfDay)
+    return Number.isNaN(timestamp) ? fallback : timestamp
+  }
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+  return Number.isNaN(timestamp) ? fallback : timestamp
+}
+
+/**
+ * Language for a request: an explicit `?locale=` (reports only), then the
+ * cookie set by the language switcher, then the Accept-Language header
+ * @param {import('express').Request} req
+ * @param {boolean} [allowQuery]
+ */
+function getRequestLocale(req, allowQuery = false) {
+  if (allowQuery && isLocale(req.query.locale)) return req.query.locale
+  const cookie = (req.get('cookie') ?? '')
+    .split(';')
+    .map((part) => part.trim().split('='))
+    .find(([name]) => name === LOCALE_COOKIE)?.[1]
+  return isLocale(cookie) ? cookie : negotiateLocale(req.get('accept-language'))
+}
+
+/**
+ * Copy only the allowed keys of a request body, e.g. for PATCH updates.
+ * A missing body has no fields.
+ * @param {Record<string, unknown> | undefined} body
+ * @param {string[]} keys
+ */
+function pickFields(body, keys) {
+  if (!body || typeof body !== 'object') return {}
+  return Object.fromEntries(keys.filter((key) => key in body).map((key) => [key, body[key]]))
+}
+
+/**
+ * A notification as the webhook receives it, with the message as text in
+ * the default language
+ * @param {{ message: unknown }} notification
+ */
+function toWebhookNotification(notification) {
+  return { ...notification, message: formatLocalizedText(DEFAULT_LOCALE, notification.message) }
+}
+
+/**
+ * POST a JSON payload to the alert webhook
+ * @param {unknown} payload
+ * @returns {Promise<{ delivered: boolean, status?: number, error?: string }>}
+ */
+async function postToWebhook(payload) {
+  if (!alertWebhookUrl) return { delivered: false, error: 'ALERT_WEBHOOK_URL is not set' }
+  try {
+    const response = await fetch(alertWebhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    })
+    return response.ok
+      ? { delivered: true, status: response.status }
+      : { delivered: false, status: response.status, error: `Webhook answered ${response.status}` }
+  } catch (error) {
+    return { delivered: false, error: error.message }
+  }
+}
+
+// Live updates over Server-Sent Events. Recent events are kept so a client
+// that reconnects can catch up; ids carry the server start time because
+// events from an earlier run cannot be replayed.
+const EVENT_BUFFER_SIZE = 500
+const EVENT_RETRY_DELAY = 3000
+const EVENT_HEARTBEAT_INTERVAL = 25000
+const eventBootId = Date.now().toString(36)
+let eventSeq = 0
+/** @type {{ id: string, seq: number, type: string, data: unknown }[]} */
+const recentEvents = []
+/** @type {Set<import('express').Response>} */
+const eventClients = new Set()
+
+/**
+ * @param {import('express').Response} res
+ * @param {{ id: string, type: string, data: unknown }} event
+ */
+function writeEvent(res, event) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`)
+  // Compression buffers the stream in production unless flushed
+  res.flush?.()
+}
+
+/**
+ * Send an event to every connected client and keep it for catch-up
+ * @param {string} type
+ * @param {unknown} data
+ */
+function broadcast(type, data) {
+  eventSeq += 1
+  const event = { id: `${eventBootId}-${eventSeq}`, seq: eventSeq, type, data }
+  recentEvents.push(event)
+  if (recentEvents.length > EVENT_BUFFER_SIZE) recentEvents.shift()
+  eventClients.forEach((res) => writeEvent(res, event))
+}
+
+/**
+ * Events after `lastEventId`, or null when they can no longer be replayed
+ * @param {string} lastEventId
+ */
+function getMissedEvents(lastEventId) {
+  const [boot, seq] = lastEventId.split('-')
+  const after = Number(seq)
+  if (boot !== eventBootId || !Number.isInteger(after) || after > eventSeq) return null
+  if (recentEvents.length > 0 && after < recentEvents[0].seq - 1) return null
+  return recentEvents.filter((e) => e.seq > after)
+}
+
+/**
+ * Save the model after a write and tell the connected clients what changed.
+ * Alert rules are checked first so new notifications are stored with the
+ * data, then pushed to the webhook without holding up the response.
+ * @param {string} resource
+ */
+async function persist(resource) {
+  const raised = model.evaluateAlerts()
+  await model.syncToStorage()
+  broadcast('change', { resource, at: Date.now(), alerts: raised.length })
+  if (raised.length > 0 && alertWebhookUrl) {
+    const notifications = raised.map(toWebhookNotification)
+    postToWebhook({ event: 'alerts', sentAt: Date.now(), notifications }).then((result) => {
+      if (!result.delivered) console.error(`Alert webhook delivery failed: ${result.error}`)
+    })
+  }
+}
+
+/**
+ * Check the bearer token of an ingestion request. Both sides are hashed so
+ * the comparison takes the same time whatever the token length.
+ * @param {import('express').Request} req
+ */
+function isIngestAuthorized(req) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') ?? '')
+  if (!match) return false
+  const digest = (token) => createHash('sha256').update(token).digest()
+  const given = digest(match[1])
+  return ingestTokens.some((token) => timingSafeEqual(digest(token), given))
+}
+
+// REST API
+const api = express.Router()
+// Imports carry whole spreadsheets, so allow larger bodies than the default 100kb
+api.use(express.json({ limit: '10mb' }))
+
+api.get('/dashboard', (req, res) => {
+  res.json(model.getData())
+})
+
+api.get('/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+  res.flushHeaders()
+  res.write(`retry: ${EVENT_RETRY_DELAY}\n\n`)
+  res.flush?.()
+
+  // Browsers resend the header on reconnect; clients that open a new
+  // connection themselves pass the id as a query parameter
+  const lastEventId = req.get('last-event-id') ?? req.query.lastEventId
+  if (typeof lastEventId === 'string' && lastEventId) {
+    const missed = getMissedEvents(lastEventId)
+    if (missed) {
+      missed.forEach((event) => writeEvent(res, event))
+    } else {
+      writeEvent(res, { id: `${eventBootId}-${eventSeq}`, type: 'resync', data: { at: Date.now() } })
+    }
+  }
+
+  eventClients.add(res)
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n')
+    res.flush?.()
+  }, EVENT_HEARTBEAT_INTERVAL)
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    eventClients.delete(res)
+  })
+})
+
+api.get('/settings', (req, res) => {
+  res.json(model.getSettings())
+})
+
+api.patch('/settings', async (req, res) => {
+  const error = validateSettingsInput(req.body, true)
+  if (error) return res.status(400).json({ error })
+
+  const settings = model.updateSettings(pickFields(req.body, ['timeZone', 'weekStart']))
+  await persist('settings')
+  res.json(settings)
+})
+
+api.get('/categories', (req, res) => {
+  res.json(model.getCategories(req.query.archived === 'true'))
+})
+
+api.post('/categories', async (req, res) => {
+  const error = validateCategoryInput(req.body)
+  if (error) return res.status(400).json({ error })
+
+  const { label, color, icon } = req.body
+  const category = model.addCategory({ label: label.trim(), color, icon })
+  await persist('categories')
+  res.status(201).json(category)
+})
+
+api.patch('/categories/:id', async (req, res) => {
+  const error = validateCategoryInput(req.body, true)
+  if (error) return res.status(400).json({ error })
+
+  const updates = pickFields(req.body, ['label', 'color', 'icon', 'archived'])
+  const category = model.updateCategory(req.params.id, updates)
+  if (!category) return res.status(404).json({ error: 'Category not found' })
+  await persist('categories')
+  res.json(category)
+})
+
+api.delete('/categories/:id', async (req, res) => {
+  const { reassignTo } = req.query
+  if (!model.getCategory(req.params.id)) {
+    return res.status(404).json({ error: 'Category not found' })
+  }
+  if (model.getCategories(true).length === 1) {
+    return res.status(409).json({ error: 'Cannot delete the last category' })
+  }
+  if (reassignTo && (reassignTo === req.params.id || !model.getCategory(reassignTo))) {
+    return res.status(400).json({ error: `Cannot reassign to category "${reassignTo}"` })
+  }
+  model.deleteCategory(req.params.id, reassignTo || undefined)
+  await persist('categories')
+  res.status(204).end()
+})
+
+api.get('/definitions', (req, res) => {
+  res.json(model.getDefinitions(req.query.category))
+})
+
+api.post('/definitions', async (req, res) => {
+  const error = validateDefinitionInput(req.body, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+  if (model.findDefinition(req.body.category, req.body.name)) {
+    return res.status(409).json({ error: `Metric "${req.body.name}" is already defined in this category` })
+  }
+
+  const { name, category, unit, min, max, precision, aggregation, higherIsBetter } = req.body
+  const definition = model.addDefinition({
+    name: name.trim(),
+    category,
+    unit: unit.trim(),
+    min: min ?? undefined,
+    max: max ?? undefined,
+    precision,
+    aggregation,
+    higherIsBetter,
+  })
+  await persist('definitions')
+  res.status(201).json(definition)
+})
+
+api.patch('/definitions/:id', async (req, res) => {
+  const existing = model.getDefinition(req.params.id)
+  if (!existing) return res.status(404).json({ error: 'Definition not found' })
+
+  const updates = pickFields(req.body, [
+    'name',
+    'category',
+    'unit',
+    'min',
+    'max',
+    'precision',
+    'aggregation',
+    'higherIsBetter',
+  ])
+  const error = validateDefinitionInput({ ...existing, ...updates }, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+
+  const merged = { ...existing, ...updates }
+  const clash = model.findDefinition(merged.category, merged.name)
+  if (clash && clash.id !== existing.id) {
+    return res.status(409).json({ error: `Metric "${merged.name}" is already defined in this category` })
+  }
+
+  // Recorded values only move to another unit with an explicit conversion factor
+  const { unitFactor } = req.body ?? {}
+  if (unitFactor !== undefined && !(Number.isFinite(unitFactor) && unitFactor !== 0)) {
+    return res.status(400).json({ error: 'Field "unitFactor" must be a non-zero number' })
+  }
+  if (
+    unitFactor === undefined &&
+    model.hasDefinitionEntries(existing.id) &&
+    merged.unit.trim().toLowerCase() !== existing.unit.toLowerCase()
+  ) {
+    return res.status(409).json({
+      error: `${existing.name} has entries in ${existing.unit}; send "unitFactor" to convert them to ${merged.unit}`,
+    })
+  }
+
+  // `null` clears an optional bound
+  const definition = model.updateDefinition(
+    req.params.id,
+    {
+      ...updates,
+      ...('min' in updates ? { min: updates.min ?? undefined } : {}),
+      ...('max' in updates ? { max: updates.max ?? undefined } : {}),
+    },
+    unitFactor,
+  )
+  await persist('definitions')
+  res.json(definition)
+})
+
+api.delete('/definitions/:id', async (req, res) => {
+  if (!model.deleteDefinition(req.params.id)) {
+    return res.status(404).json({ error: 'Definition not found' })
+  }
+  await persist('definitions')
+  res.status(204).end()
+})
+
+api.get('/goals', (_req, res) => {
+  res.json(model.getGoals())
+})
+
+api.get('/goals/:id/progress', (req, res) => {
+  let progress
+  try {
+    progress = model.getGoalProgress(req.params.id)
+  } catch (e) {
+    // Whole-category goals cannot add up entries recorded in different units
+    return res.status(400).json({ error: e.message })
+  }
+  if (!progress) return res.status(404).json({ error: 'Goal not found' })
+  res.json(progress)
+})
+
+api.post('/goals', async (req, res) => {
+  const error = validateGoalInput(req.body, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+
+  const { title, metricType, metricName, period, target, direction, aggregation } = req.body
+  const goal = model.addGoal({
+    title: title.trim(),
+    metricType,
+    metricName: metricName?.trim() || undefined,
+    period,
+    target,
+    direction,
+    aggregation: aggregation ?? undefined,
+  })
+  await persist('goals')
+  res.status(201).json(goal)
+})
+
+api.patch('/goals/:id', async (req, res) => {
+  const error = validateGoalInput(req.body, model.getCategories(true), true)
+  if (error) return res.status(400).json({ error })
+
+  // `null` clears the metric name (whole category) or the aggregation override
+  const updates = pickFields(req.body, [
+    'title',
+    'metricType',
+    'metricName',
+    'period',
+    'target',
+    'direction',
+    'aggregation',
+  ])
+  if ('metricName' in updates) updates.metricName = updates.metricName?.trim() || undefined
+  if ('aggregation' in updates) updates.aggregation = updates.aggregation ?? undefined
+
+  const goal = model.updateGoal(req.params.id, updates)
+  if (!goal) return res.status(404).json({ error: 'Goal not found' })
+  await persist('goals')
+  res.json(goal)
+})
+
+api.delete('/goals/:id', async (req, res) => {
+  if (!model.deleteGoal(req.params.id)) {
+    return res.status(404).json({ error: 'Goal not found' })
+  }
+  await persist('goals')
+  res.status(204).end()
+})
+
+api.get('/metrics', (req, res) => {
+  const start = parseTimestamp(req.query.start, 0)
+  const end = parseTimestamp(req.query.end, Number.MAX_SAFE_INTEGER, true)
+  const metrics = model
+    .getMetricsByPeriod(start, end)
+    .filter((m) => !req.query.type || m.type === req.query.type)
+    .filter((m) => !req.query.name || m.name === req.query.name)
+  res.json(metrics)
+})
+
+api.post('/metrics', async (req, res) => {
+  const error = validateMetricInput(req.body, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+
+  const { name, type, value, unit, timestamp, metadata } = req.body
+  const resolved = resolveMetricDefinition(
+    { name, type, value, unit, timestamp, metadata },
+    model.getDefinitions(),
+  )
+  if (resolved.error !== undefined) return res.status(400).json({ error: resolved.error })
+
+  const metric = model.addMetric(resolved.metric)
+  await persist('metrics')
+  res.status(201).json(metric)
+})
+
+// One operation applied to many entries, all or nothing, with a single change event
+api.post('/metrics/bulk', async (req, res) => {
+  const error = validateBulkMetricInput(req.body, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+
+  const { ids, operation } = req.body
+  const requested = new Set(ids)
+  const entries = model.getAllMetrics().filter((m) => requested.has(m.id))
+  const found = new Set(entries.map((m) => m.id))
+  const missing = [...requested].filter((id) => !found.has(id))
+  if (entries.length === 0) return res.status(404).json({ error: 'None of the metrics were found' })
+
+  if (operation.action === 'delete') {
+    model.deleteMetrics([...found])
+  } else {
+    const result = applyBulkMetricOperation(entries, operation, model.getDefinitions())
+    if (result.error !== undefined) return res.status(400).json({ error: result.error })
+    model.updateMetrics(result.metrics)
+  }
+  await persist('metrics')
+  res.json({ action: operation.action, affected: entries.length, missing })
+})
+
+api.patch('/metrics/:id', async (req, res) => {
+  const error = validateMetricInput(req.body, model.getCategories(true), true)
+  if (error) return res.status(400).json({ error })
+
+  const existing = model.getAllMetrics().find((m) => m.id === req.params.id)
+  if (!existing) return res.status(404).json({ error: 'Metric not found' })
+
+  // Check the edited entry as a whole, so a new value is held to its definition
+  const updates = pickFields(req.body, ['name', 'type', 'value', 'unit', 'timestamp', 'metadata'])
+  const resolved = resolveMetricDefinition({ ...existing, ...updates }, model.getDefinitions())
+  if (resolved.error !== undefined) return res.status(400).json({ error: resolved.error })
+
+  const { id, ...fields } = resolved.metric
+  const metric = model.updateMetric(req.params.id, fields)
+  await persist('metrics')
+  res.json(metric)
+})
+
+api.delete('/metrics/:id', async (req, res) => {
+  if (!model.deleteMetric(req.params.id)) {
+    return res.status(404).json({ error: 'Metric not found' })
+  }
+  await persist('metrics')
+  res.status(204).end()
+})
+
+api.post('/import', async (req, res) => {
+  const { format, content, mapping, defaults, decimalSeparator, dryRun, skipDuplicates = true } = req.body ?? {}
+  if (format !== 'csv' && format !== 'json') {
+    return res.status(400).json({ error: 'Field "format" must be "csv" or "json"' })
+  }
+  if (typeof content !== 'string') {
+    return res.status(400).json({ error: 'Field "content" must be a string' })
+  }
+  if (!isRecord(mapping)) {
+    return res.status(400).json({ error: 'Field "mapping" must be an object' })
+  }
+  if (defaults !== undefined && !isRecord(defaults)) {
+    return res.status(400).json({ error: 'Field "defaults" must be an object' })
+  }
+  if (decimalSeparator !== undefined && decimalSeparator !== '.' && decimalSeparator !== ',') {
+    return res.status(400).json({ error: 'Field "decimalSeparator" must be "." or ","' })
+  }
+
+  let rows
+  try {
+    rows = buildImportRows(
+      { format, content, mapping, defaults, decimalSeparator },
+      model.getAllMetrics(),
+      model.getCategories(true),
+      model.getDefinitions(),
+      model.getSettings().timeZone,
+    )
+  } catch (e) {
+    return res.status(400).json({ error: `Could not parse import: ${e.message}` })
+  }
+
+  const accepted = rows.filter((r) => r.metric && !(skipDuplicates && r.duplicate))
+  if (!dryRun && accepted.length > 0) {
+    model.importMetrics(accepted.map((r) => r.metric))
+    await persist('metrics')
+  }
+  res.json({ rows, imported: dryRun ? 0 : accepted.length })
+})
+
+api.post('/ingest', async (req, res) => {
+  if (ingestTokens.length === 0) {
+    return res.status(503).json({ error: 'Ingestion is disabled, set INGEST_TOKENS to enable it' })
+  }
+  if (!isIngestAuthorized(req)) {
+    return res.set('WWW-Authenticate', 'Bearer').status(401).json({ error: 'Missing or invalid bearer token' })
+  }
+
+  // A JSON array or `{ items: [...] }` is a batch, anything else a single item
+  const body = req.body
+  const batch = Array.isArray(body) || Array.isArray(body?.items)
+  let items = Array.isArray(body) ? body : batch ? body.items : [body]
+  if (items.length === 0) return res.status(400).json({ error: 'No items to ingest' })
+  if (items.length > INGEST_BATCH_LIMIT) {
+    return res.status(413).json({ error: `At most ${INGEST_BATCH_LIMIT} items per request` })
+  }
+  // Single items may carry their key in the Idempotency-Key header instead
+  const headerKey = req.get('idempotency-key')
+  if (!batch && headerKey && body && typeof body === 'object' && body.idempotencyKey === undefined) {
+    items = [{ ...body, idempotencyKey: headerKey }]
+  }
+
+  const results = buildIngestResults(
+    items,
+    model.getAllMetrics(),
+    model.getCategories(true),
+    model.getDefinitions(),
+  )
+  const accepted = results.filter((r) => r.status === 'created')
+  const createdIds = new Map()
+  if (accepted.length > 0) {
+    model.importMetrics(accepted.map((r) => r.metric)).forEach((metric, i) => createdIds.set(accepted[i], metric.id))
+    await persist('metrics')
+  }
+
+  const summary = {
+    created: accepted.length,
+    duplicates: results.filter((r) => r.status === 'duplicate').length,
+    invalid: results.filter((r) => r.status === 'invalid').length,
+    results: results.map((result) => {
+      const id = createdIds.get(result) ?? result.existingId
+      return {
+        index: result.index,
+        status: result.status,
+        ...(id ? { id } : {}),
+        ...(result.idempotencyKey ? { idempotencyKey: result.idempotencyKey } : {}),
+        ...(result.error ? { error: result.error } : {}),
+      }
+    }),
+  }
+  if (batch) return res.json(summary)
+  res.status({ created: 201, duplicate: 200, invalid: 400 }[results[0].status]).json(summary)
+})
+
+api.get('/widgets', (req, res) => {
+  res.json(req.query.visible === 'true' ? model.getVisibleWidgets() : model.getAllWidgets())
+})
+
+api.post('/widgets', async (req, res) => {
+  const error = validateWidgetInput(req.body, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+
+  const { title, type, metricType, isVisible = true, config = {} } = req.body
+  const widget = model.addWidget({ title, type, metricType, isVisible, config })
+  await persist('widgets')
+  res.status(201).json(widget)
+})
+
+api.post('/widgets/reorder', async (req, res) => {
+  const ids = req.body?.ids
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+    return res.status(400).json({ error: 'Field "ids" must be an array of widget ids' })
+  }
+  const widgets = model.reorderWidgets(ids)
+  await persist('widgets')
+  res.json(widgets)
+})
+
+api.patch('/widgets/:id', async (req, res) => {
+  const error = validateWidgetInput(req.body, model.getCategories(true), true)
+  if (error) return res.status(400).json({ error })
+
+  // Positions only change through /widgets/reorder
+  const updates = pickFields(req.body, ['title', 'type', 'metricType', 'isVisible', 'config'])
+  const widget = model.updateWidget(req.params.id, updates)
+  if (!widget) return res.status(404).json({ error: 'Widget not found' })
+  await persist('widgets')
+  res.json(widget)
+})
+
+api.delete('/widgets/:id', async (req, res) => {
+  if (!model.deleteWidget(req.params.id)) {
+    return res.status(404).json({ error: 'Widget not found' })
+  }
+  await persist('widgets')
+  res.status(204).end()
+})
+
+api.post('/widgets/:id/toggle', async (req, res) => {
+  if (!model.getAllWidgets().some((w) => w.id === req.params.id)) {
+    return res.status(404).json({ error: 'Widget not found' })
+  }
+  const isVisible = model.toggleWidgetVisibility(req.params.id)
+  await persist('widgets')
+  res.json({ isVisible })
+})
+
+api.get('/insights', (req, res) => {
+  res.json(req.query.history === 'true' ? model.getInsightHistory() : model.getInsights())
+})
+
+api.patch('/insights/:id', async (req, res) => {
+  const error = validateInsightUpdate(req.body)
+  if (error) return res.status(400).json({ error })
+
+  const updates = pickFields(req.body, ['pinned', 'dismissed', 'snoozedUntil'])
+  if ('snoozedUntil' in updates) updates.snoozedUntil = updates.snoozedUntil ?? undefined
+
+  const insight = model.updateInsight(req.params.id, updates)
+  if (!insight) return res.status(404).json({ error: 'Insight not found' })
+  await persist('insights')
+  res.json(insight)
+})
+
+api.get('/alerts', (req, res) => {
+  res.json(model.getAlertRules())
+})
+
+api.post('/alerts/test', async (req, res) => {
+  const result = await postToWebhook({
+    event: 'test',
+    sentAt: Date.now(),
+    notifications: [
+      toWebhookNotification({
+        id: 'notification_test',
+        ruleId: 'alert_test',
+        title: translate(DEFAULT_LOCALE, 'alertText.testTitle'),
+        message: { key: 'alertText.testMessage' },
+        metricType: model.getCategories()[0]?.id ?? '',
+        timestamp: Date.now(),
+        key: 'alert_test',
+        read: false,
+      }),
+    ],
+  })
+  res.status(result.delivered ? 200 : 502).json(result)
+})
+
+api.post('/alerts', async (req, res) => {
+  const error = validateAlertRuleInput(req.body, model.getCategories(true))
+  if (error) return res.status(400).json({ error })
+
+  const { title, metricType, metricName, aggregation, condition, enabled } = req.body
+  const rule = model.addAlertRule({
+    title: title.trim(),
+    metricType,
+    metricName: metricName?.trim() || undefined,
+    aggregation: aggregation ?? undefined,
+    condition,
+    enabled,
+  })
+  await persist('alerts')
+  res.status(201).json(rule)
+})
+
+api.patch('/alerts/:id', async (req, res) => {
+  const error = validateAlertRuleInput(req.body, model.getCategories(true), true)
+  if (error) return res.status(400).json({ error })
+
+  const updates = pickFields(req.body, ['title', 'metricType', 'metricName', 'aggregation', 'condition', 'enabled'])
+  if (typeof updates.title === 'string') updates.title = updates.title.trim()
+  // `null` clears the metric name or aggregation
+  if ('metricName' in updates) updates.metricName = updates.metricName?.trim() || undefined
+  if ('aggregation' in updates) updates.aggregation = updates.aggregation ?? undefined
+
+  const rule = model.updateAlertRule(req.params.id, updates)
+  if (!rule) return res.status(404).json({ error: 'Alert rule not found' })
+  await persist('alerts')
+  res.json(rule)
+})
+
+api.delete('/alerts/:id', async (req, res) => {
+  if (!model.deleteAlertRule(req.params.id)) {
+    return res.status(404).json({ error: 'Alert rule not found' })
+  }
+  await persist('alerts')
+  res.status(204).end()
+})
+
+api.get('/notifications', (req, res) => {
+  res.json(model.getNotifications(req.query.unread === 'true'))
+})
+
+api.post('/notifications/read-all', async (req, res) => {
+  const count = model.markAllNotificationsRead()
+  await persist('notifications')
+  res.json({ count })
+})
+
+api.patch('/notifications/:id', async (req, res) => {
+  if (typeof req.body?.read !== 'boolean') {
+    return res.status(400).json({ error: 'Field "read" must be a boolean' })
+  }
+  const notification = model.markNotificationRead(req.params.id, req.body.read)
+  if (!notification) return res.status(404).json({ error: 'Notification not found' })
+  await persist('notifications')
+  res.json(notification)
+})
+
+api.get('/reports', (req, res) => {
+  const end = parseTimestamp(req.query.end, Date.now(), true)
+  const start = parseTimestamp(req.query.start, end - 30 * 24 * 60 * 60 * 1000)
+  const aggregations = req.query.aggregations
+    ? String(req.query.aggregations).split(',').map((a) => a.trim())
+    : undefined
+  const unknown = aggregations?.find((a) => !AGGREGATION_FNS.some((fn) => fn.value === a))
+  if (unknown) {
+    return res.status(400).json({ error: `Unknown aggregation "${unknown}"` })
+  }
+  const format = req.query.format ?? 'txt'
+  if (!REPORT_FORMATS.some((f) => f.value === format)) {
+    return res.status(400).json({ error: `Unknown report format "${format}"` })
+  }
+  if (req.query.locale !== undefined && !isLocale(req.query.locale)) {
+    return res.status(400).json({ error: `Unknown locale "${req.query.locale}"` })
+  }
+  const locale = getRequestLocale(req, true)
+  const report = renderReport(model.buildReport(start, end, aggregations), format, locale)
+  res.vary('Accept-Language').vary('Cookie')
+  if (req.query.download === 'true') {
+    res.attachment(report.filename)
+  }
+  res
+    .type(report.mimeType)
+    .send(typeof report.content === 'string' ? report.content : Buffer.from(report.content))
+})
+
+api.use((req, res) => {
+  res.status(404).json({ error: `No API route for ${req.method} ${req.path}` })
+})
+
+// Body parsing failures (malformed JSON, oversized payloads) and unexpected
+// errors answer in the API's JSON shape rather than as an HTML page
+api.use((err, req, res, _next) => {
+  const status = err.status ?? err.statusCode ?? 500
+  if (status >= 500) console.error(err)
+  res.status(status).json({ error: err.message })
+})
+
+app.use(`${base}api`, api)
+
 // Serve HTML
 app.use('*all', async (req, res) => {
   try {
@@ -41,31 +909,31 @@ app.use('*all', async (req, res) => {
 
     /** @type {string} */
     let template
-    /** @type {import('./src/entry-server.ts').render} */
-    let render
     if (!isProduction) {
       // Always read fresh template in development
       template = await fs.readFile('./index.html', 'utf-8')
       template = await vite.transformIndexHtml(url, template)
-      render = (await vite.ssrLoadModule('/src/entry-server.tsx')).render
     } else {
       template = templateHtml
-      render = (await import('./dist/server/entry-server.js')).render
     }
+    const { render } = await loadServerEntry()
 
     let didError = false
 
-    const { pipe, abort } = render(url, {
+    const { pipe, abort, statusCode, head, lang } = render(url, model.getData(), getRequestLocale(req), {
       onShellError() {
         res.status(500)
         res.set({ 'Content-Type': 'text/html' })
         res.send('<h1>Something went wrong</h1>')
       },
       onShellReady() {
-        res.status(didError ? 500 : 200)
-        res.set({ 'Content-Type': 'text/html' })
+        res.status(didError ? 500 : statusCode)
+        res.set({ 'Content-Type': 'text/html', Vary: 'Accept-Language, Cookie' })
 
-        const [htmlStart, htmlEnd] = template.split(`<!--app-html-->`)
+        const [htmlStart, htmlEnd] = template
+          .replace(/<html lang="[^"]*"/, `<html lang="${lang}"`)
+          .replace(`<!--app-head-->`, head)
+          .split(`<!--app-html-->`)
 
         const transformStream = new Transform({
           transform(chunk, encoding, callback) {
@@ -4,10 +4,134 @@ import React, { useState, useEffect, useMemo, createContext, useContext } from '
 // TYPES & INTERFACES
 // ============================================================================
 
-type MetricType = 'productivity' | 'health' | 'finance' | 'social' | 'learning';
+/**
+ * Id of a user-defined Category
+ */
+type MetricType = string;
 type WidgetType = 'line' | 'bar' | 'pie' | 'stat' | 'progress' | 'list';
 type PeriodType = 'day' | 'week' | 'month' | 'year';
 
+type AggregationFn = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'last' | 'median' | 'p90';
+
+// First day of the week, as numbered by Date.getDay (0 = Sunday, 1 = Monday)
+type WeekStart = 0 | 1;
+
+type TimeRange =
+  | { kind: 'last-days'; days: number }
+  | { kind: 'this-month' }
+  | { kind: 'custom'; start: number; end: number };
+
+interface Category {
+  id: MetricType;
+  label: string;
+  color: string;
+  icon: string;
+  // Archived categories keep their data but are hidden from pickers
+  archived?: boolean;
+}
+
+/**
+ * Registry entry describing a metric name: its unit, accepted values and how
+ * it should be aggregated and interpreted
+ */
+interface MetricDefinition {
+  id: string;
+  name: string;
+  category: MetricType;
+  unit: string;
+  min?: number;
+  max?: number;
+  // Decimal places accepted and displayed
+  precision: number;
+  aggregation: AggregationFn;
+  higherIsBetter: boolean;
+}
+
+type GoalDirection = 'at-least' | 'at-most';
+
+/**
+ * Target for one metric name, or a whole category when `metricName` is
+ * omitted, to be met in every day, week, month or year
+ */
+interface Goal {
+  id: string;
+  title: string;
+  metricType: MetricType;
+  metricName?: string;
+  period: PeriodType;
+  target: number;
+  direction: GoalDirection;
+  // Defaults to the aggregation of the metric's definition
+  aggregation?: AggregationFn;
+  createdAt: number;
+}
+
+interface GoalPeriodResult {
+  start: number;
+  end: number;
+  value: number;
+  achieved: boolean;
+}
+
+interface GoalProgress {
+  goal: Goal;
+  // The period in progress
+  current: GoalPeriodResult;
+  percent: number;
+  unit: string | null;
+  aggregation: AggregationFn;
+  // Completed periods since the first entry, oldest first
+  history: GoalPeriodResult[];
+  streak: number;
+  bestStreak: number;
+}
+
+type AlertOperator = 'lt' | 'gt';
+
+type AlertCondition =
+  // The last `consecutive` periods with entries, ending now, are all below/above `value`
+  | { kind: 'threshold'; operator: AlertOperator; value: number; period: PeriodType; consecutive: number }
+  // The current period is below/above `percent`% of the previous one
+  | { kind: 'change'; operator: AlertOperator; percent: number; period: PeriodType };
+
+/**
+ * Condition on a metric name (or a whole category) that raises a
+ * notification when it becomes true
+ */
+interface AlertRule {
+  id: string;
+  title: string;
+  metricType: MetricType;
+  metricName?: string;
+  // Defaults to the aggregation of the metric's definition
+  aggregation?: AggregationFn;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: number;
+}
+
+/**
+ * Partial update in which `null` clears the optional fields `K`, as the API accepts
+ */
+type ClearableUpdate<T, K extends keyof T> = Partial<Omit<T, K>> & { [P in K]?: T[P] | null };
+
+type DefinitionUpdate = ClearableUpdate<Omit<MetricDefinition, 'id'>, 'min' | 'max'>;
+type GoalUpdate = ClearableUpdate<Omit<Goal, 'id' | 'createdAt'>, 'metricName' | 'aggregation'>;
+type AlertRuleUpdate = ClearableUpdate<Omit<AlertRule, 'id' | 'createdAt'>, 'metricName' | 'aggregation'>;
+
+interface AlertNotification {
+  id: string;
+  ruleId: string;
+  // The rule's title, as the user wrote it
+  title: string;
+  message: LocalizedText;
+  metricType: MetricType;
+  timestamp: number;
+  // Rule and triggering period, so a rule fires once per period
+  key: string;
+  read: boolean;
+}
+
 interface Metric {
   id: string;
   name: string;
@@ -16,6 +140,17 @@ interface Metric {
   unit: string;
   timestamp: number;
   metadata?: Record<string, any>;
+  // Key sent by the client that pushed the entry, so a retried push is not stored twice
+  idempotencyKey?: string;
+}
+
+interface WidgetConfig {
+  range?: TimeRange;
+  period?: PeriodType;
+  metricNames?: string[];
+  aggregation?: AggregationFn;
+  goalId?: string;
+  [key: string]: any;
 }
 
 interface Widget {
@@ -25,19 +160,76 @@ interface Widget {
   metricType: MetricType;
   position: number;
   isVisible: boolean;
-  config: Record<string, any>;
+  config: WidgetConfig;
+}
+
+/**
+ * Generated text stored as a message key with its parameters, and translated
+ * when shown so it follows the reader's locale
+ */
+interface LocalizedText {
+  key: MessageKey;
+  params?: Record<string, LocalizedParam>;
 }
 
+/**
+ * Parameter of a LocalizedText. Strings are used as they are; numbers,
+ * values, dates and labels are formatted in the reader's locale.
+ */
+type LocalizedParam =
+  | string
+  | number
+  | number[]
+  | LocalizedText
+  | { value: number; unit: string | null }
+  | { date: number; timeZone: string }
+  // Day key, see getBucketKey
+  | { day: string }
+  | { aggregation: AggregationFn }
+  | { periodNoun: PeriodType; count: number };
+
+type InsightSeverity = 'low' | 'medium' | 'high';
+
 interface Insight {
   id: string;
-  title: string;
-  description: string;
+  title: LocalizedText;
+  description: LocalizedText;
+  // The numbers behind the insight
+  explanation?: LocalizedText;
   type: 'positive' | 'negative' | 'neutral';
+  severity: InsightSeverity;
+  // Id of the InsightRule that produced it
+  rule: string;
   metricType: MetricType;
+  // When the insight first appeared and when its rule last produced it
   timestamp: number;
+  lastSeenAt: number;
+  // False once the rule stops producing it; it then stays in the history
+  active: boolean;
+  pinned?: boolean;
+  // Hidden until the insight goes inactive and comes back
+  dismissed?: boolean;
+  snoozedUntil?: number;
+}
+
+type InsightUpdate = Partial<Pick<Insight, 'pinned' | 'dismissed' | 'snoozedUntil'>>;
+
+/**
+ * User preferences for placing dates in days, weeks, months and years
+ */
+interface DashboardSettings {
+  // IANA time zone, e.g. "America/Sao_Paulo"
+  timeZone: string;
+  weekStart: WeekStart;
 }
 
 interface DashboardData {
+  settings: DashboardSettings;
+  categories: Category[];
+  definitions: MetricDefinition[];
+  goals: Goal[];
+  alertRules: AlertRule[];
+  notifications: AlertNotification[];
   metrics: Metric[];
   widgets: Widget[];
   insights: Insight[];
@@ -48,6 +240,41 @@ interface ComparisonData {
   previous: number;
   change: number;
   changePercent: number;
+  unit: string | null;
+}
+
+interface MetricQuery {
+  metricNames?: string[];
+  range?: TimeRange;
+  aggregation?: AggregationFn;
+}
+
+interface MetricStatistics {
+  total: number;
+  average: number;
+  max: number;
+  min: number;
+  trend: 'up' | 'down' | 'stable';
+  unit: string | null;
+}
+
+interface MetricSeries {
+  name: string;
+  unit: string;
+  values: Record<string, number>;
+}
+
+/**
+ * Thrown when an aggregation would add up values recorded in different units
+ */
+class UnitMismatchError extends Error {
+  readonly units: string[];
+
+  constructor(units: string[]) {
+    super(`Cannot aggregate metrics with different units: ${units.join(', ')}`);
+    this.name = 'UnitMismatchError';
+    this.units = units;
+  }
 }
 
 // ============================================================================
@@ -56,14 +283,118 @@ interface ComparisonData {
 
 const isClient = typeof window !== 'undefined';
 
-const METRIC_TYPES: { value: MetricType; label: string; color: string; icon: string }[] = [
-  { value: 'productivity', label: 'Produtividade', color: '#3b82f6', icon: '⚡' },
-  { value: 'health', label: 'Saúde', color: '#10b981', icon: '💪' },
-  { value: 'finance', label: 'Finanças', color: '#f59e0b', icon: '💰' },
-  { value: 'social', label: 'Social', color: '#ec4899', icon: '👥' },
-  { value: 'learning', label: 'Aprendizado', color: '#8b5cf6', icon: '📚' },
+const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'productivity', label: 'Produtividade', color: '#3b82f6', icon: '⚡' },
+  { id: 'health', label: 'Saúde', color: '#10b981', icon: '💪' },
+  { id: 'finance', label: 'Finanças', color: '#f59e0b', icon: '💰' },
+  { id: 'social', label: 'Social', color: '#ec4899', icon: '👥' },
+  { id: 'learning', label: 'Aprendizado', color: '#8b5cf6', icon: '📚' },
+];
+
+const DEFAULT_CATEGORY_ICON = '📊';
+
+/**
+ * URL-safe id from a label, e.g. "Code Reviews" → "code-reviews"
+ */
+const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const PERIOD_TYPES: { value: PeriodType; labelKey: MessageKey }[] = [
+  { value: 'day', labelKey: 'period.day' },
+  { value: 'week', labelKey: 'period.week' },
+  { value: 'month', labelKey: 'period.month' },
+  { value: 'year', labelKey: 'period.year' },
+];
+
+const WEEK_STARTS: { value: WeekStart; labelKey: MessageKey }[] = [
+  { value: 0, labelKey: 'weekStart.sunday' },
+  { value: 1, labelKey: 'weekStart.monday' },
 ];
 
+const AGGREGATION_FNS: { value: AggregationFn; labelKey: MessageKey }[] = [
+  { value: 'sum', labelKey: 'aggregation.sum' },
+  { value: 'avg', labelKey: 'aggregation.avg' },
+  { value: 'min', labelKey: 'aggregation.min' },
+  { value: 'max', labelKey: 'aggregation.max' },
+  { value: 'count', labelKey: 'aggregation.count' },
+  { value: 'last', labelKey: 'aggregation.last' },
+  { value: 'median', labelKey: 'aggregation.median' },
+  { value: 'p90', labelKey: 'aggregation.p90' },
+];
+
+const GOAL_DIRECTIONS: { value: GoalDirection; labelKey: MessageKey }[] = [
+  { value: 'at-least', labelKey: 'goalDirection.atLeast' },
+  { value: 'at-most', labelKey: 'goalDirection.atMost' },
+];
+
+const ALERT_OPERATORS: { value: AlertOperator; labelKey: MessageKey; symbol: string }[] = [
+  { value: 'lt', labelKey: 'alertOperator.lt', symbol: '<' },
+  { value: 'gt', labelKey: 'alertOperator.gt', symbol: '>' },
+];
+
+// Notifications kept, oldest read ones are dropped first
+const NOTIFICATION_LIMIT = 100;
+
+const DEFAULT_REPORT_AGGREGATIONS: AggregationFn[] = ['count', 'sum', 'avg'];
+
+const WIDGET_TYPES: { value: WidgetType; labelKey: MessageKey }[] = [
+  { value: 'line', labelKey: 'widgetType.line' },
+  { value: 'bar', labelKey: 'widgetType.bar' },
+  { value: 'pie', labelKey: 'widgetType.pie' },
+  { value: 'stat', labelKey: 'widgetType.stat' },
+  { value: 'progress', labelKey: 'widgetType.progress' },
+  { value: 'list', labelKey: 'widgetType.list' },
+];
+
+/**
+ * Config options exposed in the widget settings form for each widget type
+ */
+const WIDGET_CONFIG_FIELDS: Record<WidgetType, { key: string; labelKey: MessageKey; kind: 'boolean' | 'number' | 'range' | 'period' | 'metricNames' | 'aggregation' | 'goal' }[]> = {
+  line: [
+    { key: 'metricNames', labelKey: 'widgetConfig.metricNames', kind: 'metricNames' },
+    { key: 'range', labelKey: 'widgetConfig.range', kind: 'range' },
+    { key: 'period', labelKey: 'widgetConfig.period', kind: 'period' },
+    { key: 'aggregation', labelKey: 'widgetConfig.aggregation', kind: 'aggregation' },
+    { key: 'showGrid', labelKey: 'widgetConfig.showGrid', kind: 'boolean' },
+    { key: 'showLegend', labelKey: 'widgetConfig.showLegend', kind: 'boolean' },
+  ],
+  bar: [
+    { key: 'metricNames', labelKey: 'widgetConfig.metricNames', kind: 'metricNames' },
+    { key: 'range', labelKey: 'widgetConfig.range', kind: 'range' },
+    { key: 'period', labelKey: 'widgetConfig.period', kind: 'period' },
+    { key: 'aggregation', labelKey: 'widgetConfig.aggregation', kind: 'aggregation' },
+  ],
+  pie: [
+    { key: 'metricNames', labelKey: 'widgetConfig.metricNames', kind: 'metricNames' },
+    { key: 'range', labelKey: 'widgetConfig.range', kind: 'range' },
+    { key: 'aggregation', labelKey: 'widgetConfig.aggregation', kind: 'aggregation' },
+    { key: 'showPercentages', labelKey: 'widgetConfig.showPercentages', kind: 'boolean' },
+    { key: 'donut', labelKey: 'widgetConfig.donut', kind: 'boolean' },
+  ],
+  stat: [
+    { key: 'metricNames', labelKey: 'widgetConfig.metricNames', kind: 'metricNames' },
+    { key: 'range', labelKey: 'widgetConfig.range', kind: 'range' },
+    { key: 'aggregation', labelKey: 'widgetConfig.aggregation', kind: 'aggregation' },
+    { key: 'showTrend', labelKey: 'widgetConfig.showTrend', kind: 'boolean' },
+  ],
+  progress: [
+    { key: 'goalId', labelKey: 'widgetConfig.goalId', kind: 'goal' },
+    { key: 'metricNames', labelKey: 'widgetConfig.metricNames', kind: 'metricNames' },
+    { key: 'range', labelKey: 'widgetConfig.range', kind: 'range' },
+    { key: 'aggregation', labelKey: 'widgetConfig.aggregation', kind: 'aggregation' },
+    { key: 'target', labelKey: 'widgetConfig.target', kind: 'number' },
+  ],
+  list: [
+    { key: 'metricNames', labelKey: 'widgetConfig.metricNames', kind: 'metricNames' },
+    { key: 'limit', labelKey: 'widgetConfig.limit', kind: 'number' },
+  ],
+};
+
 const DEFAULT_WIDGETS: Widget[] = [
   {
     id: 'widget_1',
@@ -72,7 +403,7 @@ const DEFAULT_WIDGETS: Widget[] = [
     metricType: 'productivity',
     position: 0,
     isVisible: true,
-    config: { showGrid: true, showLegend: true },
+    config: { showGrid: true, showLegend: true, range: { kind: 'last-days', days: 7 }, period: 'day' },
   },
   {
     id: 'widget_2',
@@ -81,7 +412,7 @@ const DEFAULT_WIDGETS: Widget[] = [
     metricType: 'health',
     position: 1,
     isVisible: true,
-    config: { showTrend: true },
+    config: { showTrend: true, range: { kind: 'last-days', days: 7 }, metricNames: ['Horas de Sono'] },
   },
   {
     id: 'widget_3',
@@ -90,7 +421,7 @@ const DEFAULT_WIDGETS: Widget[] = [
     metricType: 'finance',
     position: 2,
     isVisible: true,
-    config: { showPercentages: true },
+    config: { showPercentages: true, donut: true, range: { kind: 'last-days', days: 30 } },
   },
   {
     id: 'widget_4',
@@ -99,10 +430,24 @@ const DEFAULT_WIDGETS: Widget[] = [
     metricType: 'learning',
     position: 3,
     isVisible: true,
-    config: { orientation: 'vertical' },
+    config: { orientation: 'vertical', range: { kind: 'last-days', days: 7 }, period: 'day' },
   },
 ];
 
+const DEFAULT_DEFINITIONS: MetricDefinition[] = [
+  { id: 'definition_productivity_tarefas-concluidas', name: 'Tarefas Concluídas', category: 'productivity', unit: 'tarefas', min: 0, precision: 0, aggregation: 'sum', higherIsBetter: true },
+  { id: 'definition_productivity_tempo-focado', name: 'Tempo Focado', category: 'productivity', unit: 'horas', min: 0, max: 24, precision: 1, aggregation: 'sum', higherIsBetter: true },
+  { id: 'definition_health_passos', name: 'Passos', category: 'health', unit: 'passos', min: 0, precision: 0, aggregation: 'sum', higherIsBetter: true },
+  { id: 'definition_health_horas-de-sono', name: 'Horas de Sono', category: 'health', unit: 'horas', min: 0, max: 24, precision: 1, aggregation: 'avg', higherIsBetter: true },
+  { id: 'definition_finance_despesas', name: 'Despesas', category: 'finance', unit: 'R$', min: 0, precision: 2, aggregation: 'sum', higherIsBetter: false },
+  { id: 'definition_social_interacoes-sociais', name: 'Interações Sociais', category: 'social', unit: 'interações', min: 0, precision: 0, aggregation: 'sum', higherIsBetter: true },
+  { id: 'definition_learning_horas-de-estudo', name: 'Horas de Estudo', category: 'learning', unit: 'horas', min: 0, max: 24, precision: 1, aggregation: 'sum', higherIsBetter: true },
+];
+
+const EXPENSE_CATEGORIES = ['Alimentação', 'Transporte', 'Moradia', 'Lazer', 'Saúde'];
+
+const CHART_PALETTE = ['#3b82f6', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4', '#ef4444', '#84cc16'];
+
 // Generate sample metrics for the last 30 days
 const generateSampleMetrics = (): Metric[] => {
   const metrics: Metric[] = [];
@@ -158,6 +503,7 @@ const generateSampleMetrics = (): Metric[] => {
       value: Math.floor(Math.random() * 200) + 50,
       unit: 'R$',
       timestamp,
+      metadata: { category: EXPENSE_CATEGORIES[i % EXPENSE_CATEGORIES.length] },
     });
 
     // Social metrics
@@ -185,1428 +531,10061 @@ const generateSampleMetrics = (): Metric[] => {
 };
 
 // ============================================================================
-// STORAGE SERVICE
+// I18N
 // ============================================================================
 
-class StorageService {
-  private static readonly STORAGE_KEYS = Object.freeze({
-    DARK_MODE: 'analytics_darkMode',
-    DASHBOARD_DATA: 'analytics_dashboardData',
-  });
+type Locale = 'pt-BR' | 'en';
 
-  static saveToStorage(key: string, value: any): void {
-    if (!isClient) return;
-    try {
-      sessionStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error(`Error saving ${key} to storage:`, error);
-    }
-  }
+const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'pt-BR', label: 'Português' },
+  { value: 'en', label: 'English' },
+];
 
-  static loadFromStorage<T>(key: string, defaultValue: T): T {
-    if (!isClient) return defaultValue;
-    try {
-      const saved = sessionStorage.getItem(key);
-      return saved ? JSON.parse(saved) : defaultValue;
-    } catch (error) {
-      console.error(`Error loading ${key} from storage:`, error);
-      return defaultValue;
-    }
-  }
+const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Cookie holding the language picked in the header, read by the server during SSR
+const LOCALE_COOKIE = 'locale';
+
+const PT_BR_MESSAGES = {
+  'period.day': 'Diário',
+  'period.week': 'Semanal',
+  'period.month': 'Mensal',
+  'period.year': 'Anual',
+  'aggregation.sum': 'Soma',
+  'aggregation.avg': 'Média',
+  'aggregation.min': 'Mínimo',
+  'aggregation.max': 'Máximo',
+  'aggregation.count': 'Contagem',
+  'aggregation.last': 'Último valor',
+  'aggregation.median': 'Mediana',
+  'aggregation.p90': 'Percentil 90',
+  'goalDirection.atLeast': 'Pelo menos',
+  'goalDirection.atMost': 'No máximo',
+  'periodNoun.day.one': 'dia',
+  'periodNoun.day.other': 'dias',
+  'periodNoun.week.one': 'semana',
+  'periodNoun.week.other': 'semanas',
+  'periodNoun.month.one': 'mês',
+  'periodNoun.month.other': 'meses',
+  'periodNoun.year.one': 'ano',
+  'periodNoun.year.other': 'anos',
+  'alertOperator.lt': 'Abaixo de',
+  'alertOperator.gt': 'Acima de',
+  'widgetType.line': 'Linha',
+  'widgetType.bar': 'Barras',
+  'widgetType.pie': 'Pizza',
+  'widgetType.stat': 'Estatística',
+  'widgetType.progress': 'Progresso',
+  'widgetType.list': 'Lista',
+  'widgetConfig.metricNames': 'Métricas',
+  'widgetConfig.range': 'Intervalo',
+  'widgetConfig.period': 'Agrupamento',
+  'widgetConfig.aggregation': 'Agregação',
+  'widgetConfig.showGrid': 'Mostrar grade',
+  'widgetConfig.showLegend': 'Mostrar legenda',
+  'widgetConfig.showPercentages': 'Mostrar percentuais',
+  'widgetConfig.donut': 'Estilo rosca',
+  'widgetConfig.showTrend': 'Mostrar tendência',
+  'widgetConfig.goalId': 'Meta',
+  'widgetConfig.target': 'Alvo (sem meta)',
+  'widgetConfig.limit': 'Quantidade de registros',
+  'range.lastDays.one': 'último {count} dia',
+  'range.lastDays.other': 'últimos {count} dias',
+  'range.thisMonth': 'este mês',
+  'range.custom': '{start} a {end}',
+  'bucket.week': 'sem {date}',
+  'reportFormat.txt': 'Texto',
+  'reportFormat.csv': 'CSV (registros)',
+  'reportFormat.json': 'JSON (resumo)',
+  'reportFormat.md': 'Markdown',
+  'reportFormat.html': 'HTML com gráficos',
+  'reportFormat.pdf': 'PDF',
+  'report.title': 'Relatório de Analytics Pessoal',
+  'report.period': 'Período',
+  'report.metric': 'Métrica',
+  'report.unit': 'Unidade',
+  'report.chartCaption': '{aggregation} por período',
+  'report.entries.one': '{count} registro',
+  'report.entries.other': '{count} registros',
+  'nav.dashboard': 'Dashboard',
+  'nav.metrics': 'Métricas',
+  'nav.insights': 'Insights',
+  'nav.reports': 'Relatórios',
+  'nav.settings': 'Configurações',
+  'header.language': 'Idioma',
+  'header.toggleTheme': 'Alternar tema',
+  'notifications.title': 'Alertas',
+  'notifications.unread.one': '{count} alerta não lido',
+  'notifications.unread.other': '{count} alertas não lidos',
+  'notifications.markAllRead': 'Marcar todos como lidos',
+  'notifications.empty': 'Nenhum alerta disparado',
+  'notifications.markUnread': 'Marcar como não lido',
+  'notifications.markRead': 'Marcar como lido',
+  'notifications.manageRules': 'Gerenciar regras de alerta',
+  'common.close': 'Fechar',
+  'widget.unitMismatch': 'Estas métricas usam unidades diferentes ({units}) e não podem ser somadas. Selecione métricas com a mesma unidade nas configurações do widget.',
+  'widget.statLabelUnit': '{aggregation} em {unit}',
+  'trend.up': 'Em alta',
+  'trend.down': 'Em baixa',
+  'trend.stable': 'Estável',
+  'widget.total': 'Total',
+  'widget.max': 'Máx',
+  'widget.noDataInRange': 'Sem dados no período',
+  'widget.percentOfTarget': '{percent}% da meta',
+  'widget.perPeriod': '{aggregation} por {period}',
+  'widget.streak': 'Sequência: {streak} {noun} · recorde {best}',
+  'widget.noTarget': 'Vincule uma meta ou defina um alvo (config.target) para este widget',
+  'widget.noEntries': 'Nenhum registro ainda',
+  'dashboard.subtitle': 'Visão geral das suas métricas',
+  'dashboard.empty': 'Nenhum widget visível. Configure seus widgets nas configurações.',
+  'dashboard.openSettings': 'Abrir Configurações',
+  'metrics.pickDefinition': 'Escolha uma métrica definida para este registro',
+  'metrics.confirmDelete': 'Deseja realmente excluir esta métrica?',
+  'metrics.import': 'Importar',
+  'metrics.new': 'Nova Métrica',
+  'metrics.addTitle': 'Adicionar Nova Métrica',
+  'metrics.valuePlaceholder': 'Valor ({unit})',
+  'metrics.timestampHint': 'Data e hora (vazio = agora)',
+  'common.add': 'Adicionar',
+  'common.save': 'Salvar',
+  'common.cancel': 'Cancelar',
+  'common.edit': 'Editar',
+  'common.delete': 'Excluir',
+  'metrics.noDefinitions': 'Nenhuma métrica definida para esta categoria.',
+  'metrics.defineMetric': 'Defina uma métrica antes de registrar valores.',
+  'metrics.search': 'Buscar métricas...',
+  'metrics.allNames': 'Todas as métricas',
+  'metrics.unitMismatch': 'As métricas desta categoria usam unidades diferentes ({units}). Selecione uma métrica para ver as estatísticas.',
+  'metrics.total30': 'Total (30 dias)',
+  'metrics.trend': 'Tendência',
+  'metrics.undefinedName': '{name} (sem definição)',
+  'insightTab.current': 'Atuais',
+  'insightTab.hidden': 'Ocultos',
+  'insightTab.history': 'Histórico',
+  'insightType.positive': 'Positivo',
+  'insightType.negative': 'Negativo',
+  'insightType.neutral': 'Neutro',
+  'severity.low': 'Baixa relevância',
+  'severity.medium': 'Média relevância',
+  'severity.high': 'Alta relevância',
+  'insightRule.goals': 'Metas',
+  'insightRule.week-over-week': 'Variação semanal',
+  'insightRule.anomaly': 'Anomalias',
+  'insightRule.personal-record': 'Recordes pessoais',
+  'insightRule.correlation': 'Correlações',
+  'insightRule.consistency': 'Consistência',
+  'insightRule.streak-break': 'Sequências interrompidas',
+  'insights.title': 'Insights Automáticos',
+  'insights.subtitle': 'Análises geradas automaticamente baseadas em seus dados',
+  'common.allCategories': 'Todas as categorias',
+  'insights.allTypes': 'Todos os tipos',
+  'insights.allRules': 'Todas as regras',
+  'common.from': 'A partir de',
+  'common.until': 'Até',
+  'insights.snoozedUntil': 'adiado até {date}',
+  'insights.unpin': 'Desafixar',
+  'insights.pin': 'Fixar no topo',
+  'insights.restore': 'Mostrar novamente',
+  'insights.snooze': 'Adiar',
+  'insights.snoozeFor.one': 'Adiar {count} dia',
+  'insights.snoozeFor.other': 'Adiar {count} dias',
+  'insights.dismiss': 'Dispensar',
+  'insights.noneYet': 'Ainda não há insights disponíveis. Continue adicionando métricas!',
+  'insights.noneFound': 'Nenhum insight encontrado.',
+  'reports.export': 'Exportar Relatório',
+  'reports.config': 'Configuração do Relatório',
+  'reports.startDate': 'Data Inicial',
+  'reports.endDate': 'Data Final',
+  'reports.aggregations': 'Agregações no relatório',
+  'reports.comparison': 'Comparação de Períodos',
+  'common.aggregation': 'Agregação',
+  'reports.currentPeriod': 'Período Atual',
+  'reports.previousPeriod': 'Período Anterior',
+  'reports.change': 'Mudança',
+  'timeRange.lastDays': 'Últimos N dias',
+  'timeRange.thisMonth': 'Este mês',
+  'timeRange.custom': 'Personalizado',
+  'settings.widgets': 'Widgets',
+  'settings.categories': 'Categorias',
+  'settings.goals': 'Metas',
+  'categories.subtitle': 'Crie, edite, arquive e exclua categorias de métricas',
+  'common.entries.one': '{count} registro',
+  'common.entries.other': '{count} registros',
+  'categories.archived': 'arquivada',
+  'categories.restore': 'Restaurar',
+  'categories.archive': 'Arquivar',
+  'categories.deletePrompt': 'Excluir {label}? O que fazer com as métricas e widgets desta categoria?',
+  'categories.deleteWith': 'Excluir junto com a categoria',
+  'categories.moveTo': 'Mover para {category}',
+  'categories.delete': 'Excluir Categoria',
+  'categories.edit': 'Editar Categoria',
+  'categories.new': 'Nova Categoria',
+  'categories.add': 'Adicionar Categoria',
+  'common.name': 'Nome',
+  'common.icon': 'Ícone',
+  'common.color': 'Cor',
+  'common.saveChanges': 'Salvar Alterações',
+  'definitions.confirmDelete': 'Excluir a definição "{name}"? Os registros existentes são mantidos.',
+  'definitions.subtitle': 'Defina as métricas de cada categoria, com unidade, faixa de valores e precisão',
+  'definitions.range': '{min} a {max}',
+  'definitions.empty': 'Nenhuma métrica definida ainda',
+  'definitions.edit': 'Editar Métrica',
+  'definitions.new': 'Nova Métrica',
+  'definitions.add': 'Adicionar Métrica',
+  'common.category': 'Categoria',
+  'definitions.precision': 'Casas decimais',
+  'definitions.noLimit': 'Sem limite',
+  'definitions.defaultAggregation': 'Agregação padrão',
+  'definitions.higherIsBetter': 'Valores maiores são melhores',
+  'goals.confirmDelete': 'Excluir a meta "{title}"?',
+  'goals.subtitle': 'Defina metas por dia, semana, mês ou ano e acompanhe suas sequências',
+  'goals.empty': 'Nenhuma meta criada ainda',
+  'goals.targetPerPeriod': '{target} por {period}',
+  'goals.current': 'Atual: {value}',
+  'goals.edit': 'Editar Meta',
+  'goals.new': 'Nova Meta',
+  'goals.add': 'Adicionar Meta',
+  'common.title': 'Título',
+  'goals.titlePlaceholder': 'Ex.: 10.000 passos por dia',
+  'common.wholeCategory': 'Toda a categoria',
+  'goals.direction': 'Direção',
+  'goals.target': 'Alvo',
+  'common.defaultAggregation': 'Padrão ({aggregation})',
+  'alerts.describeThreshold': '{operator} {value} por {consecutive} {noun}',
+  'alerts.describeChange': '{operator} {percent}% do período anterior (por {noun})',
+  'alerts.confirmDelete': 'Excluir o alerta "{title}"?',
+  'alerts.webhookSending': 'Enviando...',
+  'alerts.webhookDelivered': 'Entregue (HTTP {status})',
+  'alerts.webhookFailed': 'Falhou: {error}',
+  'alerts.subtitle': 'Receba um aviso quando uma métrica passar de um limite ou mudar demais',
+  'alerts.rules': 'Regras de Alerta',
+  'alerts.empty': 'Nenhum alerta criado ainda',
+  'alerts.disable': 'Desativar',
+  'alerts.enable': 'Ativar',
+  'alerts.delivery': 'Entrega',
+  'alerts.browserGranted': 'Notificações do navegador ativas',
+  'alerts.browserDenied': 'Notificações bloqueadas no navegador',
+  'alerts.browserUnsupported': 'Navegador sem notificações',
+  'alerts.browserEnable': 'Ativar notificações do navegador',
+  'alerts.testWebhook': 'Testar webhook',
+  'alerts.edit': 'Editar Alerta',
+  'alerts.new': 'Novo Alerta',
+  'alerts.add': 'Adicionar Alerta',
+  'alerts.titlePlaceholder': 'Ex.: Pouco sono',
+  'alerts.condition': 'Condição',
+  'alerts.kindThreshold': 'Limite em períodos seguidos',
+  'alerts.kindChange': 'Comparado ao período anterior',
+  'alerts.operator': 'Operador',
+  'alerts.threshold': 'Limite',
+  'alerts.consecutive': 'Períodos seguidos',
+  'alerts.percent': '% do período anterior',
+  'widgets.confirmDelete': 'Deseja realmente excluir este widget?',
+  'widgets.subtitle': 'Adicione, edite, reordene e oculte os widgets do dashboard',
+  'widgets.dragToReorder': 'Arraste para reordenar',
+  'widgets.moveUp': 'Mover para cima',
+  'widgets.moveDown': 'Mover para baixo',
+  'widgets.hide': 'Ocultar',
+  'widgets.show': 'Mostrar',
+  'widgets.empty': 'Nenhum widget criado ainda',
+  'widgets.edit': 'Editar Widget',
+  'widgets.new': 'Novo Widget',
+  'widgets.add': 'Adicionar Widget',
+  'widgets.type': 'Tipo',
+  'widgets.noGoal': 'Nenhuma (configurar manualmente)',
+  'widgets.noNamesHint': 'Nenhuma selecionada = toda a categoria',
+  'widgets.visible': 'Visível no dashboard',
+  'widgets.preview': 'Pré-visualização',
+  'widgets.untitled': 'Sem título',
+  'importField.timestamp': 'Data',
+  'importField.name': 'Nome',
+  'importField.value': 'Valor',
+  'importField.unit': 'Unidade',
+  'importField.type': 'Categoria',
+  'importField.category': 'Subcategoria',
+  'import.done.one': '{count} registro importado.',
+  'import.done.other': '{count} registros importados.',
+  'import.title': 'Importar Métricas',
+  'import.subtitle': 'Importe dados históricos de planilhas (CSV) ou exportações em JSON',
+  'import.file': 'Arquivo',
+  'import.fileLabel': 'Arquivo CSV ou JSON',
+  'import.format': 'Formato',
+  'import.content': 'Conteúdo',
+  'import.csvPlaceholder': 'data,nome,valor,unidade\n2024-01-31,Passos,8500,passos',
+  'import.mapping': 'Mapeamento de Colunas',
+  'import.select': '— selecione —',
+  'import.useDefault': '— usar padrão —',
+  'import.timestampHint': 'Aceita ISO (2024-01-31), dd/mm/aaaa [hh:mm] ou epoch em segundos/milissegundos; datas sem fuso usam o fuso das preferências',
+  'import.defaultCategory': 'Categoria padrão',
+  'import.defaultName': 'Nome padrão',
+  'import.defaultUnit': 'Unidade padrão',
+  'import.valid.one': '{count} válida',
+  'import.valid.other': '{count} válidas',
+  'import.duplicates.one': '{count} duplicada',
+  'import.duplicates.other': '{count} duplicadas',
+  'import.errors.one': '{count} com erro',
+  'import.errors.other': '{count} com erro',
+  'import.skipDuplicates': 'Ignorar duplicadas',
+  'import.importing': 'Importando...',
+  'import.submit.one': 'Importar {count} registro',
+  'import.submit.other': 'Importar {count} registros',
+  'import.row': 'Linha',
+  'import.status': 'Situação',
+  'import.duplicate': 'Duplicada',
+  'import.truncated': 'Mostrando as primeiras {shown} de {total} linhas',
+  'notFound.title': 'Página não encontrada',
+  'notFound.message': 'O endereço acessado não existe.',
+  'notFound.back': 'Voltar ao Dashboard',
+  'weekStart.sunday': 'Domingo',
+  'weekStart.monday': 'Segunda-feira',
+  'settings.preferences': 'Preferências',
+  'preferences.subtitle': 'Fuso horário e início da semana usados em gráficos, metas, alertas e relatórios',
+  'preferences.calendar': 'Calendário',
+  'preferences.timeZone': 'Fuso horário',
+  'preferences.useBrowserTimeZone': 'Usar o fuso deste navegador ({timeZone})',
+  'preferences.weekStart': 'A semana começa no',
+  'preferences.hint': 'Os registros são agrupados por dia, semana, mês e ano neste fuso. Agora: {now}.',
+  'chart.resetZoom': 'Desfazer zoom',
+  'chart.hint': 'Arraste para ampliar · clique em um ponto para ver os registros',
+  'chart.hintZoom': 'Arraste para ampliar um período',
+  'metricSort.date': 'Data',
+  'metricSort.value': 'Valor',
+  'metricSort.name': 'Nome',
+  'sortOrder.asc': 'Crescente',
+  'sortOrder.desc': 'Decrescente',
+  'metrics.allUnits': 'Todas as unidades',
+  'metrics.minValue': 'Valor mínimo',
+  'metrics.maxValue': 'Valor máximo',
+  'metrics.anyMetadata': 'Qualquer metadado',
+  'metrics.metadataValue': 'Valor do metadado',
+  'metrics.clearFilters': 'Limpar filtros',
+  'metrics.sortBy': 'Ordenar por',
+  'metrics.noneFound': 'Nenhum registro encontrado.',
+  'pagination.previous': 'Anterior',
+  'pagination.next': 'Próxima',
+  'pagination.status': 'Página {page} de {pages}',
+  'bulk.delete': 'Excluir',
+  'bulk.retype': 'Mover para categoria',
+  'bulk.rename': 'Renomear',
+  'bulk.shift': 'Deslocar no tempo',
+  'bulk.convert': 'Converter valores',
+  'bulk.hours': 'horas',
+  'bulk.days': 'dias',
+  'bulk.select': 'Selecionar',
+  'bulk.selectPage': 'Selecionar esta página',
+  'bulk.selected.one': '{count} selecionado',
+  'bulk.selected.other': '{count} selecionados',
+  'bulk.selectAll.one': 'Selecionar {count} filtrado',
+  'bulk.selectAll.other': 'Selecionar todos os {count} filtrados',
+  'bulk.clearSelection': 'Limpar seleção',
+  'bulk.pickMetric': 'Escolha a métrica',
+  'bulk.shiftAmount': 'Quantidade (negativa = antes)',
+  'bulk.factor': 'Fator',
+  'bulk.factorHint': 'Cada valor é multiplicado por este fator e registrado na unidade da definição',
+  'bulk.apply': 'Aplicar',
+  'bulk.confirmDelete.one': 'Deseja realmente excluir {count} registro?',
+  'bulk.confirmDelete.other': 'Deseja realmente excluir {count} registros?',
+  'bulk.done.one': '{count} registro alterado.',
+  'bulk.done.other': '{count} registros alterados.',
+  'reports.unitMismatch': 'Os registros de {name} usam unidades diferentes ({units}) e não podem ser comparados.',
+  'definitions.unitFactor': '1 {from} = ? {to}',
+  'definitions.unitFactorRequired': 'Esta métrica já tem registros. Informe o fator para convertê-los para a nova unidade.',
+  'bulk.pickTarget': 'Escolha a métrica de destino',
+  'common.text': '{text}',
+  'insightText.withRemark': '{text} {remark}',
+  'insightText.goals.atLeast': 'pelo menos {value}',
+  'insightText.goals.atMost': 'no máximo {value}',
+  'insightText.goals.achievedTitle': 'Meta Atingida: {goal}',
+  'insightText.goals.missedTitle': 'Meta Não Atingida: {goal}',
+  'insightText.goals.resultDescription': 'Em {period} o resultado foi {value}, para uma meta de {target}.',
+  'insightText.goals.resultExplanation': 'Resultado do período: {value}; meta: {target}',
+  'insightText.goals.reachedTitle': 'Meta Alcançada: {goal}',
+  'insightText.goals.reachedDescription': 'Você já chegou a {value} neste {period}, cumprindo a meta de {target}.',
+  'insightText.goals.reachedExplanation': 'Período atual: {value} de {target}',
+  'insightText.goals.exceededTitle': 'Meta Ultrapassada: {goal}',
+  'insightText.goals.exceededDescription': 'O resultado atual é {value}, acima da meta de {target}.',
+  'insightText.goals.exceededExplanation': 'Período atual: {value}, {excess} acima do limite',
+  'insightText.goals.streakTitle': 'Sequência de {count} {periods}',
+  'insightText.goals.streakDescription': 'Você cumpriu a meta "{goal}" por {count} {periods} sem interrupção.',
+  'insightText.goals.streakExplanation': 'Sequência atual: {count}; recorde: {best}',
+  'insightText.weekOverWeek.upTitle': '{name} em Alta',
+  'insightText.weekOverWeek.downTitle': '{name} em Baixa',
+  'insightText.weekOverWeek.upDescription': 'Seus registros de {name} aumentaram {percent}% em relação à semana anterior.',
+  'insightText.weekOverWeek.downDescription': 'Seus registros de {name} diminuíram {percent}% em relação à semana anterior.',
+  'insightText.weekOverWeek.goodRemark': 'Bom trabalho!',
+  'insightText.weekOverWeek.badRemark': 'Fique de olho!',
+  'insightText.weekOverWeek.explanation': '{aggregation} dos últimos 7 dias: {current}; 7 dias anteriores: {previous} ({sign}{percent}%)',
+  'insightText.anomaly.title': 'Valor Atípico: {name}',
+  'insightText.anomaly.aboveDescription': '{value} em {day} está bem acima do seu padrão.',
+  'insightText.anomaly.belowDescription': '{value} em {day} está bem abaixo do seu padrão.',
+  'insightText.anomaly.explanation': 'Média diária dos últimos {days} dias: {average} ± {deviation} (z = {z}); faixa típica pelo IQR: {low} a {high}',
+  'insightText.personalRecord.title': 'Recorde Pessoal: {name}',
+  'insightText.personalRecord.description': '{value} em {day} é o seu melhor resultado diário.',
+  'insightText.personalRecord.explanation': 'Recorde anterior: {value} em {day}, entre {days} dias registrados',
+  'insightText.correlation.title': '{a} e {b}',
+  'insightText.correlation.positiveDescription': 'Nos dias em que {a} é maior, {b} tende a ser maior.',
+  'insightText.correlation.negativeDescription': 'Nos dias em que {a} é maior, {b} tende a ser menor.',
+  'insightText.correlation.explanation': 'Correlação de Pearson r = {r} em {days} dias com registros de ambos (últimos {window} dias)',
+  'insightText.consistency.title': 'Excelente Consistência!',
+  'insightText.consistency.description': 'Você registrou {name} por {days} dias consecutivos!',
+  'insightText.consistency.explanation': '{entries} registros em {days} dias distintos, de {start} a {end}',
+  'insightText.streakBreak.title': 'Sequência Interrompida: {name}',
+  'insightText.streakBreak.loggingDescription': 'Você registrou {name} por {days} dias seguidos, mas não há registros desde {day}.',
+  'insightText.streakBreak.loggingExplanation': 'Sequência de {days} dias encerrada em {day}; {gap} dia(s) sem registro desde então',
+  'insightText.streakBreak.goalDescription': 'A meta não foi cumprida no período encerrado em {date}, após uma sequência de {count} {periods}.',
+  'insightText.streakBreak.goalExplanation': '{count} períodos cumpridos antes da falha; resultado do período: {value}, meta: {target}',
+  'alertText.threshold.lt': '{subject} abaixo de {value} há {count} {periods}: {values}',
+  'alertText.threshold.gt': '{subject} acima de {value} há {count} {periods}: {values}',
+  'alertText.change': '{subject}: {current} contra {previous} no período anterior ({ratio}%, limite {symbol} {percent}%)',
+  'alertText.testTitle': 'Alerta de teste',
+  'alertText.testMessage': 'Se você está lendo isto, o webhook de alertas funciona.',
+  'report.filename': 'relatorio-analytics',
+  'import.decimalSeparator': 'Separador decimal',
+  'import.decimalAuto': 'Automático (vírgula em CSV separado por ;)',
+  'import.decimalComma': 'Vírgula (1.234,5)',
+  'import.decimalDot': 'Ponto (1,234.5)',
+} satisfies Record<string, string>;
+
+const EN_MESSAGES: Record<MessageKey, string> = {
+  'period.day': 'Daily',
+  'period.week': 'Weekly',
+  'period.month': 'Monthly',
+  'period.year': 'Yearly',
+  'aggregation.sum': 'Sum',
+  'aggregation.avg': 'Average',
+  'aggregation.min': 'Minimum',
+  'aggregation.max': 'Maximum',
+  'aggregation.count': 'Count',
+  'aggregation.last': 'Last value',
+  'aggregation.median': 'Median',
+  'aggregation.p90': '90th percentile',
+  'goalDirection.atLeast': 'At least',
+  'goalDirection.atMost': 'At most',
+  'periodNoun.day.one': 'day',
+  'periodNoun.day.other': 'days',
+  'periodNoun.week.one': 'week',
+  'periodNoun.week.other': 'weeks',
+  'periodNoun.month.one': 'month',
+  'periodNoun.month.other': 'months',
+  'periodNoun.year.one': 'year',
+  'periodNoun.year.other': 'years',
+  'alertOperator.lt': 'Below',
+  'alertOperator.gt': 'Above',
+  'widgetType.line': 'Line',
+  'widgetType.bar': 'Bars',
+  'widgetType.pie': 'Pie',
+  'widgetType.stat': 'Statistic',
+  'widgetType.progress': 'Progress',
+  'widgetType.list': 'List',
+  'widgetConfig.metricNames': 'Metrics',
+  'widgetConfig.range': 'Range',
+  'widgetConfig.period': 'Grouping',
+  'widgetConfig.aggregation': 'Aggregation',
+  'widgetConfig.showGrid': 'Show grid',
+  'widgetConfig.showLegend': 'Show legend',
+  'widgetConfig.showPercentages': 'Show percentages',
+  'widgetConfig.donut': 'Donut style',
+  'widgetConfig.showTrend': 'Show trend',
+  'widgetConfig.goalId': 'Goal',
+  'widgetConfig.target': 'Target (no goal)',
+  'widgetConfig.limit': 'Number of entries',
+  'range.lastDays.one': 'last {count} day',
+  'range.lastDays.other': 'last {count} days',
+  'range.thisMonth': 'this month',
+  'range.custom': '{start} to {end}',
+  'bucket.week': 'wk {date}',
+  'reportFormat.txt': 'Text',
+  'reportFormat.csv': 'CSV (entries)',
+  'reportFormat.json': 'JSON (summary)',
+  'reportFormat.md': 'Markdown',
+  'reportFormat.html': 'HTML with charts',
+  'reportFormat.pdf': 'PDF',
+  'report.title': 'Personal Analytics Report',
+  'report.period': 'Period',
+  'report.metric': 'Metric',
+  'report.unit': 'Unit',
+  'report.chartCaption': '{aggregation} per period',
+  'report.entries.one': '{count} entry',
+  'report.entries.other': '{count} entries',
+  'nav.dashboard': 'Dashboard',
+  'nav.metrics': 'Metrics',
+  'nav.insights': 'Insights',
+  'nav.reports': 'Reports',
+  'nav.settings': 'Settings',
+  'header.language': 'Language',
+  'header.toggleTheme': 'Toggle theme',
+  'notifications.title': 'Alerts',
+  'notifications.unread.one': '{count} unread alert',
+  'notifications.unread.other': '{count} unread alerts',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.empty': 'No alerts raised',
+  'notifications.markUnread': 'Mark as unread',
+  'notifications.markRead': 'Mark as read',
+  'notifications.manageRules': 'Manage alert rules',
+  'common.close': 'Close',
+  'widget.unitMismatch': 'These metrics use different units ({units}) and cannot be added together. Pick metrics with the same unit in the widget settings.',
+  'widget.statLabelUnit': '{aggregation} in {unit}',
+  'trend.up': 'Trending up',
+  'trend.down': 'Trending down',
+  'trend.stable': 'Stable',
+  'widget.total': 'Total',
+  'widget.max': 'Max',
+  'widget.noDataInRange': 'No data in this period',
+  'widget.percentOfTarget': '{percent}% of target',
+  'widget.perPeriod': '{aggregation} per {period}',
+  'widget.streak': 'Streak: {streak} {noun} · best {best}',
+  'widget.noTarget': 'Link a goal or set a target (config.target) for this widget',
+  'widget.noEntries': 'No entries yet',
+  'dashboard.subtitle': 'Overview of your metrics',
+  'dashboard.empty': 'No visible widgets. Set up your widgets in the settings.',
+  'dashboard.openSettings': 'Open Settings',
+  'metrics.pickDefinition': 'Pick a defined metric for this entry',
+  'metrics.confirmDelete': 'Do you really want to delete this entry?',
+  'metrics.import': 'Import',
+  'metrics.new': 'New Entry',
+  'metrics.addTitle': 'Add New Entry',
+  'metrics.valuePlaceholder': 'Value ({unit})',
+  'metrics.timestampHint': 'Date and time (empty = now)',
+  'common.add': 'Add',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'metrics.noDefinitions': 'No metric is defined for this category.',
+  'metrics.defineMetric': 'Define a metric before logging values.',
+  'metrics.search': 'Search metrics...',
+  'metrics.allNames': 'All metrics',
+  'metrics.unitMismatch': 'The metrics in this category use different units ({units}). Pick a metric to see its statistics.',
+  'metrics.total30': 'Total (30 days)',
+  'metrics.trend': 'Trend',
+  'metrics.undefinedName': '{name} (no definition)',
+  'insightTab.current': 'Current',
+  'insightTab.hidden': 'Hidden',
+  'insightTab.history': 'History',
+  'insightType.positive': 'Positive',
+  'insightType.negative': 'Negative',
+  'insightType.neutral': 'Neutral',
+  'severity.low': 'Low relevance',
+  'severity.medium': 'Medium relevance',
+  'severity.high': 'High relevance',
+  'insightRule.goals': 'Goals',
+  'insightRule.week-over-week': 'Week-over-week change',
+  'insightRule.anomaly': 'Anomalies',
+  'insightRule.personal-record': 'Personal records',
+  'insightRule.correlation': 'Correlations',
+  'insightRule.consistency': 'Consistency',
+  'insightRule.streak-break': 'Broken streaks',
+  'insights.title': 'Automatic Insights',
+  'insights.subtitle': 'Analyses generated automatically from your data',
+  'common.allCategories': 'All categories',
+  'insights.allTypes': 'All types',
+  'insights.allRules': 'All rules',
+  'common.from': 'From',
+  'common.until': 'Until',
+  'insights.snoozedUntil': 'snoozed until {date}',
+  'insights.unpin': 'Unpin',
+  'insights.pin': 'Pin to top',
+  'insights.restore': 'Show again',
+  'insights.snooze': 'Snooze',
+  'insights.snoozeFor.one': 'Snooze {count} day',
+  'insights.snoozeFor.other': 'Snooze {count} days',
+  'insights.dismiss': 'Dismiss',
+  'insights.noneYet': 'No insights yet. Keep adding metrics!',
+  'insights.noneFound': 'No insights found.',
+  'reports.export': 'Export Report',
+  'reports.config': 'Report Settings',
+  'reports.startDate': 'Start Date',
+  'reports.endDate': 'End Date',
+  'reports.aggregations': 'Aggregations in the report',
+  'reports.comparison': 'Period Comparison',
+  'common.aggregation': 'Aggregation',
+  'reports.currentPeriod': 'Current Period',
+  'reports.previousPeriod': 'Previous Period',
+  'reports.change': 'Change',
+  'timeRange.lastDays': 'Last N days',
+  'timeRange.thisMonth': 'This month',
+  'timeRange.custom': 'Custom',
+  'settings.widgets': 'Widgets',
+  'settings.categories': 'Categories',
+  'settings.goals': 'Goals',
+  'categories.subtitle': 'Create, edit, archive and delete metric categories',
+  'common.entries.one': '{count} entry',
+  'common.entries.other': '{count} entries',
+  'categories.archived': 'archived',
+  'categories.restore': 'Restore',
+  'categories.archive': 'Archive',
+  'categories.deletePrompt': 'Delete {label}? What should happen to the metrics and widgets in this category?',
+  'categories.deleteWith': 'Delete along with the category',
+  'categories.moveTo': 'Move to {category}',
+  'categories.delete': 'Delete Category',
+  'categories.edit': 'Edit Category',
+  'categories.new': 'New Category',
+  'categories.add': 'Add Category',
+  'common.name': 'Name',
+  'common.icon': 'Icon',
+  'common.color': 'Colour',
+  'common.saveChanges': 'Save Changes',
+  'definitions.confirmDelete': 'Delete the definition "{name}"? Existing entries are kept.',
+  'definitions.subtitle': 'Define the metrics of each category, with unit, value range and precision',
+  'definitions.range': '{min} to {max}',
+  'definitions.empty': 'No metrics defined yet',
+  'definitions.edit': 'Edit Metric',
+  'definitions.new': 'New Metric',
+  'definitions.add': 'Add Metric',
+  'common.category': 'Category',
+  'definitions.precision': 'Decimal places',
+  'definitions.noLimit': 'No limit',
+  'definitions.defaultAggregation': 'Default aggregation',
+  'definitions.higherIsBetter': 'Higher values are better',
+  'goals.confirmDelete': 'Delete the goal "{title}"?',
+  'goals.subtitle': 'Set daily, weekly, monthly or yearly goals and follow your streaks',
+  'goals.empty': 'No goals yet',
+  'goals.targetPerPeriod': '{target} per {period}',
+  'goals.current': 'Current: {value}',
+  'goals.edit': 'Edit Goal',
+  'goals.new': 'New Goal',
+  'goals.add': 'Add Goal',
+  'common.title': 'Title',
+  'goals.titlePlaceholder': 'e.g. 10,000 steps a day',
+  'common.wholeCategory': 'Whole category',
+  'goals.direction': 'Direction',
+  'goals.target': 'Target',
+  'common.defaultAggregation': 'Default ({aggregation})',
+  'alerts.describeThreshold': '{operator} {value} for {consecutive} {noun}',
+  'alerts.describeChange': '{operator} {percent}% of the previous period (per {noun})',
+  'alerts.confirmDelete': 'Delete the alert "{title}"?',
+  'alerts.webhookSending': 'Sending...',
+  'alerts.webhookDelivered': 'Delivered (HTTP {status})',
+  'alerts.webhookFailed': 'Failed: {error}',
+  'alerts.subtitle': 'Get notified when a metric crosses a threshold or changes too much',
+  'alerts.rules': 'Alert Rules',
+  'alerts.empty': 'No alerts yet',
+  'alerts.disable': 'Disable',
+  'alerts.enable': 'Enable',
+  'alerts.delivery': 'Delivery',
+  'alerts.browserGranted': 'Browser notifications on',
+  'alerts.browserDenied': 'Notifications blocked in the browser',
+  'alerts.browserUnsupported': 'Browser without notifications',
+  'alerts.browserEnable': 'Turn on browser notifications',
+  'alerts.testWebhook': 'Test webhook',
+  'alerts.edit': 'Edit Alert',
+  'alerts.new': 'New Alert',
+  'alerts.add': 'Add Alert',
+  'alerts.titlePlaceholder': 'e.g. Short on sleep',
+  'alerts.condition': 'Condition',
+  'alerts.kindThreshold': 'Threshold over consecutive periods',
+  'alerts.kindChange': 'Compared to the previous period',
+  'alerts.operator': 'Operator',
+  'alerts.threshold': 'Threshold',
+  'alerts.consecutive': 'Consecutive periods',
+  'alerts.percent': '% of the previous period',
+  'widgets.confirmDelete': 'Do you really want to delete this widget?',
+  'widgets.subtitle': 'Add, edit, reorder and hide the dashboard widgets',
+  'widgets.dragToReorder': 'Drag to reorder',
+  'widgets.moveUp': 'Move up',
+  'widgets.moveDown': 'Move down',
+  'widgets.hide': 'Hide',
+  'widgets.show': 'Show',
+  'widgets.empty': 'No widgets yet',
+  'widgets.edit': 'Edit Widget',
+  'widgets.new': 'New Widget',
+  'widgets.add': 'Add Widget',
+  'widgets.type': 'Type',
+  'widgets.noGoal': 'None (set up manually)',
+  'widgets.noNamesHint': 'None selected = whole category',
+  'widgets.visible': 'Visible on the dashboard',
+  'widgets.preview': 'Preview',
+  'widgets.untitled': 'Untitled',
+  'importField.timestamp': 'Date',
+  'importField.name': 'Name',
+  'importField.value': 'Value',
+  'importField.unit': 'Unit',
+  'importField.type': 'Category',
+  'importField.category': 'Subcategory',
+  'import.done.one': '{count} entry imported.',
+  'import.done.other': '{count} entries imported.',
+  'import.title': 'Import Metrics',
+  'import.subtitle': 'Import historical data from spreadsheets (CSV) or JSON exports',
+  'import.file': 'File',
+  'import.fileLabel': 'CSV or JSON file',
+  'import.format': 'Format',
+  'import.content': 'Content',
+  'import.csvPlaceholder': 'date,name,value,unit\n2024-01-31,Passos,8500,passos',
+  'import.mapping': 'Column Mapping',
+  'import.select': '— select —',
+  'import.useDefault': '— use default —',
+  'import.timestampHint': 'Accepts ISO (2024-01-31), dd/mm/yyyy [hh:mm] or epoch in seconds/milliseconds; dates without an offset use the time zone from the preferences',
+  'import.defaultCategory': 'Default category',
+  'import.defaultName': 'Default name',
+  'import.defaultUnit': 'Default unit',
+  'import.valid.one': '{count} valid',
+  'import.valid.other': '{count} valid',
+  'import.duplicates.one': '{count} duplicate',
+  'import.duplicates.other': '{count} duplicates',
+  'import.errors.one': '{count} with errors',
+  'import.errors.other': '{count} with errors',
+  'import.skipDuplicates': 'Skip duplicates',
+  'import.importing': 'Importing...',
+  'import.submit.one': 'Import {count} entry',
+  'import.submit.other': 'Import {count} entries',
+  'import.row': 'Row',
+  'import.status': 'Status',
+  'import.duplicate': 'Duplicate',
+  'import.truncated': 'Showing the first {shown} of {total} rows',
+  'notFound.title': 'Page not found',
+  'notFound.message': 'This address does not exist.',
+  'notFound.back': 'Back to the Dashboard',
+  'weekStart.sunday': 'Sunday',
+  'weekStart.monday': 'Monday',
+  'settings.preferences': 'Preferences',
+  'preferences.subtitle': 'Time zone and week start used by charts, goals, alerts and reports',
+  'preferences.calendar': 'Calendar',
+  'preferences.timeZone': 'Time zone',
+  'preferences.useBrowserTimeZone': 'Use this browser\'s time zone ({timeZone})',
+  'preferences.weekStart': 'Weeks start on',
+  'preferences.hint': 'Entries are grouped into days, weeks, months and years in this time zone. Now: {now}.',
+  'chart.resetZoom': 'Reset zoom',
+  'chart.hint': 'Drag to zoom · click a point to see its entries',
+  'chart.hintZoom': 'Drag to zoom into a period',
+  'metricSort.date': 'Date',
+  'metricSort.value': 'Value',
+  'metricSort.name': 'Name',
+  'sortOrder.asc': 'Ascending',
+  'sortOrder.desc': 'Descending',
+  'metrics.allUnits': 'All units',
+  'metrics.minValue': 'Min value',
+  'metrics.maxValue': 'Max value',
+  'metrics.anyMetadata': 'Any metadata',
+  'metrics.metadataValue': 'Metadata value',
+  'metrics.clearFilters': 'Clear filters',
+  'metrics.sortBy': 'Sort by',
+  'metrics.noneFound': 'No entries found.',
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+  'pagination.status': 'Page {page} of {pages}',
+  'bulk.delete': 'Delete',
+  'bulk.retype': 'Move to category',
+  'bulk.rename': 'Rename',
+  'bulk.shift': 'Shift in time',
+  'bulk.convert': 'Convert values',
+  'bulk.hours': 'hours',
+  'bulk.days': 'days',
+  'bulk.select': 'Select',
+  'bulk.selectPage': 'Select this page',
+  'bulk.selected.one': '{count} selected',
+  'bulk.selected.other': '{count} selected',
+  'bulk.selectAll.one': 'Select {count} filtered',
+  'bulk.selectAll.other': 'Select all {count} filtered',
+  'bulk.clearSelection': 'Clear selection',
+  'bulk.pickMetric': 'Pick a metric',
+  'bulk.shiftAmount': 'Amount (negative = earlier)',
+  'bulk.factor': 'Factor',
+  'bulk.factorHint': 'Each value is multiplied by this factor and recorded in the definition\'s unit',
+  'bulk.apply': 'Apply',
+  'bulk.confirmDelete.one': 'Do you really want to delete {count} entry?',
+  'bulk.confirmDelete.other': 'Do you really want to delete {count} entries?',
+  'bulk.done.one': '{count} entry changed.',
+  'bulk.done.other': '{count} entries changed.',
+  'reports.unitMismatch': 'The entries of {name} use different units ({units}) and cannot be compared.',
+  'definitions.unitFactor': '1 {from} = ? {to}',
+  'definitions.unitFactorRequired': 'This metric already has entries. Enter the factor that converts them to the new unit.',
+  'bulk.pickTarget': 'Pick the target metric',
+  'common.text': '{text}',
+  'insightText.withRemark': '{text} {remark}',
+  'insightText.goals.atLeast': 'at least {value}',
+  'insightText.goals.atMost': 'at most {value}',
+  'insightText.goals.achievedTitle': 'Goal Achieved: {goal}',
+  'insightText.goals.missedTitle': 'Goal Missed: {goal}',
+  'insightText.goals.resultDescription': 'In {period} the result was {value}, against a goal of {target}.',
+  'insightText.goals.resultExplanation': 'Period result: {value}; goal: {target}',
+  'insightText.goals.reachedTitle': 'Goal Reached: {goal}',
+  'insightText.goals.reachedDescription': 'You have already reached {value} this {period}, meeting the goal of {target}.',
+  'insightText.goals.reachedExplanation': 'Current period: {value} of {target}',
+  'insightText.goals.exceededTitle': 'Goal Exceeded: {goal}',
+  'insightText.goals.exceededDescription': 'The current result is {value}, above the goal of {target}.',
+  'insightText.goals.exceededExplanation': 'Current period: {value}, {excess} over the limit',
+  'insightText.goals.streakTitle': 'Streak of {count} {periods}',
+  'insightText.goals.streakDescription': 'You met the goal "{goal}" for {count} {periods} in a row.',
+  'insightText.goals.streakExplanation': 'Current streak: {count}; record: {best}',
+  'insightText.weekOverWeek.upTitle': '{name} Rising',
+  'insightText.weekOverWeek.downTitle': '{name} Falling',
+  'insightText.weekOverWeek.upDescription': 'Your {name} entries rose {percent}% compared with the previous week.',
+  'insightText.weekOverWeek.downDescription': 'Your {name} entries fell {percent}% compared with the previous week.',
+  'insightText.weekOverWeek.goodRemark': 'Good job!',
+  'insightText.weekOverWeek.badRemark': 'Keep an eye on it!',
+  'insightText.weekOverWeek.explanation': '{aggregation} of the last 7 days: {current}; previous 7 days: {previous} ({sign}{percent}%)',
+  'insightText.anomaly.title': 'Unusual Value: {name}',
+  'insightText.anomaly.aboveDescription': '{value} on {day} is well above your usual.',
+  'insightText.anomaly.belowDescription': '{value} on {day} is well below your usual.',
+  'insightText.anomaly.explanation': 'Daily average over the last {days} days: {average} ± {deviation} (z = {z}); typical IQR range: {low} to {high}',
+  'insightText.personalRecord.title': 'Personal Record: {name}',
+  'insightText.personalRecord.description': '{value} on {day} is your best daily result.',
+  'insightText.personalRecord.explanation': 'Previous record: {value} on {day}, across {days} logged days',
+  'insightText.correlation.title': '{a} and {b}',
+  'insightText.correlation.positiveDescription': 'On days when {a} is higher, {b} tends to be higher.',
+  'insightText.correlation.negativeDescription': 'On days when {a} is higher, {b} tends to be lower.',
+  'insightText.correlation.explanation': 'Pearson correlation r = {r} over {days} days with entries for both (last {window} days)',
+  'insightText.consistency.title': 'Excellent Consistency!',
+  'insightText.consistency.description': 'You logged {name} for {days} days in a row!',
+  'insightText.consistency.explanation': '{entries} entries on {days} distinct days, from {start} to {end}',
+  'insightText.streakBreak.title': 'Streak Broken: {name}',
+  'insightText.streakBreak.loggingDescription': 'You logged {name} for {days} days in a row, but there are no entries since {day}.',
+  'insightText.streakBreak.loggingExplanation': '{days}-day streak ended on {day}; {gap} day(s) without entries since then',
+  'insightText.streakBreak.goalDescription': 'The goal was missed in the period ending {date}, after a streak of {count} {periods}.',
+  'insightText.streakBreak.goalExplanation': '{count} periods met before the miss; period result: {value}, goal: {target}',
+  'alertText.threshold.lt': '{subject} below {value} for {count} {periods}: {values}',
+  'alertText.threshold.gt': '{subject} above {value} for {count} {periods}: {values}',
+  'alertText.change': '{subject}: {current} against {previous} in the previous period ({ratio}%, limit {symbol} {percent}%)',
+  'alertText.testTitle': 'Test alert',
+  'alertText.testMessage': 'If you are reading this, the alert webhook works.',
+  'report.filename': 'analytics-report',
+  'import.decimalSeparator': 'Decimal separator',
+  'import.decimalAuto': 'Automatic (comma in ;-separated CSV)',
+  'import.decimalComma': 'Comma (1.234,5)',
+  'import.decimalDot': 'Dot (1,234.5)',
+};
 
-  static clearStorage(): void {
-    if (!isClient) return;
-    try {
-      sessionStorage.removeItem(this.STORAGE_KEYS.DARK_MODE);
-      sessionStorage.removeItem(this.STORAGE_KEYS.DASHBOARD_DATA);
-    } catch (error) {
-      console.error('Error clearing storage:', error);
-    }
-  }
+type MessageKey = keyof typeof PT_BR_MESSAGES;
 
-  static getKeys() {
-    return this.STORAGE_KEYS;
-  }
-}
+// Keys with `.one` and `.other` forms, e.g. "periodNoun.day"
+type PluralKey = { [K in MessageKey]: K extends `${infer Base}.one` ? Base : never }[MessageKey];
 
-// ============================================================================
-// MODEL LAYER
-// ============================================================================
+type MessageParams = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  'pt-BR': PT_BR_MESSAGES,
+  en: EN_MESSAGES,
+};
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.value === value);
 
 /**
- * Analytics Model - Handles data structure and business logic
+ * Look up a message and fill in its {placeholders}
  */
-class AnalyticsModel {
-  private metrics: Metric[];
-  private widgets: Widget[];
-  private insights: Insight[];
+const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+  MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    params && name in params ? String(params[name]) : match
+  );
 
-  constructor(initialData?: DashboardData) {
-    this.metrics = initialData?.metrics || generateSampleMetrics();
-    this.widgets = initialData?.widgets || [...DEFAULT_WIDGETS];
-    this.insights = initialData?.insights || this.generateInsights();
+/**
+ * Pick the singular or plural form of a message for a count
+ */
+const translatePlural = (locale: Locale, key: PluralKey, count: number, params?: MessageParams): string => {
+  const form = new Intl.PluralRules(locale).select(count) === 'one' ? 'one' : 'other';
+  return translate(locale, `${key}.${form}` as MessageKey, { count, ...params });
+};
+
+/**
+ * Best supported locale for an Accept-Language header or a list of language
+ * tags (e.g. `navigator.languages`), matching the language alone ("en-US" → "en")
+ * when there is no exact match
+ */
+const negotiateLocale = (accepted?: string | readonly string[] | null): Locale => {
+  const tags = typeof accepted === 'string'
+    ? accepted
+        .split(',')
+        .map(part => {
+          const [tag, ...params] = part.trim().split(';');
+          const quality = params.map(p => p.trim()).find(p => p.startsWith('q='));
+          return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality.slice(2)) : 1 };
+        })
+        .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+        .sort((a, b) => b.q - a.q)
+        .map(({ tag }) => tag)
+    : (accepted ?? []).map(tag => tag.toLowerCase());
+
+  for (const tag of tags) {
+    const exact = LOCALES.find(l => l.value.toLowerCase() === tag);
+    if (exact) return exact.value;
+    const language = LOCALES.find(l => l.value.toLowerCase().split('-')[0] === tag.split('-')[0]);
+    if (language) return language.value;
   }
+  return DEFAULT_LOCALE;
+};
 
-  // ==================== METRIC OPERATIONS ====================
+// Units that are currencies and get the locale's currency format
+const CURRENCY_UNITS: Record<string, string> = {
+  'R$': 'BRL',
+  BRL: 'BRL',
+  'US$': 'USD',
+  $: 'USD',
+  USD: 'USD',
+  '€': 'EUR',
+  EUR: 'EUR',
+  '£': 'GBP',
+  GBP: 'GBP',
+};
 
-  getAllMetrics(): Metric[] {
-    return [...this.metrics];
-  }
+const formatNumber = (locale: Locale, value: number, maximumFractionDigits = 2): string =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
 
-  getMetricsByType(type: MetricType): Metric[] {
-    return this.metrics.filter(m => m.type === type);
-  }
+const formatCurrency = (locale: Locale, value: number, currency: string): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(value);
 
-  getMetricsByPeriod(startDate: number, endDate: number): Metric[] {
-    return this.metrics.filter(m => m.timestamp >= startDate && m.timestamp <= endDate);
-  }
+/**
+ * A value with its unit, e.g. "7,5 horas" or "R$ 1.234,50"
+ */
+const formatValue = (locale: Locale, value: number, unit: string | null, maximumFractionDigits = 2): string => {
+  const currency = unit ? CURRENCY_UNITS[unit.trim()] : undefined;
+  if (currency) return formatCurrency(locale, value, currency);
+  const number = formatNumber(locale, value, maximumFractionDigits);
+  return unit ? `${number} ${unit}` : number;
+};
 
-  addMetric(metric: Omit<Metric, 'id' | 'timestamp'>): Metric {
-    const newMetric: Metric = {
-      ...metric,
-      id: `metric_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: Date.now(),
-    };
-    this.metrics.push(newMetric);
-    this.insights = this.generateInsights();
-    return newMetric;
-  }
+const formatDate = (locale: Locale, timestamp: number, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(timestamp).toLocaleDateString(locale, options);
 
-  deleteMetric(id: string): boolean {
-    const initialLength = this.metrics.length;
-    this.metrics = this.metrics.filter(m => m.id !== id);
-    return this.metrics.length < initialLength;
-  }
+const formatDateTime = (locale: Locale, timestamp: number, timeZone?: string): string =>
+  new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short', timeZone });
 
-  /**
-   * Aggregate metrics by period
-   */
-  aggregateMetrics(type: MetricType, period: PeriodType, metricName?: string): Record<string, number> {
-    const filtered = metricName
-      ? this.metrics.filter(m => m.type === type && m.name === metricName)
-      : this.metrics.filter(m => m.type === type);
+// ============================================================================
+// TIME RANGES
+// ============================================================================
 
-    const aggregated: Record<string, number> = {};
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-    filtered.forEach(metric => {
-      const date = new Date(metric.timestamp);
-      let key: string;
-
-      switch (period) {
-        case 'day':
-          key = date.toISOString().split('T')[0];
-          break;
-        case 'week':
-          const weekStart = new Date(date);
-          weekStart.setDate(date.getDate() - date.getDay());
-          key = weekStart.toISOString().split('T')[0];
-          break;
-        case 'month':
-          key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          break;
-        case 'year':
-          key = String(date.getFullYear());
-          break;
-      }
+const DEFAULT_WEEK_START: WeekStart = 0;
 
-      aggregated[key] = (aggregated[key] || 0) + metric.value;
-    });
+/**
+ * Time zone of the machine running the code, used until the user picks one
+ */
+const getDefaultTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const getDefaultSettings = (): DashboardSettings => ({ timeZone: getDefaultTimeZone(), weekStart: DEFAULT_WEEK_START });
 
-    return aggregated;
+const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
   }
+};
 
-  /**
-   * Compare two periods
-   */
-  comparePeriods(type: MetricType, currentStart: number, currentEnd: number, previousStart: number, previousEnd: number): ComparisonData {
-    const currentMetrics = this.getMetricsByPeriod(currentStart, currentEnd).filter(m => m.type === type);
-    const previousMetrics = this.getMetricsByPeriod(previousStart, previousEnd).filter(m => m.type === type);
+/**
+ * Time zones offered by the settings, or just the current one when the
+ * runtime cannot list them
+ */
+const getTimeZones = (current: string): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+};
 
-    const current = currentMetrics.reduce((sum, m) => sum + m.value, 0);
-    const previous = previousMetrics.reduce((sum, m) => sum + m.value, 0);
-    const change = current - previous;
-    const changePercent = previous !== 0 ? (change / previous) * 100 : 0;
+// Formatters are costly to create and bucketing calls them once per metric
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
 
-    return { current, previous, change, changePercent };
+/**
+ * Calendar date and wall-clock time of a timestamp in a time zone. Months are 1-12.
+ */
+const getZonedParts = (timestamp: number, timeZone: string) => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zonedFormatters.set(timeZone, formatter);
   }
+  const parts = Object.fromEntries(formatter.formatToParts(timestamp).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
 
-  /**
-   * Get statistics for a metric type
-   */
-  getStatistics(type: MetricType, days: number = 7): {
-    total: number;
-    average: number;
-    max: number;
-    min: number;
-    trend: 'up' | 'down' | 'stable';
-  } {
-    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
-    const filtered = this.metrics.filter(m => m.type === type && m.timestamp >= cutoff);
+/**
+ * Milliseconds the time zone is ahead of UTC at a timestamp
+ */
+const getZoneOffset = (timestamp: number, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(timestamp, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(timestamp / 1000) * 1000;
+};
 
-    if (filtered.length === 0) {
-      return { total: 0, average: 0, max: 0, min: 0, trend: 'stable' };
-    }
+/**
+ * Timestamp of a wall-clock time in a time zone. Out-of-range fields roll
+ * over like in Date.UTC, e.g. day 0 is the last day of the previous month.
+ */
+const fromZonedTime = (
+  timeZone: string,
+  year: number,
+  month: number,
+  day = 1,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): number => {
+  const utc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // The offset at the first guess is wrong when a DST change lies in between
+  return utc - getZoneOffset(utc - getZoneOffset(utc, timeZone), timeZone);
+};
 
-    const values = filtered.map(m => m.value);
-    const total = values.reduce((sum, v) => sum + v, 0);
-    const average = total / values.length;
-    const max = Math.max(...values);
-    const min = Math.min(...values);
+const toDayKey = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
 
-    // Calculate trend
-    const half = Math.floor(filtered.length / 2);
-    const firstHalf = filtered.slice(0, half).reduce((sum, m) => sum + m.value, 0) / half;
-    const secondHalf = filtered.slice(half).reduce((sum, m) => sum + m.value, 0) / (filtered.length - half);
-    const trend = secondHalf > firstHalf * 1.05 ? 'up' : secondHalf < firstHalf * 0.95 ? 'down' : 'stable';
+/**
+ * Day key (YYYY-MM-DD) a number of calendar days away from another
+ */
+const shiftDayKey = (key: string, days: number): string => {
+  const [year, month, day] = key.split('-').map(Number);
+  return toDayKey(year, month, day + days);
+};
 
-    return { total, average, max, min, trend };
-  }
+/**
+ * Days between a date and the start of its week
+ */
+const getDaysIntoWeek = (year: number, month: number, day: number, weekStart: WeekStart): number =>
+  (new Date(Date.UTC(year, month - 1, day)).getUTCDay() - weekStart + 7) % 7;
 
-  // ==================== WIDGET OPERATIONS ====================
+const lastDays = (days: number): TimeRange => ({ kind: 'last-days', days });
 
-  getAllWidgets(): Widget[] {
-    return [...this.widgets].sort((a, b) => a.position - b.position);
+/**
+ * Resolve a time range to inclusive start/end timestamps. Months start at
+ * midnight in the user's time zone.
+ */
+const resolveTimeRange = (
+  range: TimeRange,
+  settings: DashboardSettings,
+  now: number = Date.now()
+): { start: number; end: number } => {
+  switch (range.kind) {
+    case 'last-days':
+      return { start: now - range.days * DAY_MS, end: now };
+    case 'this-month':
+      return { start: getPeriodBounds(now, 'month', settings).start, end: now };
+    case 'custom':
+      return { start: range.start, end: range.end };
   }
+};
 
-  getVisibleWidgets(): Widget[] {
-    return this.getAllWidgets().filter(w => w.isVisible);
+const describeTimeRange = (range: TimeRange, locale: Locale = DEFAULT_LOCALE, timeZone?: string): string => {
+  switch (range.kind) {
+    case 'last-days':
+      return translatePlural(locale, 'range.lastDays', range.days);
+    case 'this-month':
+      return translate(locale, 'range.thisMonth');
+    case 'custom':
+      return translate(locale, 'range.custom', {
+        start: formatDate(locale, range.start, { timeZone }),
+        end: formatDate(locale, range.end, { timeZone }),
+      });
   }
+};
 
-  addWidget(widget: Omit<Widget, 'id' | 'position'>): Widget {
-    const newWidget: Widget = {
-      ...widget,
-      id: `widget_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      position: this.widgets.length,
-    };
-    this.widgets.push(newWidget);
-    return newWidget;
-  }
+/**
+ * Noun for a number of periods, e.g. "3 dias" → "dias"
+ */
+const getPeriodNoun = (period: PeriodType, count: number, locale: Locale = DEFAULT_LOCALE): string =>
+  translatePlural(locale, `periodNoun.${period}`, count);
 
-  updateWidget(id: string, updates: Partial<Widget>): Widget | null {
-    const index = this.widgets.findIndex(w => w.id === id);
-    if (index === -1) return null;
+/**
+ * Convert between timestamps and the "YYYY-MM-DD" value of date inputs, in a time zone
+ */
+const toDateInputValue = (timestamp: number, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return toDayKey(year, month, day);
+};
 
-    this.widgets[index] = { ...this.widgets[index], ...updates };
-    return this.widgets[index];
-  }
+const fromDateInputValue = (value: string, timeZone: string, endOfDay = false): number => {
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? fromZonedTime(timeZone, year, month, day + 1) - 1
+    : fromZonedTime(timeZone, year, month, day);
+};
 
-  deleteWidget(id: string): boolean {
-    const initialLength = this.widgets.length;
-    this.widgets = this.widgets.filter(w => w.id !== id);
-    return this.widgets.length < initialLength;
+/**
+ * Convert between timestamps and the "YYYY-MM-DDTHH:mm" value of datetime-local inputs, in a time zone
+ */
+const toDateTimeInputValue = (timestamp: number, timeZone: string): string => {
+  const { hour, minute } = getZonedParts(timestamp, timeZone);
+  return `${toDateInputValue(timestamp, timeZone)}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+const fromDateTimeInputValue = (value: string, timeZone: string): number => {
+  const [datePart, timePart = '00:00'] = value.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = timePart.split(':').map(Number);
+  return fromZonedTime(timeZone, year, month, day, hours, minutes, seconds);
+};
+
+/**
+ * Aggregation bucket key of a timestamp in the user's time zone: YYYY-MM-DD
+ * for days and weeks (the week's first day), YYYY-MM for months and YYYY for years
+ */
+const getBucketKey = (timestamp: number, period: PeriodType, settings: DashboardSettings): string => {
+  const { year, month, day } = getZonedParts(timestamp, settings.timeZone);
+
+  switch (period) {
+    case 'day':
+      return toDayKey(year, month, day);
+    case 'week':
+      return toDayKey(year, month, day - getDaysIntoWeek(year, month, day, settings.weekStart));
+    case 'month':
+      return `${year}-${String(month).padStart(2, '0')}`;
+    case 'year':
+      return String(year);
   }
+};
 
-  toggleWidgetVisibility(id: string): boolean {
-    const widget = this.widgets.find(w => w.id === id);
-    if (!widget) return false;
-    widget.isVisible = !widget.isVisible;
-    return widget.isVisible;
+/**
+ * Start and (inclusive) end of the day, week, month or year containing a
+ * timestamp, in the user's time zone
+ */
+const getPeriodBounds = (timestamp: number, period: PeriodType, settings: DashboardSettings): { start: number; end: number } => {
+  const { timeZone, weekStart } = settings;
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  let start: number;
+  let next: number;
+
+  switch (period) {
+    case 'day':
+      start = fromZonedTime(timeZone, year, month, day);
+      next = fromZonedTime(timeZone, year, month, day + 1);
+      break;
+    case 'week': {
+      const first = day - getDaysIntoWeek(year, month, day, weekStart);
+      start = fromZonedTime(timeZone, year, month, first);
+      next = fromZonedTime(timeZone, year, month, first + 7);
+      break;
+    }
+    case 'month':
+      start = fromZonedTime(timeZone, year, month);
+      next = fromZonedTime(timeZone, year, month + 1);
+      break;
+    case 'year':
+      start = fromZonedTime(timeZone, year, 1);
+      next = fromZonedTime(timeZone, year + 1, 1);
+      break;
   }
+  return { start, end: next - 1 };
+};
 
-  // ==================== INSIGHTS ====================
+/**
+ * First and last day (YYYY-MM-DD) of an aggregation bucket (see getBucketKey)
+ */
+const getBucketDays = (key: string, period: PeriodType): { start: string; end: string } => {
+  const [year, month = 1] = key.split('-').map(Number);
+
+  switch (period) {
+    case 'day':
+      return { start: key, end: key };
+    case 'week':
+      return { start: key, end: shiftDayKey(key, 6) };
+    case 'month':
+      return { start: toDayKey(year, month, 1), end: toDayKey(year, month + 1, 0) };
+    case 'year':
+      return { start: toDayKey(year, 1, 1), end: toDayKey(year, 12, 31) };
+  }
+};
 
-  getInsights(): Insight[] {
-    return [...this.insights].sort((a, b) => b.timestamp - a.timestamp);
+/**
+ * Turn an aggregation bucket key (see getBucketKey) into a chart label.
+ * Keys are calendar dates, so they are formatted as UTC to stay put.
+ */
+const formatBucketLabel = (key: string, period: PeriodType, locale: Locale = DEFAULT_LOCALE): string => {
+  const [year, month = 1, day = 1] = key.split('-').map(Number);
+  const date = Date.UTC(year, month - 1, day);
+
+  switch (period) {
+    case 'day':
+      return formatDate(locale, date, { day: '2-digit', month: 'short', timeZone: 'UTC' });
+    case 'week':
+      return translate(locale, 'bucket.week', {
+        date: formatDate(locale, date, { day: '2-digit', month: '2-digit', timeZone: 'UTC' }),
+      });
+    case 'month':
+      return formatDate(locale, date, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+    case 'year':
+      return String(year);
   }
+};
 
-  /**
-   * Generate automatic insights based on metrics
-   */
-  generateInsights(): Insight[] {
-    const insights: Insight[] = [];
-    const now = Date.now();
+// ============================================================================
+// AGGREGATION
+// ============================================================================
 
-    METRIC_TYPES.forEach(({ value: metricType }) => {
-      const stats = this.getStatistics(metricType, 7);
+/**
+ * Percentile with linear interpolation between the closest ranks
+ */
+const percentile = (sorted: number[], p: number): number => {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
 
-      if (stats.trend === 'up') {
-        insights.push({
-          id: `insight_${metricType}_up_${now}`,
-          title: `${METRIC_TYPES.find(t => t.value === metricType)?.label} em Alta`,
-          description: `Suas métricas de ${METRIC_TYPES.find(t => t.value === metricType)?.label.toLowerCase()} aumentaram nos últimos 7 dias!`,
-          type: 'positive',
-          metricType,
-          timestamp: now,
-        });
-      } else if (stats.trend === 'down') {
-        insights.push({
-          id: `insight_${metricType}_down_${now}`,
-          title: `${METRIC_TYPES.find(t => t.value === metricType)?.label} em Baixa`,
-          description: `Suas métricas de ${METRIC_TYPES.find(t => t.value === metricType)?.label.toLowerCase()} diminuíram nos últimos 7 dias.`,
-          type: 'negative',
-          metricType,
-          timestamp: now,
-        });
-      }
+/**
+ * Reduce values (in chronological order) with an aggregation function
+ */
+const aggregateValues = (values: number[], fn: AggregationFn): number => {
+  if (values.length === 0) return 0;
+
+  switch (fn) {
+    case 'sum':
+      return values.reduce((sum, v) => sum + v, 0);
+    case 'avg':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'count':
+      return values.length;
+    case 'last':
+      return values[values.length - 1];
+    case 'median':
+      return percentile([...values].sort((a, b) => a - b), 50);
+    case 'p90':
+      return percentile([...values].sort((a, b) => a - b), 90);
+  }
+};
 
-      // Check for consistency
-      if (stats.average > 0) {
-        const recentMetrics = this.getMetricsByPeriod(now - 7 * 24 * 60 * 60 * 1000, now).filter(m => m.type === metricType);
-        const consistency = recentMetrics.length;
-
-        if (consistency >= 6) {
-          insights.push({
-            id: `insight_${metricType}_consistent_${now}`,
-            title: 'Excelente Consistência!',
-            description: `Você manteve ${consistency} dias consecutivos de ${METRIC_TYPES.find(t => t.value === metricType)?.label.toLowerCase()}!`,
-            type: 'positive',
-            metricType,
-            timestamp: now,
-          });
-        }
-      }
-    });
+/**
+ * Aggregate metrics per bucket of a period, in bucket order
+ */
+const aggregateBuckets = (
+  metrics: Metric[],
+  period: PeriodType,
+  settings: DashboardSettings,
+  fn: AggregationFn
+): Record<string, number> => {
+  const buckets: Record<string, number[]> = {};
+  metrics.forEach(metric => {
+    (buckets[getBucketKey(metric.timestamp, period, settings)] ??= []).push(metric.value);
+  });
 
-    return insights.slice(0, 10); // Keep only top 10 insights
-  }
+  return Object.fromEntries(
+    Object.entries(buckets)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, values]) => [key, aggregateValues(values, fn)])
+  );
+};
 
-  // ==================== EXPORT ====================
+const getAggregationLabel = (fn: AggregationFn, locale: Locale = DEFAULT_LOCALE): string =>
+  translate(locale, `aggregation.${fn}`);
+
+const formatLocalizedParam = (locale: Locale, param: LocalizedParam): string => {
+  if (typeof param === 'string') return param;
+  if (typeof param === 'number') return formatNumber(locale, param);
+  if (Array.isArray(param)) return param.map(value => formatNumber(locale, value)).join(', ');
+  if ('key' in param) return formatLocalizedText(locale, param);
+  if ('value' in param) return formatValue(locale, param.value, param.unit);
+  if ('date' in param) return formatDate(locale, param.date, { timeZone: param.timeZone });
+  if ('day' in param) return formatBucketLabel(param.day, 'day', locale);
+  if ('aggregation' in param) return getAggregationLabel(param.aggregation, locale);
+  return getPeriodNoun(param.periodNoun, param.count, locale);
+};
 
-  /**
-   * Generate report data for export
-   */
-  generateReport(startDate: number, endDate: number): string {
-    const metrics = this.getMetricsByPeriod(startDate, endDate);
+/**
+ * Translate stored text. A key this version does not know is shown as is.
+ */
+const formatLocalizedText = (locale: Locale, { key, params }: LocalizedText): string => {
+  if (!(key in MESSAGES[locale])) return key;
+  const formatted = params && Object.fromEntries(
+    Object.entries(params).map(([name, param]) => [name, formatLocalizedParam(locale, param)])
+  );
+  return translate(locale, key, formatted);
+};
 
-    let report = '=== RELATÓRIO DE ANALYTICS PESSOAL ===\n\n';
-    report += `Período: ${new Date(startDate).toLocaleDateString('pt-BR')} a ${new Date(endDate).toLocaleDateString('pt-BR')}\n\n`;
+/**
+ * Wrap text that was stored before it was translatable
+ */
+const verbatimText = (text: string): LocalizedText => ({ key: 'common.text', params: { text } });
 
-    METRIC_TYPES.forEach(({ value: type, label }) => {
-      const typeMetrics = metrics.filter(m => m.type === type);
-      if (typeMetrics.length === 0) return;
+// ============================================================================
+// STORAGE SERVICE
+// ============================================================================
 
-      const total = typeMetrics.reduce((sum, m) => sum + m.value, 0);
-      const average = total / typeMetrics.length;
+/**
+ * Async key/value backend used to persist dashboard data. The browser uses
+ * IndexedDB or localStorage; the server plugs in a JSON file backend.
+ */
+interface StorageBackend {
+  load<T>(key: string): Promise<T | null>;
+  save<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
 
-      report += `\n${label}:\n`;
-      report += `  Total de registros: ${typeMetrics.length}\n`;
-      report += `  Valor total: ${total.toFixed(2)}\n`;
-      report += `  Média: ${average.toFixed(2)}\n`;
-    });
+class MemoryStorageBackend implements StorageBackend {
+  private entries = new Map<string, unknown>();
 
-    report += '\n\n=== INSIGHTS ===\n';
-    this.insights.forEach(insight => {
-      report += `\n- ${insight.title}: ${insight.description}\n`;
-    });
+  async load<T>(key: string): Promise<T | null> {
+    return this.entries.has(key) ? (structuredClone(this.entries.get(key)) as T) : null;
+  }
 
-    return report;
+  async save<T>(key: string, value: T): Promise<void> {
+    this.entries.set(key, structuredClone(value));
   }
 
-  // ==================== SYNC ====================
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
 
-  syncToStorage(): void {
-    StorageService.saveToStorage(StorageService.getKeys().DASHBOARD_DATA, {
-      metrics: this.metrics,
-      widgets: this.widgets,
-      insights: this.insights,
-    });
+class LocalStorageBackend implements StorageBackend {
+  async load<T>(key: string): Promise<T | null> {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
   }
 
-  static loadFromStorage(): AnalyticsModel {
-    const data = StorageService.loadFromStorage<DashboardData | null>(
-      StorageService.getKeys().DASHBOARD_DATA,
-      null
-    );
-    return new AnalyticsModel(data || undefined);
+  async save<T>(key: string, value: T): Promise<void> {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
   }
 }
 
-// ============================================================================
-// CONTROLLER LAYER
-// ============================================================================
+class IndexedDBBackend implements StorageBackend {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null;
 
-class AnalyticsController {
-  private model: AnalyticsModel;
-  private listeners: Set<() => void>;
+  constructor(dbName: string = 'analytics_dashboard', storeName: string = 'keyval') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+    this.dbPromise = null;
+  }
 
-  constructor(model: AnalyticsModel) {
-    this.model = model;
-    this.listeners = new Set();
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
   }
 
-  subscribe(listener: () => void): () => void {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
-  private notify(): void {
-    this.listeners.forEach(listener => listener());
-    this.model.syncToStorage();
+  async load<T>(key: string): Promise<T | null> {
+    const value = await this.run<T | undefined>('readonly', store => store.get(key));
+    return value ?? null;
   }
 
-  // Metric methods
-  getAllMetrics = () => this.model.getAllMetrics();
-  getMetricsByType = (type: MetricType) => this.model.getMetricsByType(type);
-  getMetricsByPeriod = (start: number, end: number) => this.model.getMetricsByPeriod(start, end);
-  aggregateMetrics = (type: MetricType, period: PeriodType, metricName?: string) =>
-    this.model.aggregateMetrics(type, period, metricName);
-  comparePeriods = (type: MetricType, cs: number, ce: number, ps: number, pe: number) =>
-    this.model.comparePeriods(type, cs, ce, ps, pe);
-  getStatistics = (type: MetricType, days?: number) => this.model.getStatistics(type, days);
-
-  addMetric(metric: Omit<Metric, 'id' | 'timestamp'>): void {
-    this.model.addMetric(metric);
-    this.notify();
+  async save<T>(key: string, value: T): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
   }
 
-  deleteMetric(id: string): void {
-    this.model.deleteMetric(id);
-    this.notify();
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
   }
+}
 
-  // Widget methods
-  getAllWidgets = () => this.model.getAllWidgets();
-  getVisibleWidgets = () => this.model.getVisibleWidgets();
+class StorageService {
+  private static readonly STORAGE_KEYS = Object.freeze({
+    DARK_MODE: 'analytics_darkMode',
+    DASHBOARD_DATA: 'analytics_dashboardData',
+  });
 
-  addWidget(widget: Omit<Widget, 'id' | 'position'>): void {
-    this.model.addWidget(widget);
-    this.notify();
-  }
+  private static dashboardBackend: StorageBackend | null = null;
 
-  updateWidget(id: string, updates: Partial<Widget>): void {
-    this.model.updateWidget(id, updates);
-    this.notify();
+  static saveToStorage(key: string, value: any): void {
+    if (!isClient) return;
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Error saving ${key} to storage:`, error);
+    }
   }
 
-  deleteWidget(id: string): void {
-    this.model.deleteWidget(id);
-    this.notify();
+  static loadFromStorage<T>(key: string, defaultValue: T): T {
+    if (!isClient) return defaultValue;
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : defaultValue;
+    } catch (error) {
+      console.error(`Error loading ${key} from storage:`, error);
+      return defaultValue;
+    }
   }
 
-  toggleWidgetVisibility(id: string): void {
-    this.model.toggleWidgetVisibility(id);
-    this.notify();
+  static clearStorage(): void {
+    if (!isClient) return;
+    try {
+      localStorage.removeItem(this.STORAGE_KEYS.DARK_MODE);
+      this.getDashboardBackend().remove(this.STORAGE_KEYS.DASHBOARD_DATA);
+    } catch (error) {
+      console.error('Error clearing storage:', error);
+    }
   }
 
-  // Insights
-  getInsights = () => this.model.getInsights();
+  static getKeys() {
+    return this.STORAGE_KEYS;
+  }
 
-  // Export
-  generateReport = (startDate: number, endDate: number) =>
-    this.model.generateReport(startDate, endDate);
+  /**
+   * Default backend for dashboard data in the current environment
+   */
+  static getDashboardBackend(): StorageBackend {
+    if (!this.dashboardBackend) {
+      if (!isClient) {
+        this.dashboardBackend = new MemoryStorageBackend();
+      } else if ('indexedDB' in window) {
+        this.dashboardBackend = new IndexedDBBackend();
+      } else {
+        this.dashboardBackend = new LocalStorageBackend();
+      }
+    }
+    return this.dashboardBackend;
+  }
 }
 
 // ============================================================================
-// CONTEXT
+// SCHEMA VERSIONING
 // ============================================================================
 
-interface DashboardContextType {
-  controller: AnalyticsController;
-  forceUpdate: () => void;
-}
-
-const DashboardContext = createContext<DashboardContextType | null>(null);
+const DASHBOARD_SCHEMA_VERSION = 11;
 
-const useDashboard = () => {
-  const context = useContext(DashboardContext);
-  if (!context) throw new Error('useDashboard must be used within DashboardProvider');
-  return context;
-};
+interface PersistedDashboard {
+  version: number;
+  savedAt: number;
+  data: DashboardData;
+}
 
-// ============================================================================
-// VIEW COMPONENTS
-// ============================================================================
+type PersistedRecord = Record<string, unknown>;
 
 /**
- * Header Component
+ * Objects of a stored list; anything else in it is dropped
  */
-const Header: React.FC<{
-  darkMode: boolean;
-  toggleTheme: () => void;
-  onNavigate: (view: string) => void;
-  currentView: string;
-}> = ({ darkMode, toggleTheme, onNavigate, currentView }) => {
-  return (
-    <header className="header">
-      <div className="header-content">
-        <div className="header-brand">
-          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-          </svg>
-          <h1>My Analytics Dashboard</h1>
-        </div>
+const recordsOf = (value: unknown): PersistedRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
 
-        <nav className="header-nav">
-          <button
-            onClick={() => onNavigate('dashboard')}
-            className={currentView === 'dashboard' ? 'active' : ''}
-          >
-            Dashboard
-          </button>
-          <button
-            onClick={() => onNavigate('metrics')}
-            className={currentView === 'metrics' ? 'active' : ''}
-          >
-            Métricas
-          </button>
-          <button
-            onClick={() => onNavigate('insights')}
-            className={currentView === 'insights' ? 'active' : ''}
-          >
-            Insights
-          </button>
-          <button
-            onClick={() => onNavigate('reports')}
-            className={currentView === 'reports' ? 'active' : ''}
-          >
-            Relatórios
-          </button>
-        </nav>
+/**
+ * Stored entry with the fields every schema version has
+ */
+const isStoredMetric = (value: unknown): value is Metric =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.type === 'string' &&
+  typeof value.value === 'number' &&
+  typeof value.unit === 'string' &&
+  typeof value.timestamp === 'number';
 
-        <button onClick={toggleTheme} className="theme-toggle">
-          {darkMode ? (
-            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
-            </svg>
-          ) : (
-            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
-            </svg>
-          )}
-        </button>
-      </div>
-    </header>
+/**
+ * Payload with every collection of the current schema. The items themselves
+ * are trusted, as they were written by this app.
+ */
+const isDashboardData = (data: unknown): data is DashboardData =>
+  isRecord(data) &&
+  isRecord(data.settings) &&
+  ['categories', 'definitions', 'goals', 'alertRules', 'notifications', 'metrics', 'widgets', 'insights'].every(key =>
+    Array.isArray(data[key])
   );
-};
 
 /**
- * Stat Widget Component
+ * Migrations keyed by the version they upgrade to. Each one receives the
+ * payload of the previous version and returns the upgraded payload.
  */
-const StatWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
-  const { controller } = useDashboard();
-  const stats = controller.getStatistics(widget.metricType, 7);
-  const metricConfig = METRIC_TYPES.find(t => t.value === widget.metricType);
+const DASHBOARD_MIGRATIONS: Record<number, (data: PersistedRecord) => PersistedRecord> = {
+  // v0 payloads were the bare DashboardData written to sessionStorage
+  1: data => ({
+    metrics: data.metrics ?? [],
+    widgets: data.widgets ?? [...DEFAULT_WIDGETS],
+    insights: data.insights ?? [],
+  }),
+  // v2 replaced the numeric `config.days` of widgets with a `config.range`
+  2: data => ({
+    ...data,
+    widgets: recordsOf(data.widgets).map(({ config, ...widget }) => {
+      const { days, ...rest } = isRecord(config) ? config : {};
+      return { ...widget, config: typeof days === 'number' ? { ...rest, range: lastDays(days) } : rest };
+    }),
+  }),
+  // v3 replaced the `config.useAverage` flag of progress widgets with `config.aggregation`
+  3: data => ({
+    ...data,
+    widgets: recordsOf(data.widgets).map(({ config, ...widget }) => {
+      const { useAverage, ...rest } = isRecord(config) ? config : {};
+      return { ...widget, config: useAverage !== undefined ? { ...rest, aggregation: useAverage ? 'avg' : 'sum' } : rest };
+    }),
+  }),
+  // v4 turned the fixed MetricType union into stored categories. Types found in
+  // the data but unknown to the defaults get a category of their own.
+  4: data => {
+    const known = new Set(DEFAULT_CATEGORIES.map(c => c.id));
+    const types = [
+      ...recordsOf(data.metrics).map(m => m.type),
+      ...recordsOf(data.widgets).map(w => w.metricType),
+      ...recordsOf(data.insights).map(i => i.metricType),
+    ].filter((type): type is string => typeof type === 'string' && type !== '');
+    const extra = [...new Set(types)].filter(type => !known.has(type));
+
+    return {
+      ...data,
+      categories: [
+        ...DEFAULT_CATEGORIES,
+        ...extra.map((type, index) => ({
+          id: type,
+          label: type,
+          color: CHART_PALETTE[index % CHART_PALETTE.length],
+          icon: DEFAULT_CATEGORY_ICON,
+        })),
+      ],
+    };
+  },
+  // v5 added the metric definition registry, derived from the metrics on record
+  5: data => ({
+    ...data,
+    definitions: deriveDefinitions(Array.isArray(data.metrics) ? data.metrics.filter(isStoredMetric) : []),
+  }),
+  // v6 added goals
+  6: data => ({ ...data, goals: [] }),
+  // v7 gave insights the rule that produced them, a severity and an explanation
+  7: data => ({
+    ...data,
+    insights: recordsOf(data.insights).map(insight => ({ rule: 'trend', severity: 'low', explanation: '', ...insight })),
+  }),
+  // v8 gave insights stable ids and a lifecycle; earlier ones, keyed by
+  // generation time, can never be produced again and go to the history
+  8: data => ({
+    ...data,
+    insights: recordsOf(data.insights).map(insight => ({ ...insight, lastSeenAt: insight.timestamp, active: false })),
+  }),
+  // v9 added alert rules and their notifications
+  9: data => ({ ...data, alertRules: [], notifications: [] }),
+  // v10 added the time zone and week start settings; weeks used to start on Sunday
+  10: data => ({ ...data, settings: { timeZone: getDefaultTimeZone(), weekStart: 0 } }),
+  // v11 stored insight and notification text as message keys; earlier text,
+  // written in Portuguese, is kept as it was
+  11: data => {
+    const text = (value: unknown) => verbatimText(typeof value === 'string' ? value : '');
+    return {
+      ...data,
+      insights: recordsOf(data.insights).map(({ title, description, explanation, ...insight }) => ({
+        ...insight,
+        title: text(title),
+        description: text(description),
+        ...(explanation ? { explanation: text(explanation) } : {}),
+      })),
+      notifications: recordsOf(data.notifications).map(notification => ({
+        ...notification,
+        message: text(notification.message),
+      })),
+    };
+  },
+};
 
-  const getTrendIcon = () => {
-    if (stats.trend === 'up') return '📈';
-    if (stats.trend === 'down') return '📉';
-    return '➡️';
-  };
+const countDecimals = (value: number): number => (String(value).split('.')[1] ?? '').length;
 
-  return (
-    <div className="widget stat-widget" style={{ borderTopColor: metricConfig?.color }}>
-      <div className="widget-header">
-        <h3>{widget.title}</h3>
-        <span className="widget-icon">{metricConfig?.icon}</span>
-      </div>
-      <div className="stat-content">
-        <div className="stat-value">{stats.average.toFixed(1)}</div>
-        <div className="stat-label">Média (7 dias)</div>
-        {widget.config.showTrend && (
-          <div className="stat-trend">
-            <span>{getTrendIcon()}</span>
-            <span>{stats.trend === 'up' ? 'Em alta' : stats.trend === 'down' ? 'Em baixa' : 'Estável'}</span>
-          </div>
-        )}
-        <div className="stat-details">
-          <div className="stat-detail">
-            <span>Total:</span>
-            <strong>{stats.total.toFixed(0)}</strong>
-          </div>
-          <div className="stat-detail">
-            <span>Máx:</span>
-            <strong>{stats.max.toFixed(0)}</strong>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+/**
+ * One definition per category and metric name found in the data, taking the
+ * unit of the latest entry. Names known to DEFAULT_DEFINITIONS keep their settings.
+ */
+const deriveDefinitions = (metrics: Metric[]): MetricDefinition[] => {
+  const groups = new Map<string, Metric[]>();
+  [...metrics]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(m => {
+      const key = `${m.type}_${slugify(m.name)}`;
+      const group = groups.get(key);
+      if (group) group.push(m);
+      else groups.set(key, [m]);
+    });
+
+  return [...groups.entries()].map(([key, group]) => {
+    const latest = group[group.length - 1];
+    const known = DEFAULT_DEFINITIONS.find(d => d.id === `definition_${key}` && d.unit === latest.unit);
+    return known ?? {
+      id: `definition_${key}`,
+      name: latest.name,
+      category: latest.type,
+      unit: latest.unit,
+      precision: Math.min(Math.max(...group.map(m => countDecimals(m.value))), 4),
+      aggregation: 'sum',
+      higherIsBetter: true,
+    };
+  });
 };
 
 /**
- * Line Chart Widget Component
+ * Upgrade a persisted payload of any known version to the current schema
  */
-const LineChartWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
-  const { controller } = useDashboard();
-  const aggregated = controller.aggregateMetrics(widget.metricType, 'day');
-  const metricConfig = METRIC_TYPES.find(t => t.value === widget.metricType);
+const migrateDashboardData = (payload: unknown): DashboardData | null => {
+  if (!isRecord(payload)) return null;
 
-  const data = Object.entries(aggregated).slice(-7).map(([date, value]) => ({
-    date: new Date(date).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' }),
-    value,
-  }));
+  let version = typeof payload.version === 'number' ? payload.version : 0;
+  const stored = typeof payload.version === 'number' ? payload.data : payload;
+  if (!isRecord(stored)) return null;
+  let data = stored;
 
-  const maxValue = Math.max(...data.map(d => d.value));
+  if (version > DASHBOARD_SCHEMA_VERSION) {
+    console.error(`Dashboard data schema v${version} is newer than supported v${DASHBOARD_SCHEMA_VERSION}`);
+    return null;
+  }
 
-  return (
-    <div className="widget chart-widget" style={{ borderTopColor: metricConfig?.color }}>
-      <div className="widget-header">
-        <h3>{widget.title}</h3>
-        <span className="widget-icon">{metricConfig?.icon}</span>
-      </div>
-      <div className="chart-content">
-        <div className="line-chart">
-          {data.map((point, index) => {
-            const height = (point.value / maxValue) * 100;
-            return (
-              <div key={index} className="chart-bar-container">
-                <div
-                  className="chart-line-point"
-                  style={{
-                    bottom: `${height}%`,
-                    backgroundColor: metricConfig?.color,
-                  }}
-                  title={`${point.value.toFixed(1)}`}
-                />
-                <div className="chart-label">{point.date}</div>
-              </div>
-            );
-          })}
-        </div>
-      </div>
-    </div>
-  );
+  while (version < DASHBOARD_SCHEMA_VERSION) {
+    version += 1;
+    data = DASHBOARD_MIGRATIONS[version](data);
+  }
+
+  return isDashboardData(data) ? data : null;
 };
 
+// ============================================================================
+// API SERVICE
+// ============================================================================
+
+type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+class ApiService {
+  private static readonly BASE_PATH = `${import.meta.env.BASE_URL}api`;
+
+  static url(path: string): string {
+    return `${this.BASE_PATH}${path}`;
+  }
+
+  static async request<T>(method: HttpMethod, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(this.url(path), {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.error ?? `Request to ${path} failed with status ${response.status}`);
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  static get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  static post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  static patch<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
+  static delete<T>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
 /**
- * Bar Chart Widget Component
+ * Validate a metric payload received from outside the app (API, scripts)
  */
-const BarChartWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
-  const { controller } = useDashboard();
-  const aggregated = controller.aggregateMetrics(widget.metricType, 'day');
-  const metricConfig = METRIC_TYPES.find(t => t.value === widget.metricType);
-
-  const data = Object.entries(aggregated).slice(-7).map(([date, value]) => ({
-    date: new Date(date).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' }),
-    value,
-  }));
+const validateMetricInput = (input: unknown, categories: Category[], partial = false): string | null => {
+  if (!isRecord(input)) return 'Metric payload must be an object';
+  if ((!partial || 'name' in input) && (typeof input.name !== 'string' || !input.name.trim())) {
+    return 'Field "name" is required';
+  }
+  if ((!partial || 'type' in input) && !categories.some(c => c.id === input.type)) {
+    return `Unknown category "${input.type}"`;
+  }
+  if ((!partial || 'value' in input) && (typeof input.value !== 'number' || !Number.isFinite(input.value))) {
+    return 'Field "value" must be a finite number';
+  }
+  if ((!partial || 'unit' in input) && typeof input.unit !== 'string') return 'Field "unit" must be a string';
+  if (input.timestamp !== undefined && (typeof input.timestamp !== 'number' || !Number.isFinite(input.timestamp))) {
+    return 'Field "timestamp" must be epoch milliseconds';
+  }
+  return null;
+};
 
-  const maxValue = Math.max(...data.map(d => d.value));
+const validateTimeRange = (range: unknown): string | null => {
+  if (!isRecord(range)) return 'Field "range" must be an object';
+  switch (range.kind) {
+    case 'last-days':
+      return typeof range.days === 'number' && Number.isInteger(range.days) && range.days > 0
+        ? null
+        : 'Range "days" must be a positive integer';
+    case 'this-month':
+      return null;
+    case 'custom':
+      return typeof range.start === 'number' &&
+        typeof range.end === 'number' &&
+        Number.isFinite(range.start) &&
+        Number.isFinite(range.end) &&
+        range.start <= range.end
+        ? null
+        : 'Custom range needs numeric "start" <= "end"';
+    default:
+      return `Unknown range kind "${range.kind}"`;
+  }
+};
 
-  return (
-    <div className="widget chart-widget" style={{ borderTopColor: metricConfig?.color }}>
-      <div className="widget-header">
-        <h3>{widget.title}</h3>
-        <span className="widget-icon">{metricConfig?.icon}</span>
-      </div>
-      <div className="chart-content">
-        <div className="bar-chart">
-          {data.map((point, index) => {
-            const height = (point.value / maxValue) * 100;
-            return (
-              <div key={index} className="bar-item">
-                <div className="bar-container">
-                  <div
-                    className="bar-fill"
-                    style={{
-                      height: `${height}%`,
-                      backgroundColor: metricConfig?.color,
-                    }}
-                    title={`${point.value.toFixed(1)}`}
-                  />
-                </div>
-                <div className="bar-label">{point.date}</div>
-              </div>
-            );
-          })}
-        </div>
-      </div>
-    </div>
-  );
+/**
+ * Validate a widget payload received from outside the app (API, scripts)
+ */
+const validateWidgetInput = (input: unknown, categories: Category[], partial = false): string | null => {
+  if (!isRecord(input)) return 'Widget payload must be an object';
+  if ((!partial || 'title' in input) && (typeof input.title !== 'string' || !input.title.trim())) {
+    return 'Field "title" is required';
+  }
+  if ((!partial || 'type' in input) && !WIDGET_TYPES.some(t => t.value === input.type)) {
+    return `Unknown widget type "${input.type}"`;
+  }
+  if ((!partial || 'metricType' in input) && !categories.some(c => c.id === input.metricType)) {
+    return `Unknown category "${input.metricType}"`;
+  }
+  if ('isVisible' in input && typeof input.isVisible !== 'boolean') return 'Field "isVisible" must be a boolean';
+  const config = input.config;
+  if (config === undefined) return null;
+  if (!isRecord(config)) return 'Field "config" must be an object';
+  if (config.range !== undefined) {
+    const rangeError = validateTimeRange(config.range);
+    if (rangeError) return rangeError;
+  }
+  if (
+    config.metricNames !== undefined &&
+    (!Array.isArray(config.metricNames) || config.metricNames.some((n: unknown) => typeof n !== 'string'))
+  ) {
+    return 'Field "metricNames" must be an array of strings';
+  }
+  if (config.aggregation !== undefined && !AGGREGATION_FNS.some(a => a.value === config.aggregation)) {
+    return `Unknown aggregation "${config.aggregation}"`;
+  }
+  if (config.period !== undefined && !PERIOD_TYPES.some(p => p.value === config.period)) {
+    return `Unknown period "${config.period}"`;
+  }
+  if (config.goalId !== undefined && typeof config.goalId !== 'string') {
+    return 'Field "goalId" must be a string';
+  }
+  return null;
 };
 
 /**
- * Widget Renderer
+ * Validate a metric definition payload received from outside the app (API, scripts)
  */
-const WidgetRenderer: React.FC<{ widget: Widget }> = ({ widget }) => {
-  switch (widget.type) {
-    case 'stat':
-      return <StatWidget widget={widget} />;
-    case 'line':
-      return <LineChartWidget widget={widget} />;
-    case 'bar':
-      return <BarChartWidget widget={widget} />;
-    default:
-      return <StatWidget widget={widget} />;
+const validateDefinitionInput = (input: unknown, categories: Category[], partial = false): string | null => {
+  if (!isRecord(input)) return 'Definition payload must be an object';
+  if ((!partial || 'name' in input) && (typeof input.name !== 'string' || !input.name.trim())) {
+    return 'Field "name" is required';
+  }
+  if ((!partial || 'category' in input) && !categories.some(c => c.id === input.category)) {
+    return `Unknown category "${input.category}"`;
+  }
+  if ((!partial || 'unit' in input) && (typeof input.unit !== 'string' || !input.unit.trim())) {
+    return 'Field "unit" is required';
+  }
+  for (const key of ['min', 'max']) {
+    if (input[key] !== undefined && input[key] !== null && !Number.isFinite(input[key])) {
+      return `Field "${key}" must be a finite number`;
+    }
+  }
+  if (typeof input.min === 'number' && typeof input.max === 'number' && input.min > input.max) {
+    return 'Field "min" must not be greater than "max"';
+  }
+  if (
+    (!partial || 'precision' in input) &&
+    !(typeof input.precision === 'number' && Number.isInteger(input.precision) && input.precision >= 0 && input.precision <= 6)
+  ) {
+    return 'Field "precision" must be an integer between 0 and 6';
+  }
+  if ((!partial || 'aggregation' in input) && !AGGREGATION_FNS.some(a => a.value === input.aggregation)) {
+    return `Unknown aggregation "${input.aggregation}"`;
   }
+  if ((!partial || 'higherIsBetter' in input) && typeof input.higherIsBetter !== 'boolean') {
+    return 'Field "higherIsBetter" must be a boolean';
+  }
+  return null;
 };
 
+const findDefinition = (definitions: MetricDefinition[], category: MetricType, name: string) =>
+  definitions.find(d => d.category === category && slugify(d.name) === slugify(name));
+
 /**
- * Dashboard View
+ * Input step matching a definition's decimal precision (e.g. 2 -> "0.01")
  */
-const DashboardView: React.FC = () => {
-  const { controller } = useDashboard();
-  const widgets = controller.getVisibleWidgets();
+const getPrecisionStep = (precision: number): string => (precision > 0 ? (10 ** -precision).toFixed(precision) : '1');
 
-  return (
-    <div className="dashboard-view">
-      <div className="dashboard-header">
-        <h2>Dashboard</h2>
-        <p className="dashboard-subtitle">Visão geral das suas métricas</p>
-      </div>
+/**
+ * Check a metric against its registry definition (matched by category and
+ * name, ignoring case and accents) and return it with the canonical name and unit
+ */
+const resolveMetricDefinition = <T extends { name: string; type: MetricType; value: number; unit: string }>(
+  metric: T,
+  definitions: MetricDefinition[]
+): { metric: T; error?: undefined } | { metric?: undefined; error: string } => {
+  const definition = findDefinition(definitions, metric.type, metric.name);
+  if (!definition) {
+    return { error: `No metric definition for "${metric.name}" in category "${metric.type}"` };
+  }
+  if (metric.unit.trim() && metric.unit.trim().toLowerCase() !== definition.unit.toLowerCase()) {
+    return { error: `Unit "${metric.unit}" does not match "${definition.unit}" defined for ${definition.name}` };
+  }
+  if (definition.min !== undefined && metric.value < definition.min) {
+    return { error: `${definition.name} must be at least ${definition.min} ${definition.unit}` };
+  }
+  if (definition.max !== undefined && metric.value > definition.max) {
+    return { error: `${definition.name} must be at most ${definition.max} ${definition.unit}` };
+  }
+  if (countDecimals(metric.value) > definition.precision) {
+    return { error: `${definition.name} accepts at most ${definition.precision} decimal place(s)` };
+  }
+  return { metric: { ...metric, name: definition.name, unit: definition.unit } };
+};
 
-      <div className="widgets-grid">
-        {widgets.map(widget => (
-          <WidgetRenderer key={widget.id} widget={widget} />
-        ))}
-      </div>
+/**
+ * Validate a goal payload received from outside the app (API, scripts)
+ */
+const validateGoalInput = (input: unknown, categories: Category[], partial = false): string | null => {
+  if (!isRecord(input)) return 'Goal payload must be an object';
+  if ((!partial || 'title' in input) && (typeof input.title !== 'string' || !input.title.trim())) {
+    return 'Field "title" is required';
+  }
+  if ((!partial || 'metricType' in input) && !categories.some(c => c.id === input.metricType)) {
+    return `Unknown category "${input.metricType}"`;
+  }
+  if (input.metricName !== undefined && input.metricName !== null && (typeof input.metricName !== 'string' || !input.metricName.trim())) {
+    return 'Field "metricName" must be a non-empty string';
+  }
+  if ((!partial || 'period' in input) && !PERIOD_TYPES.some(p => p.value === input.period)) {
+    return `Unknown period "${input.period}"`;
+  }
+  if ((!partial || 'target' in input) && (typeof input.target !== 'number' || !Number.isFinite(input.target))) {
+    return 'Field "target" must be a finite number';
+  }
+  if ((!partial || 'direction' in input) && !GOAL_DIRECTIONS.some(d => d.value === input.direction)) {
+    return `Unknown direction "${input.direction}"`;
+  }
+  if (input.aggregation !== undefined && input.aggregation !== null && !AGGREGATION_FNS.some(a => a.value === input.aggregation)) {
+    return `Unknown aggregation "${input.aggregation}"`;
+  }
+  return null;
+};
 
-      {widgets.length === 0 && (
-        <div className="empty-state">
-          <p>Nenhum widget visível. Configure seus widgets nas configurações.</p>
-        </div>
-      )}
-    </div>
-  );
+/**
+ * Validate an alert rule payload received from outside the app (API, scripts)
+ */
+const validateAlertRuleInput = (input: unknown, categories: Category[], partial = false): string | null => {
+  if (!isRecord(input)) return 'Alert rule payload must be an object';
+  if ((!partial || 'title' in input) && (typeof input.title !== 'string' || !input.title.trim())) {
+    return 'Field "title" is required';
+  }
+  if ((!partial || 'metricType' in input) && !categories.some(c => c.id === input.metricType)) {
+    return `Unknown category "${input.metricType}"`;
+  }
+  if (input.metricName !== undefined && input.metricName !== null && (typeof input.metricName !== 'string' || !input.metricName.trim())) {
+    return 'Field "metricName" must be a non-empty string';
+  }
+  if (input.aggregation !== undefined && input.aggregation !== null && !AGGREGATION_FNS.some(a => a.value === input.aggregation)) {
+    return `Unknown aggregation "${input.aggregation}"`;
+  }
+  if ('enabled' in input && typeof input.enabled !== 'boolean') return 'Field "enabled" must be a boolean';
+
+  if (!partial || 'condition' in input) {
+    const condition = input.condition;
+    if (!isRecord(condition)) return 'Field "condition" must be an object';
+    if (!ALERT_OPERATORS.some(o => o.value === condition.operator)) return `Unknown operator "${condition.operator}"`;
+    if (!PERIOD_TYPES.some(p => p.value === condition.period)) return `Unknown period "${condition.period}"`;
+    switch (condition.kind) {
+      case 'threshold':
+        if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+          return 'Condition "value" must be a finite number';
+        }
+        if (typeof condition.consecutive !== 'number' || !Number.isInteger(condition.consecutive) || condition.consecutive < 1) {
+          return 'Condition "consecutive" must be a positive integer';
+        }
+        break;
+      case 'change':
+        if (typeof condition.percent !== 'number' || !(condition.percent > 0)) {
+          return 'Condition "percent" must be a positive number';
+        }
+        break;
+      default:
+        return `Unknown condition kind "${condition.kind}"`;
+    }
+  }
+  return null;
 };
 
 /**
- * Metrics View
+ * Validate the user state of an insight (pin, dismiss, snooze). A null
+ * `snoozedUntil` wakes the insight up.
  */
-const MetricsView: React.FC = () => {
-  const { controller, forceUpdate } = useDashboard();
-  const [selectedType, setSelectedType] = useState<MetricType>('productivity');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [showAddForm, setShowAddForm] = useState(false);
+const validateInsightUpdate = (input: unknown): string | null => {
+  if (!isRecord(input)) return 'Insight payload must be an object';
+  if ('pinned' in input && typeof input.pinned !== 'boolean') return 'Field "pinned" must be a boolean';
+  if ('dismissed' in input && typeof input.dismissed !== 'boolean') return 'Field "dismissed" must be a boolean';
+  if (
+    input.snoozedUntil !== undefined &&
+    input.snoozedUntil !== null &&
+    (typeof input.snoozedUntil !== 'number' || !Number.isFinite(input.snoozedUntil))
+  ) {
+    return 'Field "snoozedUntil" must be epoch milliseconds';
+  }
+  return null;
+};
 
-  const [formData, setFormData] = useState({
-    name: '',
-    value: '',
-    unit: '',
-  });
+// Longest icon accepted, in UTF-16 code units; room for emoji joined with ZWJ
+const CATEGORY_ICON_MAX_LENGTH = 16;
 
-  const metrics = controller.getMetricsByType(selectedType);
-  const filteredMetrics = searchTerm
-    ? metrics.filter(m => m.name.toLowerCase().includes(searchTerm.toLowerCase()))
-    : metrics;
+/**
+ * One visible character (an emoji, possibly joined or with modifiers) that
+ * is not markup, since icons end up in exported reports
+ */
+const isCategoryIcon = (icon: string): boolean =>
+  icon.length > 0 &&
+  icon.length <= CATEGORY_ICON_MAX_LENGTH &&
+  !/[\s<>&"'`]/.test(icon) &&
+  [...new Intl.Segmenter().segment(icon)].length === 1;
 
-  const stats = controller.getStatistics(selectedType, 30);
-  const metricConfig = METRIC_TYPES.find(t => t.value === selectedType);
+/**
+ * Validate a category payload received from outside the app (API, scripts)
+ */
+const validateCategoryInput = (input: unknown, partial = false): string | null => {
+  if (!isRecord(input)) return 'Category payload must be an object';
+  if ((!partial || 'label' in input) && (typeof input.label !== 'string' || !input.label.trim())) {
+    return 'Field "label" is required';
+  }
+  if ((!partial || 'color' in input) && (typeof input.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(input.color))) {
+    return 'Field "color" must be a hex colour like #3b82f6';
+  }
+  if ((!partial || 'icon' in input) && (typeof input.icon !== 'string' || !isCategoryIcon(input.icon))) {
+    return `Field "icon" must be a single emoji or character of at most ${CATEGORY_ICON_MAX_LENGTH} code units`;
+  }
+  if ('archived' in input && typeof input.archived !== 'boolean') return 'Field "archived" must be a boolean';
+  return null;
+};
 
-  const handleAddMetric = () => {
-    if (!formData.name || !formData.value) return;
+/**
+ * Validate a settings payload received from outside the app (API, scripts)
+ */
+const validateSettingsInput = (input: unknown, partial = false): string | null => {
+  if (!isRecord(input)) return 'Settings payload must be an object';
+  if ((!partial || 'timeZone' in input) && !isValidTimeZone(input.timeZone)) {
+    return 'Field "timeZone" must be an IANA time zone like America/Sao_Paulo';
+  }
+  if ((!partial || 'weekStart' in input) && !WEEK_STARTS.some(w => w.value === input.weekStart)) {
+    return 'Field "weekStart" must be 0 (Sunday) or 1 (Monday)';
+  }
+  return null;
+};
 
-    controller.addMetric({
-      name: formData.name,
-      type: selectedType,
-      value: parseFloat(formData.value),
-      unit: formData.unit || 'unidade',
-    });
+// ============================================================================
+// IMPORT
+// ============================================================================
 
-    setFormData({ name: '', value: '', unit: '' });
-    setShowAddForm(false);
-  };
+type ImportFormat = 'csv' | 'json';
 
-  const handleDelete = (id: string) => {
-    if (confirm('Deseja realmente excluir esta métrica?')) {
-      controller.deleteMetric(id);
-    }
-  };
+/**
+ * Source column for each metric field. Fields without a column fall back to
+ * the import defaults.
+ */
+interface ImportMapping {
+  name?: string;
+  value?: string;
+  unit?: string;
+  timestamp?: string;
+  type?: string;
+  category?: string;
+}
+
+type DecimalSeparator = '.' | ',';
+
+interface ImportRequest {
+  format: ImportFormat;
+  content: string;
+  mapping: ImportMapping;
+  defaults?: { name?: string; unit?: string; type?: MetricType };
+  // Decimal mark of values written as text. Defaults to "," for CSV split by
+  // ";", as pt-BR spreadsheets write it, and is otherwise guessed per value.
+  decimalSeparator?: DecimalSeparator;
+}
+
+interface ImportRowResult {
+  row: number;
+  metric?: Omit<Metric, 'id'>;
+  error?: string;
+  duplicate?: boolean;
+}
+
+interface ImportResult {
+  rows: ImportRowResult[];
+  imported: number;
+}
+
+const IMPORT_FIELDS: { key: keyof ImportMapping; labelKey: MessageKey; aliases: string[] }[] = [
+  { key: 'timestamp', labelKey: 'importField.timestamp', aliases: ['timestamp', 'date', 'data', 'datetime', 'time', 'hora'] },
+  { key: 'name', labelKey: 'importField.name', aliases: ['name', 'nome', 'metric', 'metrica', 'métrica'] },
+  { key: 'value', labelKey: 'importField.value', aliases: ['value', 'valor', 'amount', 'quantidade'] },
+  { key: 'unit', labelKey: 'importField.unit', aliases: ['unit', 'unidade'] },
+  { key: 'type', labelKey: 'importField.type', aliases: ['type', 'tipo', 'categoria'] },
+  { key: 'category', labelKey: 'importField.category', aliases: ['category', 'subcategoria', 'metadata.category'] },
+];
 
-  return (
-    <div className="metrics-view">
-      <div className="metrics-header">
-        <h2>Métricas</h2>
-        <button onClick={() => setShowAddForm(!showAddForm)} className="btn-primary">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Nova Métrica
-        </button>
-      </div>
+/**
+ * ";" when the header has more of them than commas, else ","
+ */
+const detectCsvDelimiter = (text: string): ';' | ',' => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+};
 
-      {showAddForm && (
-        <div className="add-metric-form">
-          <h3>Adicionar Nova Métrica</h3>
-          <div className="form-row">
-            <input
-              type="text"
-              placeholder="Nome da métrica"
-              value={formData.name}
-              onChange={e => setFormData({ ...formData, name: e.target.value })}
-            />
-            <input
-              type="number"
-              placeholder="Valor"
-              value={formData.value}
-              onChange={e => setFormData({ ...formData, value: e.target.value })}
-            />
-            <input
-              type="text"
-              placeholder="Unidade"
-              value={formData.unit}
-              onChange={e => setFormData({ ...formData, unit: e.target.value })}
-            />
-            <button onClick={handleAddMetric} className="btn-primary">Adicionar</button>
-          </div>
-        </div>
-      )}
+/**
+ * Split CSV text into rows of cells. Handles quoted cells, escaped quotes and
+ * both "," and ";" delimiters (the latter is common in pt-BR spreadsheets).
+ */
+const parseCsv = (text: string): string[][] => {
+  const delimiter = detectCsvDelimiter(text);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
 
-      <div className="metrics-filters">
-        <div className="search-box">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-          </svg>
-          <input
-            type="text"
-            placeholder="Buscar métricas..."
-            value={searchTerm}
-            onChange={e => setSearchTerm(e.target.value)}
-          />
-        </div>
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
 
-        <div className="type-filters">
-          {METRIC_TYPES.map(type => (
-            <button
-              key={type.value}
-              onClick={() => setSelectedType(type.value)}
-              className={`type-filter ${selectedType === type.value ? 'active' : ''}`}
-              style={{
-                borderColor: type.color,
-                backgroundColor: selectedType === type.value ? type.color : 'transparent',
-                color: selectedType === type.value ? '#fff' : 'currentColor',
-              }}
-            >
-              {type.icon} {type.label}
-            </button>
-          ))}
-        </div>
-      </div>
+/**
+ * Parse import content into records keyed by column name.
+ * JSON may be an array of objects or an object with a `metrics` array.
+ */
+const parseImportRecords = (format: ImportFormat, content: string): Record<string, unknown>[] => {
+  if (format === 'json') {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed?.metrics;
+    if (!Array.isArray(records)) throw new Error('JSON must be an array of objects or { "metrics": [...] }');
+    return records.map(record =>
+      record && typeof record === 'object'
+        ? Object.fromEntries(
+            Object.entries(record).flatMap(([key, value]) =>
+              // Flatten one level so metadata.category can be mapped like a column
+              value && typeof value === 'object' && !Array.isArray(value)
+                ? Object.entries(value).map(([k, v]) => [`${key}.${k}`, v])
+                : [[key, value]]
+            )
+          )
+        : {}
+    );
+  }
 
-      <div className="metrics-stats">
-        <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
-          <span className="stat-label">Total (30 dias)</span>
-          <span className="stat-value">{stats.total.toFixed(0)}</span>
-        </div>
-        <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
-          <span className="stat-label">Média</span>
-          <span className="stat-value">{stats.average.toFixed(1)}</span>
-        </div>
-        <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
-          <span className="stat-label">Máximo</span>
-          <span className="stat-value">{stats.max.toFixed(0)}</span>
-        </div>
-        <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
-          <span className="stat-label">Tendência</span>
-          <span className="stat-value">{stats.trend === 'up' ? '📈' : stats.trend === 'down' ? '📉' : '➡️'}</span>
-        </div>
-      </div>
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  return rows.map(row => Object.fromEntries(header.map((column, i) => [column.trim(), row[i]?.trim() ?? ''])));
+};
 
-      <div className="metrics-list">
-        {filteredMetrics.slice(0, 20).reverse().map(metric => (
-          <div key={metric.id} className="metric-item" style={{ borderLeftColor: metricConfig?.color }}>
-            <div className="metric-info">
-              <h4>{metric.name}</h4>
-              <span className="metric-date">
-                {new Date(metric.timestamp).toLocaleDateString('pt-BR')}
-              </span>
-            </div>
-            <div className="metric-value">
-              {metric.value} {metric.unit}
-            </div>
-            <button onClick={() => handleDelete(metric.id)} className="btn-delete">
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-            </button>
-          </div>
-        ))}
-      </div>
-    </div>
-  );
+const getImportColumns = (records: Record<string, unknown>[]): string[] =>
+  [...new Set(records.flatMap(record => Object.keys(record)))];
+
+/**
+ * Map columns whose name matches a known alias, e.g. "Data" → timestamp
+ */
+const guessImportMapping = (columns: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const column = columns.find(c => field.aliases.includes(c.trim().toLowerCase()));
+    if (column) mapping[field.key] = column;
+  });
+  return mapping;
 };
 
 /**
- * Insights View
+ * Parse a number written either as 1234.5, 1,234.5 or 1.234,5. Without a
+ * decimal separator, the last of "," and "." is taken as the decimal mark,
+ * so "1.234" alone reads as 1.234.
  */
-const InsightsView: React.FC = () => {
-  const { controller } = useDashboard();
-  const insights = controller.getInsights();
+const parseImportNumber = (raw: unknown, decimalSeparator?: DecimalSeparator): number => {
+  if (typeof raw === 'number') return raw;
+  let text = String(raw ?? '').trim().replace(/[^\d.,eE+-]/g, '');
+  const separator = decimalSeparator ?? (text.lastIndexOf(',') > text.lastIndexOf('.') ? ',' : '.');
+  text = separator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  return text ? Number(text) : NaN;
+};
 
-  const getInsightIcon = (type: string) => {
-    switch (type) {
-      case 'positive':
-        return '✅';
-      case 'negative':
-        return '⚠️';
-      default:
-        return 'ℹ️';
-    }
-  };
+/**
+ * Parse epoch seconds/milliseconds, ISO dates and dd/mm/yyyy [hh:mm[:ss]]
+ * into epoch milliseconds. Dates and times without an offset are read in
+ * the user's time zone.
+ */
+const parseImportTimestamp = (raw: unknown, timeZone: string): number => {
+  const text = String(raw ?? '').trim();
+  if (typeof raw === 'number' || /^\d+(\.\d+)?$/.test(text)) {
+    const value = Number(text);
+    // Ten-digit epochs are seconds (e.g. exports from Unix tools)
+    return value < 1e11 ? value * 1000 : value;
+  }
 
-  const getInsightClass = (type: string) => {
-    switch (type) {
-      case 'positive':
-        return 'insight-positive';
-      case 'negative':
-        return 'insight-negative';
-      default:
-        return 'insight-neutral';
-    }
-  };
+  const local = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (local) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = local;
+    // Reject dates that roll over, e.g. 31/02
+    if (new Date(Date.UTC(+year, +month - 1, +day)).getUTCMonth() !== +month - 1) return NaN;
+    return fromZonedTime(timeZone, +year, +month, +day, +hours, +minutes, +seconds);
+  }
 
-  return (
-    <div className="insights-view">
-      <div className="insights-header">
-        <h2>Insights Automáticos</h2>
-        <p className="insights-subtitle">Análises geradas automaticamente baseadas em seus dados</p>
-      </div>
+  // ISO strings without an offset are read in the time zone, like dd/mm/yyyy
+  const plain = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (plain) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = plain;
+    return fromZonedTime(timeZone, +year, +month, +day, +hours, +minutes, +seconds);
+  }
 
-      <div className="insights-list">
-        {insights.map(insight => {
-          const metricConfig = METRIC_TYPES.find(t => t.value === insight.metricType);
-          return (
-            <div key={insight.id} className={`insight-card ${getInsightClass(insight.type)}`}>
-              <div className="insight-icon">{getInsightIcon(insight.type)}</div>
-              <div className="insight-content">
-                <h3>{insight.title}</h3>
-                <p>{insight.description}</p>
-                <div className="insight-footer">
-                  <span className="insight-category" style={{ color: metricConfig?.color }}>
-                    {metricConfig?.icon} {metricConfig?.label}
-                  </span>
-                  <span className="insight-date">
-                    {new Date(insight.timestamp).toLocaleDateString('pt-BR')}
-                  </span>
-                </div>
-              </div>
-            </div>
-          );
-        })}
-      </div>
+  return /^\d{4}-\d{2}-\d{2}T/.test(text) ? Date.parse(text) : NaN;
+};
 
-      {insights.length === 0 && (
-        <div className="empty-state">
-          <p>Ainda não há insights disponíveis. Continue adicionando métricas!</p>
-        </div>
-      )}
-    </div>
-  );
+const resolveImportType = (raw: unknown, categories: Category[]): MetricType | undefined => {
+  const text = String(raw ?? '').trim().toLowerCase();
+  return categories.find(c => c.id === text || c.label.toLowerCase() === text)?.id;
 };
 
+const getMetricFingerprint = (metric: Omit<Metric, 'id'>): string =>
+  [metric.type, metric.name.trim().toLowerCase(), metric.timestamp, metric.value].join('|');
+
 /**
- * Reports View
+ * Turn import content into metric rows, validating each one and flagging rows
+ * that already exist (same type, name, timestamp and value) or repeat an
+ * earlier row of the same file
  */
-const ReportsView: React.FC = () => {
-  const { controller } = useDashboard();
-  const [startDate, setStartDate] = useState(() => {
-    const date = new Date();
-    date.setDate(date.getDate() - 30);
-    return date.toISOString().split('T')[0];
+const buildImportRows = (
+  request: ImportRequest,
+  existing: Metric[],
+  categories: Category[],
+  definitions: MetricDefinition[],
+  timeZone: string
+): ImportRowResult[] => {
+  const { mapping, defaults = {} } = request;
+  const decimalSeparator =
+    request.decimalSeparator ?? (request.format === 'csv' && detectCsvDelimiter(request.content) === ';' ? ',' : undefined);
+  const seen = new Set(existing.map(getMetricFingerprint));
+
+  return parseImportRecords(request.format, request.content).map((record, index) => {
+    // Row numbers match the spreadsheet, where row 1 is the header
+    const row = request.format === 'csv' ? index + 2 : index + 1;
+    const pick = (field: keyof ImportMapping) => (mapping[field] ? record[mapping[field]!] : undefined);
+
+    const timestamp = mapping.timestamp ? parseImportTimestamp(pick('timestamp'), timeZone) : NaN;
+    if (!Number.isFinite(timestamp)) {
+      return { row, error: `Invalid or missing timestamp "${pick('timestamp') ?? ''}"` };
+    }
+
+    const type = mapping.type ? resolveImportType(pick('type'), categories) : defaults.type;
+    if (!type) return { row, error: `Unknown category "${pick('type') ?? ''}"` };
+
+    const category = pick('category');
+    const metric: Omit<Metric, 'id'> = {
+      name: String(pick('name') ?? defaults.name ?? '').trim(),
+      type,
+      value: parseImportNumber(pick('value'), decimalSeparator),
+      unit: String(pick('unit') ?? defaults.unit ?? '').trim(),
+      timestamp,
+      ...(category ? { metadata: { category: String(category) } } : {}),
+    };
+
+    const error = validateMetricInput(metric, categories);
+    if (error) return { row, error };
+
+    const resolved = resolveMetricDefinition(metric, definitions);
+    if (resolved.error !== undefined) return { row, error: resolved.error };
+
+    const fingerprint = getMetricFingerprint(resolved.metric);
+    const duplicate = seen.has(fingerprint);
+    seen.add(fingerprint);
+    return { row, metric: resolved.metric, duplicate };
   });
-  const [endDate, setEndDate] = useState(() => new Date().toISOString().split('T')[0]);
-  const [compareType, setCompareType] = useState<MetricType>('productivity');
+};
 
-  const handleExport = () => {
-    const start = new Date(startDate).getTime();
-    const end = new Date(endDate).getTime();
-    const report = controller.generateReport(start, end);
+interface IngestItemResult {
+  index: number;
+  status: 'created' | 'duplicate' | 'invalid';
+  idempotencyKey?: string;
+  metric?: Omit<Metric, 'id'>;
+  // Entry already stored under the same idempotency key
+  existingId?: string;
+  error?: string;
+}
 
-    const blob = new Blob([report], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `relatorio-analytics-${Date.now()}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
+// Largest batch accepted by a single ingestion request
+const INGEST_BATCH_LIMIT = 1000;
 
-  // Calculate comparison
-  const currentStart = new Date(startDate).getTime();
-  const currentEnd = new Date(endDate).getTime();
-  const duration = currentEnd - currentStart;
-  const previousStart = currentStart - duration;
-  const previousEnd = currentStart;
-
-  const comparison = controller.comparePeriods(
-    compareType,
-    currentStart,
-    currentEnd,
-    previousStart,
-    previousEnd
-  );
+/**
+ * Parse an ingestion timestamp: epoch milliseconds, or an ISO 8601 date-time
+ * with an explicit offset so the instant does not depend on the server's zone
+ */
+const parseIngestTimestamp = (raw: unknown): number => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : NaN;
+  if (typeof raw !== 'string') return NaN;
+  return /^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})$/i.test(raw.trim()) ? Date.parse(raw) : NaN;
+};
 
-  return (
-    <div className="reports-view">
-      <div className="reports-header">
-        <h2>Relatórios</h2>
-        <button onClick={handleExport} className="btn-primary">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-          Exportar Relatório
-        </button>
-      </div>
+/**
+ * Validate pushed metric items one by one. Items whose idempotency key was
+ * already stored, or appears earlier in the batch, are reported as duplicates.
+ */
+const buildIngestResults = (
+  items: unknown[],
+  existing: Metric[],
+  categories: Category[],
+  definitions: MetricDefinition[]
+): IngestItemResult[] => {
+  const stored = new Map(existing.filter(m => m.idempotencyKey).map(m => [m.idempotencyKey!, m.id]));
+  const seen = new Set<string>();
+
+  return items.map((item, index): IngestItemResult => {
+    if (!isRecord(item)) return { index, status: 'invalid', error: 'Item must be an object' };
+
+    const { idempotencyKey } = item;
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !idempotencyKey.trim())) {
+      return { index, status: 'invalid', error: 'Field "idempotencyKey" must be a non-empty string' };
+    }
+    const key = idempotencyKey?.trim();
+    if (key && stored.has(key)) return { index, status: 'duplicate', idempotencyKey: key, existingId: stored.get(key) };
+    if (key && seen.has(key)) return { index, status: 'duplicate', idempotencyKey: key };
+
+    const timestamp = parseIngestTimestamp(item.timestamp);
+    if (!Number.isFinite(timestamp)) {
+      return {
+        index,
+        status: 'invalid',
+        idempotencyKey: key,
+        error: 'Field "timestamp" must be epoch milliseconds or an ISO 8601 date-time with a time zone',
+      };
+    }
+    if (item.metadata !== undefined && !isRecord(item.metadata)) {
+      return { index, status: 'invalid', idempotencyKey: key, error: 'Field "metadata" must be an object' };
+    }
 
-      <div className="report-config">
-        <h3>Configuração do Relatório</h3>
-        <div className="form-row">
-          <div className="form-group">
-            <label>Data Inicial</label>
-            <input
-              type="date"
-              value={startDate}
-              onChange={e => setStartDate(e.target.value)}
-            />
-          </div>
-          <div className="form-group">
-            <label>Data Final</label>
-            <input
-              type="date"
-              value={endDate}
-              onChange={e => setEndDate(e.target.value)}
-            />
-          </div>
-        </div>
-      </div>
+    const error = validateMetricInput({ ...item, unit: item.unit ?? '', timestamp }, categories);
+    if (error) return { index, status: 'invalid', idempotencyKey: key, error };
 
-      <div className="comparison-section">
-        <h3>Comparação de Períodos</h3>
-        <div className="comparison-type-select">
-          {METRIC_TYPES.map(type => (
-            <button
-              key={type.value}
-              onClick={() => setCompareType(type.value)}
-              className={compareType === type.value ? 'active' : ''}
-            >
-              {type.icon} {type.label}
-            </button>
-          ))}
-        </div>
+    // The field types were checked above, so these conversions keep the values as sent
+    const metric: Omit<Metric, 'id'> = {
+      name: String(item.name).trim(),
+      type: String(item.type),
+      value: Number(item.value),
+      unit: String(item.unit ?? ''),
+      timestamp,
+      ...(isRecord(item.metadata) ? { metadata: item.metadata } : {}),
+      ...(key ? { idempotencyKey: key } : {}),
+    };
 
-        <div className="comparison-cards">
-          <div className="comparison-card">
-            <h4>Período Atual</h4>
-            <div className="comparison-value">{comparison.current.toFixed(0)}</div>
-            <div className="comparison-dates">
-              {new Date(currentStart).toLocaleDateString('pt-BR')} - {new Date(currentEnd).toLocaleDateString('pt-BR')}
-            </div>
-          </div>
+    const resolved = resolveMetricDefinition(metric, definitions);
+    if (resolved.error !== undefined) return { index, status: 'invalid', idempotencyKey: key, error: resolved.error };
 
-          <div className="comparison-card">
-            <h4>Período Anterior</h4>
-            <div className="comparison-value">{comparison.previous.toFixed(0)}</div>
-            <div className="comparison-dates">
-              {new Date(previousStart).toLocaleDateString('pt-BR')} - {new Date(previousEnd).toLocaleDateString('pt-BR')}
-            </div>
-          </div>
+    if (key) seen.add(key);
+    return { index, status: 'created', idempotencyKey: key, metric: resolved.metric };
+  });
+};
 
-          <div className={`comparison-card ${comparison.change >= 0 ? 'positive' : 'negative'}`}>
-            <h4>Mudança</h4>
-            <div className="comparison-value">
-              {comparison.change >= 0 ? '+' : ''}{comparison.change.toFixed(0)}
-            </div>
-            <div className="comparison-percent">
-              {comparison.changePercent >= 0 ? '+' : ''}{comparison.changePercent.toFixed(1)}%
-            </div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+// ============================================================================
+// BULK EDITS
+// ============================================================================
+
+type BulkMetricOperation =
+  | { action: 'delete' }
+  // Moves entries to a metric of another category, by default one with the same name
+  | { action: 'retype'; type: MetricType; name?: string }
+  | { action: 'rename'; name: string }
+  // Milliseconds added to each timestamp, negative to move entries back
+  | { action: 'shift'; offset: number }
+  // Values are multiplied by `factor`, rounded to the definition's precision
+  // and recorded in the definition's unit, e.g. to fix entries imported in another unit
+  | { action: 'convert'; factor: number };
+
+type BulkMetricAction = BulkMetricOperation['action'];
+
+interface BulkMetricResult {
+  action: BulkMetricAction;
+  affected: number;
+  // Requested ids that matched no entry, e.g. deleted meanwhile in another tab
+  missing: string[];
+}
+
+// Most entries changed by a single bulk request
+const BULK_METRIC_LIMIT = 5000;
+
+/**
+ * Validate a bulk edit payload received from outside the app (API, scripts)
+ */
+const validateBulkMetricInput = (input: unknown, categories: Category[]): string | null => {
+  if (!isRecord(input)) return 'Bulk payload must be an object';
+  if (!Array.isArray(input.ids) || input.ids.length === 0 || input.ids.some((id: unknown) => typeof id !== 'string')) {
+    return 'Field "ids" must be a non-empty array of metric ids';
+  }
+  if (input.ids.length > BULK_METRIC_LIMIT) return `At most ${BULK_METRIC_LIMIT} entries per request`;
+
+  const operation = input.operation;
+  if (!isRecord(operation)) return 'Field "operation" must be an object';
+  switch (operation.action) {
+    case 'delete':
+      return null;
+    case 'retype':
+      if (!categories.some(c => c.id === operation.type)) return `Unknown category "${operation.type}"`;
+      return operation.name === undefined || (typeof operation.name === 'string' && operation.name.trim())
+        ? null
+        : 'Field "name" must be a non-empty string';
+    case 'rename':
+      return typeof operation.name === 'string' && operation.name.trim() ? null : 'Field "name" is required';
+    case 'shift':
+      return Number.isFinite(operation.offset) && operation.offset !== 0
+        ? null
+        : 'Field "offset" must be a non-zero number of milliseconds';
+    case 'convert':
+      return Number.isFinite(operation.factor) && operation.factor !== 0
+        ? null
+        : 'Field "factor" must be a non-zero number';
+    default:
+      return `Unknown action "${operation.action}"`;
+  }
+};
+
+/**
+ * Apply a bulk edit to entries, holding each edited entry to its definition
+ * like a single edit. Either every entry passes or none is returned.
+ */
+const applyBulkMetricOperation = (
+  metrics: Metric[],
+  operation: Exclude<BulkMetricOperation, { action: 'delete' }>,
+  definitions: MetricDefinition[]
+): { metrics: Metric[]; error?: undefined } | { metrics?: undefined; error: string } => {
+  const edit = (metric: Metric): Metric => {
+    switch (operation.action) {
+      case 'retype':
+        return { ...metric, type: operation.type, name: operation.name?.trim() || metric.name };
+      case 'rename':
+        return { ...metric, name: operation.name.trim() };
+      case 'shift':
+        return { ...metric, timestamp: metric.timestamp + operation.offset };
+      case 'convert': {
+        const definition = findDefinition(definitions, metric.type, metric.name);
+        return {
+          ...metric,
+          value: Number((metric.value * operation.factor).toFixed(definition?.precision ?? 10)),
+          unit: definition?.unit ?? metric.unit,
+        };
+      }
+    }
+  };
+
+  const edited: Metric[] = [];
+  for (const metric of metrics) {
+    const resolved = resolveMetricDefinition(edit(metric), definitions);
+    if (resolved.error !== undefined) return { error: `Entry ${metric.id}: ${resolved.error}` };
+    edited.push(resolved.metric);
+  }
+  return { metrics: edited };
 };
 
 // ============================================================================
-// MAIN APP COMPONENT
+// REPORTS
 // ============================================================================
 
-const App: React.FC = () => {
-  const [darkMode, setDarkMode] = useState(() => {
-    return StorageService.loadFromStorage(StorageService.getKeys().DARK_MODE, false);
+type ReportFormat = 'txt' | 'csv' | 'json' | 'md' | 'html' | 'pdf';
+
+interface ReportGroup {
+  type: MetricType;
+  name: string;
+  unit: string;
+  values: Partial<Record<AggregationFn, number>>;
+  // Value per bucket of the report period, used for charts, aggregated with
+  // the metric's default aggregation (e.g. average sleep, summed spending)
+  series: Record<string, number>;
+  seriesAggregation: AggregationFn;
+}
+
+interface ReportData {
+  start: number;
+  end: number;
+  // Time zone the buckets and dates of the report are in
+  timeZone: string;
+  generatedAt: number;
+  period: PeriodType;
+  aggregations: AggregationFn[];
+  categories: Category[];
+  groups: ReportGroup[];
+  metrics: Metric[];
+  insights: Insight[];
+}
+
+interface ReportExport {
+  content: string | Uint8Array;
+  mimeType: string;
+  extension: string;
+  // Suggested download name, in the report's language
+  filename: string;
+}
+
+const REPORT_FORMATS: { value: ReportFormat; labelKey: MessageKey; mimeType: string }[] = [
+  { value: 'txt', labelKey: 'reportFormat.txt', mimeType: 'text/plain' },
+  { value: 'csv', labelKey: 'reportFormat.csv', mimeType: 'text/csv' },
+  { value: 'json', labelKey: 'reportFormat.json', mimeType: 'application/json' },
+  { value: 'md', labelKey: 'reportFormat.md', mimeType: 'text/markdown' },
+  { value: 'html', labelKey: 'reportFormat.html', mimeType: 'text/html' },
+  { value: 'pdf', labelKey: 'reportFormat.pdf', mimeType: 'application/pdf' },
+];
+
+/**
+ * Bucket size that keeps report charts readable for the period length
+ */
+const getReportPeriod = (start: number, end: number): PeriodType => {
+  const days = (end - start) / DAY_MS;
+  if (days <= 62) return 'day';
+  if (days <= 366) return 'week';
+  return 'month';
+};
+
+const formatReportValue = (fn: AggregationFn, value: number | undefined, locale: Locale): string =>
+  value === undefined
+    ? ''
+    : fn === 'count'
+      ? formatNumber(locale, value, 0)
+      : value.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatReportPeriod = (report: ReportData, locale: Locale): string =>
+  translate(locale, 'range.custom', {
+    start: formatDate(locale, report.start, { timeZone: report.timeZone }),
+    end: formatDate(locale, report.end, { timeZone: report.timeZone }),
+  });
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([|\\*_`<>])/g, '\\$1');
+
+const renderReportText = (report: ReportData, locale: Locale): string => {
+  let text = `=== ${translate(locale, 'report.title').toUpperCase()} ===\n\n`;
+  text += `${translate(locale, 'report.period')}: ${formatReportPeriod(report, locale)}\n\n`;
+
+  report.categories.forEach(({ id: type, label }) => {
+    const groups = report.groups.filter(g => g.type === type);
+    if (groups.length === 0) return;
+
+    text += `\n${label}:\n`;
+    groups.forEach(group => {
+      text += `  ${group.name} (${group.unit}):\n`;
+      report.aggregations.forEach(fn => {
+        text += `    ${getAggregationLabel(fn, locale)}: ${formatReportValue(fn, group.values[fn], locale)}\n`;
+      });
+    });
   });
 
-  const [controller] = useState(() => {
-    const model = AnalyticsModel.loadFromStorage();
-    return new AnalyticsController(model);
+  text += '\n\n=== INSIGHTS ===\n';
+  report.insights.forEach(insight => {
+    text += `\n- ${formatLocalizedText(locale, insight.title)}: ${formatLocalizedText(locale, insight.description)}\n`;
+    if (insight.explanation) text += `  ${formatLocalizedText(locale, insight.explanation)}\n`;
   });
 
-  const [, setUpdateCount] = useState(0);
-  const forceUpdate = () => setUpdateCount(prev => prev + 1);
+  return text;
+};
+
+/**
+ * Raw entries of the period, one row per metric
+ */
+const renderReportCsv = (report: ReportData): string => {
+  const header = ['id', 'timestamp', 'date', 'type', 'name', 'value', 'unit', 'category'];
+  const rows = report.metrics.map(m => [
+    m.id,
+    m.timestamp,
+    new Date(m.timestamp).toISOString(),
+    m.type,
+    m.name,
+    m.value,
+    m.unit,
+    m.metadata?.category ?? '',
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
 
-  const [currentView, setCurrentView] = useState<string>('dashboard');
+const renderReportJson = (report: ReportData, locale: Locale): string =>
+  JSON.stringify(
+    {
+      period: {
+        start: new Date(report.start).toISOString(),
+        end: new Date(report.end).toISOString(),
+        timeZone: report.timeZone,
+      },
+      generatedAt: new Date(report.generatedAt).toISOString(),
+      bucket: report.period,
+      aggregations: report.aggregations,
+      totalEntries: report.metrics.length,
+      groups: report.groups,
+      insights: report.insights.map(({ title, description, explanation, ...insight }) => ({
+        ...insight,
+        title: formatLocalizedText(locale, title),
+        description: formatLocalizedText(locale, description),
+        ...(explanation ? { explanation: formatLocalizedText(locale, explanation) } : {}),
+      })),
+    },
+    null,
+    2
+  );
 
-  useEffect(() => {
-    const unsubscribe = controller.subscribe(() => {
-      forceUpdate();
+const renderReportMarkdown = (report: ReportData, locale: Locale): string => {
+  let md = `# ${translate(locale, 'report.title')}\n\n`;
+  md += `**${translate(locale, 'report.period')}:** ${formatReportPeriod(report, locale)}\n\n`;
+
+  report.categories.forEach(({ id: type, label, icon }) => {
+    const groups = report.groups.filter(g => g.type === type);
+    if (groups.length === 0) return;
+
+    md += `## ${escapeMarkdown(icon)} ${escapeMarkdown(label)}\n\n`;
+    md += `| ${translate(locale, 'report.metric')} | ${translate(locale, 'report.unit')} | ${report.aggregations.map(fn => getAggregationLabel(fn, locale)).join(' | ')} |\n`;
+    md += `|---|---|${report.aggregations.map(() => '---:').join('|')}|\n`;
+    groups.forEach(group => {
+      const values = report.aggregations.map(fn => formatReportValue(fn, group.values[fn], locale));
+      md += `| ${escapeMarkdown(group.name)} | ${escapeMarkdown(group.unit)} | ${values.join(' | ')} |\n`;
     });
-    return unsubscribe;
-  }, [controller]);
+    md += '\n';
+  });
 
-  useEffect(() => {
-    if (isClient) {
-      document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
-      StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, darkMode);
-    }
-  }, [darkMode]);
+  md += '## Insights\n\n';
+  report.insights.forEach(insight => {
+    const title = escapeMarkdown(formatLocalizedText(locale, insight.title));
+    md += `- **${title}**: ${escapeMarkdown(formatLocalizedText(locale, insight.description))}\n`;
+    if (insight.explanation) md += `  _${escapeMarkdown(formatLocalizedText(locale, insight.explanation))}_\n`;
+  });
 
-  const toggleTheme = () => setDarkMode(!darkMode);
+  return md;
+};
+
+/**
+ * Bar chart of a group's series as a standalone SVG string
+ */
+const renderSeriesSvg = (series: Record<string, number>, period: PeriodType, color: string, locale: Locale): string => {
+  const entries = Object.entries(series);
+  const width = 560;
+  const height = 160;
+  const chartHeight = height - 24;
+  const max = Math.max(...entries.map(([, v]) => v), 0) || 1;
+  const slot = width / Math.max(entries.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+  // Label at most ~12 buckets so the axis stays legible
+  const labelEvery = Math.ceil(entries.length / 12);
+
+  const bars = entries
+    .map(([key, value], i) => {
+      const barHeight = (Math.max(value, 0) / max) * (chartHeight - 4);
+      const x = i * slot + (slot - barWidth) / 2;
+      const label = i % labelEvery === 0
+        ? `<text x="${x + barWidth / 2}" y="${height - 6}" text-anchor="middle">${escapeHtml(formatBucketLabel(key, period, locale))}</text>`
+        : '';
+      return (
+        `<rect x="${x.toFixed(1)}" y="${(chartHeight - barHeight).toFixed(1)}" width="${barWidth.toFixed(1)}" ` +
+        `height="${barHeight.toFixed(1)}" fill="${color}"><title>${escapeHtml(key)}: ${formatNumber(locale, value)}</title></rect>${label}`
+      );
+    })
+    .join('');
 
   return (
-    <DashboardContext.Provider value={{ controller, forceUpdate }}>
-      <div className="app">
-        <Header
-          darkMode={darkMode}
-          toggleTheme={toggleTheme}
-          onNavigate={setCurrentView}
-          currentView={currentView}
-        />
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" height="${height}">` +
+    `<line x1="0" y1="${chartHeight}" x2="${width}" y2="${chartHeight}" stroke="#e2e8f0"/>${bars}</svg>`
+  );
+};
 
-        <main className="main-content">
-          {currentView === 'dashboard' && <DashboardView />}
-          {currentView === 'metrics' && <MetricsView />}
-          {currentView === 'insights' && <InsightsView />}
-          {currentView === 'reports' && <ReportsView />}
-        </main>
-      </div>
-    </DashboardContext.Provider>
+const renderReportHtml = (report: ReportData, locale: Locale): string => {
+  const sections = report.categories.map(({ id: type, label, icon, color }) => {
+    const groups = report.groups.filter(g => g.type === type);
+    if (groups.length === 0) return '';
+
+    const rows = groups
+      .map(group =>
+        `<tr><td>${escapeHtml(group.name)}</td><td>${escapeHtml(group.unit)}</td>` +
+        report.aggregations.map(fn => `<td class="num">${formatReportValue(fn, group.values[fn], locale)}</td>`).join('') +
+        '</tr>'
+      )
+      .join('');
+    const charts = groups
+      .map(group =>
+        `<figure><figcaption>${escapeHtml(group.name)} (${escapeHtml(group.unit)}) — ${translate(locale, 'report.chartCaption', { aggregation: getAggregationLabel(group.seriesAggregation, locale) })}</figcaption>` +
+        `${renderSeriesSvg(group.series, report.period, color, locale)}</figure>`
+      )
+      .join('');
+
+    return (
+      `<section><h2>${escapeHtml(icon)} ${escapeHtml(label)}</h2><table><thead><tr>` +
+      `<th>${translate(locale, 'report.metric')}</th><th>${translate(locale, 'report.unit')}</th>` +
+      report.aggregations.map(fn => `<th class="num">${escapeHtml(getAggregationLabel(fn, locale))}</th>`).join('') +
+      `</tr></thead><tbody>${rows}</tbody></table>${charts}</section>`
+    );
+  }).join('');
+
+  const insights = report.insights
+    .map(i =>
+      `<li class="${i.type}"><strong>${escapeHtml(formatLocalizedText(locale, i.title))}</strong>: ` +
+      escapeHtml(formatLocalizedText(locale, i.description)) +
+      (i.explanation ? `<br><small>${escapeHtml(formatLocalizedText(locale, i.explanation))}</small>` : '') +
+      '</li>'
+    )
+    .join('');
+
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="UTF-8" />
+<title>${translate(locale, 'report.title')}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.25rem; margin-top: 2rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.25rem; }
+table { width: 100%; border-collapse: collapse; margin: 1rem 0; font-size: 0.9rem; }
+th, td { padding: 0.4rem 0.6rem; border-bottom: 1px solid #e2e8f0; text-align: left; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+figure { margin: 1rem 0; }
+figcaption { font-size: 0.85rem; color: #64748b; margin-bottom: 0.25rem; }
+svg text { font-size: 10px; fill: #64748b; }
+.period { color: #64748b; }
+li { margin-bottom: 0.5rem; }
+li.success { color: #047857; }
+li.warning { color: #b45309; }
+@media print { body { margin: 0; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${translate(locale, 'report.title')}</h1>
+<p class="period">${translate(locale, 'report.period')}: ${formatReportPeriod(report, locale)} · ${translatePlural(locale, 'report.entries', report.metrics.length)}</p>
+${sections}
+<section><h2>Insights</h2><ul>${insights}</ul></section>
+</body>
+</html>
+`;
+};
+
+/**
+ * Minimal PDF writer: A4 pages of Helvetica text, no external dependencies.
+ * Text is encoded as WinAnsi, so characters outside Latin-1 are dropped.
+ */
+const renderTextPdf = (lines: { text: string; bold?: boolean }[]): Uint8Array => {
+  const LINES_PER_PAGE = 54;
+  const MAX_CHARS = 95;
+
+  const encode = (text: string) =>
+    text
+      .replace(/[—–]/g, '-')
+      .replace(/[^\x20-\xff]/gu, '')
+      .replace(/([\\()])/g, '\\$1');
+
+  // Wrap long lines, keeping the indentation of the original line
+  const wrapped = lines.flatMap(line => {
+    const indent = line.text.match(/^\s*/)![0];
+    const parts: string[] = [];
+    let rest = line.text;
+    while (rest.length > MAX_CHARS) {
+      const cut = rest.lastIndexOf(' ', MAX_CHARS) > indent.length ? rest.lastIndexOf(' ', MAX_CHARS) : MAX_CHARS;
+      parts.push(rest.slice(0, cut));
+      rest = indent + rest.slice(cut).trimStart();
+    }
+    parts.push(rest);
+    return parts.map(text => ({ text, bold: line.bold }));
+  });
+
+  const pages: (typeof wrapped)[] = [];
+  for (let i = 0; i < wrapped.length; i += LINES_PER_PAGE) pages.push(wrapped.slice(i, i + LINES_PER_PAGE));
+  if (pages.length === 0) pages.push([]);
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((pageLines, i) => {
+    const body = pageLines
+      .map(line => `/${line.bold ? 'F2' : 'F1'} 10 Tf (${encode(line.text)}) Tj T*`)
+      .join('\n');
+    const stream = `BT\n14 TL\n50 792 Td\n${body}\nET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // Every character is in the 0-255 range, so one char is one byte
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+};
+
+const renderReportPdf = (report: ReportData, locale: Locale): Uint8Array =>
+  renderTextPdf(
+    renderReportText(report, locale)
+      .split('\n')
+      .map(text => ({ text, bold: text.startsWith('===') || /^\S.*:$/.test(text) }))
   );
+
+/**
+ * Render a report in any export format
+ */
+const renderReport = (report: ReportData, format: ReportFormat, locale: Locale = DEFAULT_LOCALE): ReportExport => {
+  const { mimeType } = REPORT_FORMATS.find(f => f.value === format)!;
+  const renderers: Record<ReportFormat, (report: ReportData, locale: Locale) => string | Uint8Array> = {
+    txt: renderReportText,
+    csv: renderReportCsv,
+    json: renderReportJson,
+    md: renderReportMarkdown,
+    html: renderReportHtml,
+    pdf: renderReportPdf,
+  };
+  return {
+    content: renderers[format](report, locale),
+    mimeType,
+    extension: format,
+    filename: `${translate(locale, 'report.filename')}.${format}`,
+  };
 };
 
 // ============================================================================
-// STYLES
+// INSIGHT RULES
 // ============================================================================
 
-const APP_STYLES = `
-:root {
-  --primary: #3b82f6;
-  --primary-dark: #2563eb;
-  --success: #10b981;
-  --danger: #ef4444;
-  --warning: #f59e0b;
-  --info: #06b6d4;
-  
-  --bg: #f8fafc;
-  --surface: #ffffff;
-  --card-bg: #ffffff;
-  --text: #0f172a;
-  --text-secondary: #64748b;
-  --border: #e2e8f0;
-  --shadow: rgba(0, 0, 0, 0.1);
-  --shadow-lg: rgba(0, 0, 0, 0.15);
-  
-  --header-bg: #ffffff;
-  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
-}
+/**
+ * Entries of one metric name with their daily values, as seen by insight rules
+ */
+interface InsightSeries {
+  metricType: MetricType;
+  name: string;
+  unit: string;
+  aggregation: AggregationFn;
+  higherIsBetter: boolean;
+  // Oldest first
+  metrics: Metric[];
+  // Value per day (getBucketKey 'day'), reduced with the definition's aggregation
+  daily: Map<string, number>;
+}
+
+interface InsightContext {
+  now: number;
+  // Day key (see getBucketKey) of `now` in the user's time zone
+  today: string;
+  settings: DashboardSettings;
+  // One per metric name of the active categories, skipping names logged in several units
+  series: InsightSeries[];
+  goals: GoalProgress[];
+}
+
+/**
+ * Insight produced by a rule. `key` identifies what it is about (e.g. the
+ * metric name) among the insights of the same rule.
+ */
+type InsightDraft = Pick<Insight, 'title' | 'description' | 'explanation' | 'type' | 'severity' | 'metricType'> & {
+  key: string;
+};
+
+/**
+ * A check run over the data every time insights are regenerated
+ */
+interface InsightRule {
+  id: string;
+  label: string;
+  evaluate: (context: InsightContext) => InsightDraft[];
+}
+
+const INSIGHT_SEVERITIES: { value: InsightSeverity; labelKey: MessageKey }[] = [
+  { value: 'low', labelKey: 'severity.low' },
+  { value: 'medium', labelKey: 'severity.medium' },
+  { value: 'high', labelKey: 'severity.high' },
+];
+
+/**
+ * Translated label of a built-in rule, or the label a registered rule brings
+ */
+const getInsightRuleLabel = (rule: InsightRule, locale: Locale): string => {
+  const key = `insightRule.${rule.id}`;
+  return key in MESSAGES[locale] ? translate(locale, key as MessageKey) : rule.label;
+};
+
+const INSIGHT_SEVERITY_RANK: Record<InsightSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+const INSIGHT_BASELINE_DAYS = 60;
+
+// Inactive insights kept in the history
+const INSIGHT_HISTORY_LIMIT = 200;
+
+const getSeriesKey = (series: InsightSeries): string => `${series.metricType}_${slugify(series.name)}`;
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const standardDeviation = (values: number[]): number => {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Pearson correlation coefficient, NaN when either side is constant
+ */
+const pearson = (xs: number[], ys: number[]): number => {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+/**
+ * Day key `offset` days before today
+ */
+const getDayKey = (today: string, offset: number): string => shiftDayKey(today, -offset);
+
+/**
+ * The latest day of a series if it is today or yesterday, so rules only
+ * comment on fresh data
+ */
+const getRecentDay = (series: InsightSeries, today: string): { key: string; value: number } | null => {
+  for (const offset of [0, 1]) {
+    const key = getDayKey(today, offset);
+    const value = series.daily.get(key);
+    if (value !== undefined) return { key, value };
+  }
+  return null;
+};
+
+/**
+ * Number of consecutive days with entries ending `offset` days before today
+ */
+const countLoggedDays = (series: InsightSeries, today: string, offset: number): number => {
+  let days = 0;
+  while (series.daily.has(getDayKey(today, offset + days))) days++;
+  return days;
+};
+
+const goalInsightRule: InsightRule = {
+  id: 'goals',
+  label: 'Metas',
+  evaluate: ({ goals, settings: { timeZone } }) =>
+    goals.flatMap(({ goal, current, history, unit, streak, bestStreak }) => {
+      const insights: InsightDraft[] = [];
+      const target: LocalizedText = {
+        key: goal.direction === 'at-least' ? 'insightText.goals.atLeast' : 'insightText.goals.atMost',
+        params: { value: { value: goal.target, unit } },
+      };
+      const last = history.at(-1);
+
+      if (last) {
+        const period: LocalizedParam =
+          goal.period === 'day'
+            ? { date: last.start, timeZone }
+            : { key: 'range.custom', params: { start: { date: last.start, timeZone }, end: { date: last.end, timeZone } } };
+        const value = { value: last.value, unit };
+        insights.push({
+          key: `${goal.id}_${last.achieved ? 'achieved' : 'missed'}`,
+          title: {
+            key: last.achieved ? 'insightText.goals.achievedTitle' : 'insightText.goals.missedTitle',
+            params: { goal: goal.title },
+          },
+          description: { key: 'insightText.goals.resultDescription', params: { period, value, target } },
+          explanation: { key: 'insightText.goals.resultExplanation', params: { value, target } },
+          type: last.achieved ? 'positive' : 'negative',
+          severity: last.achieved ? 'low' : 'medium',
+          metricType: goal.metricType,
+        });
+      }
+
+      if (goal.direction === 'at-least' && current.achieved) {
+        insights.push({
+          key: `${goal.id}_current`,
+          title: { key: 'insightText.goals.reachedTitle', params: { goal: goal.title } },
+          description: {
+            key: 'insightText.goals.reachedDescription',
+            params: { value: { value: current.value, unit }, period: { periodNoun: goal.period, count: 1 }, target },
+          },
+          explanation: {
+            key: 'insightText.goals.reachedExplanation',
+            params: { value: { value: current.value, unit }, target: { value: goal.target, unit } },
+          },
+          type: 'positive',
+          severity: 'low',
+          metricType: goal.metricType,
+        });
+      } else if (goal.direction === 'at-most' && !current.achieved) {
+        insights.push({
+          key: `${goal.id}_exceeded`,
+          title: { key: 'insightText.goals.exceededTitle', params: { goal: goal.title } },
+          description: { key: 'insightText.goals.exceededDescription', params: { value: { value: current.value, unit }, target } },
+          explanation: {
+            key: 'insightText.goals.exceededExplanation',
+            params: { value: { value: current.value, unit }, excess: { value: current.value - goal.target, unit } },
+          },
+          type: 'negative',
+          severity: 'high',
+          metricType: goal.metricType,
+        });
+      }
+
+      if (streak >= 3) {
+        insights.push({
+          key: `${goal.id}_streak`,
+          title: {
+            key: 'insightText.goals.streakTitle',
+            params: { count: streak, periods: { periodNoun: goal.period, count: streak } },
+          },
+          description: {
+            key: 'insightText.goals.streakDescription',
+            params: { goal: goal.title, count: streak, periods: { periodNoun: goal.period, count: streak } },
+          },
+          explanation: { key: 'insightText.goals.streakExplanation', params: { count: streak, best: bestStreak } },
+          type: 'positive',
+          severity: 'low',
+          metricType: goal.metricType,
+        });
+      }
+      return insights;
+    }),
+};
+
+/**
+ * Last 7 days against the 7 days before, per metric name
+ */
+const weekOverWeekInsightRule: InsightRule = {
+  id: 'week-over-week',
+  label: 'Variação semanal',
+  evaluate: ({ series, now }) =>
+    series.flatMap(s => {
+      const current = s.metrics.filter(m => m.timestamp > now - 7 * DAY_MS && m.timestamp <= now);
+      const previous = s.metrics.filter(m => m.timestamp > now - 14 * DAY_MS && m.timestamp <= now - 7 * DAY_MS);
+      if (current.length === 0 || previous.length === 0) return [];
+
+      const currentValue = aggregateValues(current.map(m => m.value), s.aggregation);
+      const previousValue = aggregateValues(previous.map(m => m.value), s.aggregation);
+      if (previousValue === 0) return [];
+
+      const changePercent = ((currentValue - previousValue) / Math.abs(previousValue)) * 100;
+      if (Math.abs(changePercent) < 10) return [];
+
+      const rising = changePercent > 0;
+      const good = rising === s.higherIsBetter;
+      const percent = Math.round(Math.abs(changePercent));
+      const description: LocalizedText = {
+        key: rising ? 'insightText.weekOverWeek.upDescription' : 'insightText.weekOverWeek.downDescription',
+        params: { name: s.name.toLowerCase(), percent },
+      };
+      return [{
+        key: `${getSeriesKey(s)}_${rising ? 'up' : 'down'}`,
+        title: { key: rising ? 'insightText.weekOverWeek.upTitle' : 'insightText.weekOverWeek.downTitle', params: { name: s.name } },
+        description: s.higherIsBetter
+          ? description
+          : {
+              key: 'insightText.withRemark',
+              params: {
+                text: description,
+                remark: { key: good ? 'insightText.weekOverWeek.goodRemark' : 'insightText.weekOverWeek.badRemark' },
+              },
+            },
+        explanation: {
+          key: 'insightText.weekOverWeek.explanation',
+          params: {
+            aggregation: { aggregation: s.aggregation },
+            current: { value: currentValue, unit: s.unit },
+            previous: { value: previousValue, unit: s.unit },
+            sign: rising ? '+' : '−',
+            percent,
+          },
+        },
+        type: good ? 'positive' : 'negative',
+        severity: Math.abs(changePercent) >= 50 ? 'high' : Math.abs(changePercent) >= 25 ? 'medium' : 'low',
+        metricType: s.metricType,
+      }];
+    }),
+};
+
+/**
+ * Latest day far from the usual daily values: both more than 2 standard
+ * deviations from the mean and outside the 1.5×IQR fences
+ */
+const anomalyInsightRule: InsightRule = {
+  id: 'anomaly',
+  label: 'Anomalias',
+  evaluate: ({ series, today }) =>
+    series.flatMap(s => {
+      const recent = getRecentDay(s, today);
+      if (!recent) return [];
+
+      const since = getDayKey(today, INSIGHT_BASELINE_DAYS);
+      const baseline = [...s.daily].filter(([key]) => key >= since && key < recent.key).map(([, value]) => value);
+      if (baseline.length < 10) return [];
+
+      const avg = mean(baseline);
+      const deviation = standardDeviation(baseline);
+      if (deviation === 0) return [];
+
+      const zScore = (recent.value - avg) / deviation;
+      const sorted = [...baseline].sort((a, b) => a - b);
+      const q1 = percentile(sorted, 25);
+      const q3 = percentile(sorted, 75);
+      const lowFence = q1 - 1.5 * (q3 - q1);
+      const highFence = q3 + 1.5 * (q3 - q1);
+      if (Math.abs(zScore) < 2 || (recent.value >= lowFence && recent.value <= highFence)) return [];
+
+      const above = zScore > 0;
+      return [{
+        key: `${getSeriesKey(s)}_${recent.key}`,
+        title: { key: 'insightText.anomaly.title', params: { name: s.name } },
+        description: {
+          key: above ? 'insightText.anomaly.aboveDescription' : 'insightText.anomaly.belowDescription',
+          params: { value: { value: recent.value, unit: s.unit }, day: { day: recent.key } },
+        },
+        explanation: {
+          key: 'insightText.anomaly.explanation',
+          params: {
+            days: INSIGHT_BASELINE_DAYS,
+            average: { value: avg, unit: s.unit },
+            deviation,
+            z: zScore,
+            low: lowFence,
+            high: highFence,
+          },
+        },
+        type: above === s.higherIsBetter ? 'positive' : 'negative',
+        severity: Math.abs(zScore) >= 3 ? 'high' : 'medium',
+        metricType: s.metricType,
+      }];
+    }),
+};
+
+/**
+ * Latest day beating every earlier day (lowest when lower is better)
+ */
+const personalRecordInsightRule: InsightRule = {
+  id: 'personal-record',
+  label: 'Recordes pessoais',
+  evaluate: ({ series, today }) =>
+    series.flatMap(s => {
+      const recent = getRecentDay(s, today);
+      if (!recent) return [];
+
+      const earlier = [...s.daily].filter(([key]) => key < recent.key);
+      if (earlier.length < 14) return [];
+
+      const [bestKey, bestValue] = earlier.reduce((best, day) =>
+        (s.higherIsBetter ? day[1] > best[1] : day[1] < best[1]) ? day : best
+      );
+      if (s.higherIsBetter ? recent.value <= bestValue : recent.value >= bestValue) return [];
+
+      return [{
+        key: `${getSeriesKey(s)}_${recent.key}`,
+        title: { key: 'insightText.personalRecord.title', params: { name: s.name } },
+        description: {
+          key: 'insightText.personalRecord.description',
+          params: { value: { value: recent.value, unit: s.unit }, day: { day: recent.key } },
+        },
+        explanation: {
+          key: 'insightText.personalRecord.explanation',
+          params: { value: { value: bestValue, unit: s.unit }, day: { day: bestKey }, days: earlier.length },
+        },
+        type: 'positive',
+        severity: 'medium',
+        metricType: s.metricType,
+      }];
+    }),
+};
+
+/**
+ * Strongest daily correlations between metrics of different categories
+ * (e.g. sleep vs productivity)
+ */
+const correlationInsightRule: InsightRule = {
+  id: 'correlation',
+  label: 'Correlações',
+  evaluate: ({ series, today }) => {
+    const since = getDayKey(today, INSIGHT_BASELINE_DAYS);
+    const pairs: { a: InsightSeries; b: InsightSeries; r: number; days: number }[] = [];
+
+    series.forEach((a, i) => {
+      series.slice(i + 1).forEach(b => {
+        if (a.metricType === b.metricType) return;
+        const days = [...a.daily.keys()].filter(key => key >= since && b.daily.has(key));
+        if (days.length < 14) return;
+        const r = pearson(days.map(key => a.daily.get(key)!), days.map(key => b.daily.get(key)!));
+        if (Math.abs(r) >= 0.5) pairs.push({ a, b, r, days: days.length });
+      });
+    });
+
+    return pairs
+      .sort((x, y) => Math.abs(y.r) - Math.abs(x.r))
+      .slice(0, 3)
+      .map(({ a, b, r, days }): InsightDraft => ({
+        key: `${getSeriesKey(a)}_${getSeriesKey(b)}`,
+        title: { key: 'insightText.correlation.title', params: { a: a.name, b: b.name } },
+        description: {
+          key: r > 0 ? 'insightText.correlation.positiveDescription' : 'insightText.correlation.negativeDescription',
+          params: { a: a.name.toLowerCase(), b: b.name.toLowerCase() },
+        },
+        explanation: { key: 'insightText.correlation.explanation', params: { r, days, window: INSIGHT_BASELINE_DAYS } },
+        type: 'neutral',
+        severity: Math.abs(r) >= 0.7 ? 'medium' : 'low',
+        metricType: a.metricType,
+      }));
+  },
+};
+
+/**
+ * Distinct consecutive days with entries, up to today or yesterday
+ */
+const consistencyInsightRule: InsightRule = {
+  id: 'consistency',
+  label: 'Consistência',
+  evaluate: ({ series, today, settings }) =>
+    series.flatMap(s => {
+      const offset = s.daily.has(getDayKey(today, 0)) ? 0 : 1;
+      const days = countLoggedDays(s, today, offset);
+      if (days < 6) return [];
+
+      const first = getDayKey(today, offset + days - 1);
+      const entries = s.metrics.filter(m => getBucketKey(m.timestamp, 'day', settings) >= first).length;
+      return [{
+        key: getSeriesKey(s),
+        title: { key: 'insightText.consistency.title' },
+        description: { key: 'insightText.consistency.description', params: { name: s.name.toLowerCase(), days } },
+        explanation: {
+          key: 'insightText.consistency.explanation',
+          params: { entries, days, start: { day: first }, end: { day: getDayKey(today, offset) } },
+        },
+        type: 'positive',
+        severity: 'low',
+        metricType: s.metricType,
+      }];
+    }),
+};
+
+/**
+ * Logging streaks of at least 5 days with no entry since yesterday, and
+ * goal streaks of at least 3 periods ended by a miss
+ */
+const streakBreakInsightRule: InsightRule = {
+  id: 'streak-break',
+  label: 'Sequências interrompidas',
+  evaluate: ({ series, goals, today, settings: { timeZone } }) => {
+    const logging = series.flatMap((s): InsightDraft[] => {
+      if (s.daily.has(getDayKey(today, 0)) || s.daily.has(getDayKey(today, 1))) return [];
+      const lastOffset = [2, 3, 4, 5, 6, 7].find(offset => s.daily.has(getDayKey(today, offset)));
+      if (lastOffset === undefined) return [];
+
+      const days = countLoggedDays(s, today, lastOffset);
+      if (days < 5) return [];
+
+      const lastKey = getDayKey(today, lastOffset);
+      return [{
+        key: `${getSeriesKey(s)}_${lastKey}`,
+        title: { key: 'insightText.streakBreak.title', params: { name: s.name } },
+        description: {
+          key: 'insightText.streakBreak.loggingDescription',
+          params: { name: s.name.toLowerCase(), days, day: { day: lastKey } },
+        },
+        explanation: {
+          key: 'insightText.streakBreak.loggingExplanation',
+          params: { days, day: { day: lastKey }, gap: lastOffset - 1 },
+        },
+        type: 'negative',
+        severity: 'medium',
+        metricType: s.metricType,
+      }];
+    });
+
+    const goalStreaks = goals.flatMap(({ goal, history }): InsightDraft[] => {
+      const last = history.at(-1);
+      if (!last || last.achieved) return [];
+
+      let before = 0;
+      while (before < history.length - 1 && history[history.length - 2 - before].achieved) before++;
+      if (before < 3) return [];
+
+      return [{
+        key: `${goal.id}_${last.start}`,
+        title: { key: 'insightText.streakBreak.title', params: { name: goal.title } },
+        description: {
+          key: 'insightText.streakBreak.goalDescription',
+          params: { date: { date: last.end, timeZone }, count: before, periods: { periodNoun: goal.period, count: before } },
+        },
+        explanation: {
+          key: 'insightText.streakBreak.goalExplanation',
+          params: { count: before, value: last.value, target: goal.target },
+        },
+        type: 'negative',
+        severity: 'high',
+        metricType: goal.metricType,
+      }];
+    });
+
+    return [...goalStreaks, ...logging];
+  },
+};
+
+/**
+ * Rules every model starts with; more can be added with registerInsightRule
+ */
+const DEFAULT_INSIGHT_RULES: InsightRule[] = [
+  goalInsightRule,
+  weekOverWeekInsightRule,
+  anomalyInsightRule,
+  personalRecordInsightRule,
+  correlationInsightRule,
+  consistencyInsightRule,
+  streakBreakInsightRule,
+];
+
+// ============================================================================
+// MODEL LAYER
+// ============================================================================
+
+/**
+ * Analytics Model - Handles data structure and business logic
+ */
+class AnalyticsModel {
+  private settings: DashboardSettings;
+  private categories: Category[];
+  private definitions: MetricDefinition[];
+  private goals: Goal[];
+  private alertRules: AlertRule[];
+  private notifications: AlertNotification[];
+  private metrics: Metric[];
+  private widgets: Widget[];
+  private insights: Insight[];
+  private insightRules: InsightRule[] = [...DEFAULT_INSIGHT_RULES];
+  private storage: StorageBackend;
+
+  constructor(initialData?: DashboardData, storage: StorageBackend = StorageService.getDashboardBackend()) {
+    this.settings = initialData?.settings || getDefaultSettings();
+    this.categories = initialData?.categories || [...DEFAULT_CATEGORIES];
+    this.definitions = initialData?.definitions || [...DEFAULT_DEFINITIONS];
+    this.goals = initialData?.goals || [];
+    this.alertRules = initialData?.alertRules || [];
+    this.notifications = initialData?.notifications || [];
+    this.metrics = initialData?.metrics || generateSampleMetrics();
+    this.widgets = initialData?.widgets || [...DEFAULT_WIDGETS];
+    this.insights = initialData?.insights || [];
+    if (!initialData) this.refreshInsights();
+    this.storage = storage;
+  }
+
+  // ==================== SETTINGS ====================
+
+  getSettings(): DashboardSettings {
+    return this.settings;
+  }
+
+  /**
+   * Change the time zone or week start. Day and week boundaries move with
+   * them, so the insights are regenerated.
+   */
+  updateSettings(updates: Partial<DashboardSettings>): DashboardSettings {
+    this.settings = { ...this.settings, ...updates };
+    this.refreshInsights();
+    return this.settings;
+  }
+
+  // ==================== CATEGORY OPERATIONS ====================
+
+  getCategories(includeArchived = false): Category[] {
+    return this.categories.filter(c => includeArchived || !c.archived);
+  }
+
+  getCategory(id: MetricType): Category | undefined {
+    return this.categories.find(c => c.id === id);
+  }
+
+  addCategory(category: Omit<Category, 'id' | 'archived'>): Category {
+    const base = slugify(category.label) || 'categoria';
+    let id = base;
+    for (let n = 2; this.getCategory(id); n++) id = `${base}-${n}`;
+
+    const newCategory: Category = { ...category, id };
+    this.categories.push(newCategory);
+    return newCategory;
+  }
+
+  updateCategory(id: MetricType, updates: Partial<Omit<Category, 'id'>>): Category | null {
+    const index = this.categories.findIndex(c => c.id === id);
+    if (index === -1) return null;
+
+    this.categories[index] = { ...this.categories[index], ...updates };
+    if ('archived' in updates) this.refreshInsights();
+    return this.categories[index];
+  }
+
+  /**
+   * Delete a category. Its metrics and widgets move to `reassignTo` when
+   * given, otherwise they are deleted along with it.
+   */
+  deleteCategory(id: MetricType, reassignTo?: MetricType): boolean {
+    if (!this.getCategory(id) || id === reassignTo) return false;
+
+    if (reassignTo && this.getCategory(reassignTo)) {
+      this.metrics = this.metrics.map(m => (m.type === id ? { ...m, type: reassignTo } : m));
+      this.widgets = this.widgets.map(w => (w.metricType === id ? { ...w, metricType: reassignTo } : w));
+      this.goals = this.goals.map(g => (g.metricType === id ? { ...g, metricType: reassignTo } : g));
+      this.alertRules = this.alertRules.map(r => (r.metricType === id ? { ...r, metricType: reassignTo } : r));
+      // Definitions whose name already exists in the target merge into it
+      this.definitions = this.definitions
+        .filter(d => d.category !== id || !findDefinition(this.definitions, reassignTo, d.name))
+        .map(d => (d.category === id ? { ...d, category: reassignTo } : d));
+    } else {
+      this.metrics = this.metrics.filter(m => m.type !== id);
+      this.widgets = this.widgets.filter(w => w.metricType !== id);
+      this.definitions = this.definitions.filter(d => d.category !== id);
+      this.goals = this.goals.filter(g => g.metricType !== id);
+      this.alertRules = this.alertRules.filter(r => r.metricType !== id);
+    }
+    this.categories = this.categories.filter(c => c.id !== id);
+    this.refreshInsights();
+    return true;
+  }
+
+  // ==================== DEFINITION OPERATIONS ====================
+
+  getDefinitions(category?: MetricType): MetricDefinition[] {
+    return this.definitions.filter(d => !category || d.category === category);
+  }
+
+  getDefinition(id: string): MetricDefinition | undefined {
+    return this.definitions.find(d => d.id === id);
+  }
+
+  findDefinition(category: MetricType, name: string): MetricDefinition | undefined {
+    return findDefinition(this.definitions, category, name);
+  }
+
+  hasDefinitionEntries(id: string): boolean {
+    return this.metrics.some(m => this.findDefinition(m.type, m.name)?.id === id);
+  }
+
+  addDefinition(definition: Omit<MetricDefinition, 'id'>): MetricDefinition {
+    const newDefinition: MetricDefinition = {
+      ...definition,
+      id: `definition_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    };
+    this.definitions.push(newDefinition);
+    return newDefinition;
+  }
+
+  /**
+   * Update a definition. Renames and category moves carry over to the
+   * metrics recorded under it and to widgets, goals and alert rules that target it by name.
+   * A new unit converts those metrics, goal targets and alert thresholds by `unitFactor`.
+   */
+  updateDefinition(id: string, updates: Partial<Omit<MetricDefinition, 'id'>>, unitFactor = 1): MetricDefinition | null {
+    const index = this.definitions.findIndex(d => d.id === id);
+    if (index === -1) return null;
+
+    const previous = this.definitions[index];
+    const updated = { ...previous, ...updates };
+    this.definitions[index] = updated;
+
+    const renamed = updated.name !== previous.name || updated.category !== previous.category;
+    const unitChanged = updated.unit !== previous.unit;
+    if (renamed || unitChanged) {
+      const matches = (type: MetricType, name: string) =>
+        type === previous.category && slugify(name) === slugify(previous.name);
+      // Counts are not in the metric's unit and stay as they are
+      const convert = (value: number, aggregation?: AggregationFn) =>
+        unitChanged && (aggregation ?? updated.aggregation) !== 'count'
+          ? Number((value * unitFactor).toFixed(updated.precision))
+          : value;
+
+      this.metrics = this.metrics.map(m =>
+        matches(m.type, m.name)
+          ? { ...m, name: updated.name, type: updated.category, unit: updated.unit, value: convert(m.value, 'sum') }
+          : m
+      );
+      this.widgets = this.widgets.map(w =>
+        w.metricType === previous.category && w.config.metricNames?.some(n => matches(w.metricType, n))
+          ? {
+              ...w,
+              config: {
+                ...w.config,
+                metricNames: w.config.metricNames.map((n: string) => (matches(w.metricType, n) ? updated.name : n)),
+              },
+            }
+          : w
+      );
+      this.goals = this.goals.map(g =>
+        g.metricName && matches(g.metricType, g.metricName)
+          ? { ...g, metricType: updated.category, metricName: updated.name, target: convert(g.target, g.aggregation) }
+          : g
+      );
+      this.alertRules = this.alertRules.map(r =>
+        r.metricName && matches(r.metricType, r.metricName)
+          ? {
+              ...r,
+              metricType: updated.category,
+              metricName: updated.name,
+              condition:
+                r.condition.kind === 'threshold'
+                  ? { ...r.condition, value: convert(r.condition.value, r.aggregation) }
+                  : r.condition,
+            }
+          : r
+      );
+    }
+
+    this.refreshInsights();
+    return updated;
+  }
+
+  /**
+   * Remove a definition from the registry. Metrics already recorded under it are kept.
+   */
+  deleteDefinition(id: string): boolean {
+    const initialLength = this.definitions.length;
+    this.definitions = this.definitions.filter(d => d.id !== id);
+    return this.definitions.length < initialLength;
+  }
+
+  /**
+   * Aggregation to use when a query does not name one: the definition's
+   * default when the query targets a single metric name
+   */
+  getDefaultAggregation(type: MetricType, metricNames?: string[], fallback: AggregationFn = 'sum'): AggregationFn {
+    if (metricNames?.length !== 1) return fallback;
+    return this.findDefinition(type, metricNames[0])?.aggregation ?? fallback;
+  }
+
+  // ==================== GOAL OPERATIONS ====================
+
+  getGoals(): Goal[] {
+    return [...this.goals];
+  }
+
+  getGoal(id: string): Goal | undefined {
+    return this.goals.find(g => g.id === id);
+  }
+
+  addGoal(goal: Omit<Goal, 'id' | 'createdAt'>): Goal {
+    const newGoal: Goal = {
+      ...goal,
+      id: `goal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+    };
+    this.goals.push(newGoal);
+    this.refreshInsights();
+    return newGoal;
+  }
+
+  updateGoal(id: string, updates: Partial<Omit<Goal, 'id' | 'createdAt'>>): Goal | null {
+    const index = this.goals.findIndex(g => g.id === id);
+    if (index === -1) return null;
+
+    this.goals[index] = { ...this.goals[index], ...updates };
+    this.refreshInsights();
+    return this.goals[index];
+  }
+
+  /**
+   * Delete a goal, unlinking the progress widgets that followed it
+   */
+  deleteGoal(id: string): boolean {
+    const initialLength = this.goals.length;
+    this.goals = this.goals.filter(g => g.id !== id);
+    if (this.goals.length === initialLength) return false;
+
+    this.widgets = this.widgets.map(({ config: { goalId, ...config }, ...w }) =>
+      goalId === id ? { ...w, config } : { ...w, config: goalId !== undefined ? { ...config, goalId } : config }
+    );
+    this.refreshInsights();
+    return true;
+  }
+
+  /**
+   * Progress of a goal in the period in progress, plus every completed period
+   * since its first entry and the streak of consecutive periods that met it.
+   * The period in progress joins the streak once it meets an at-least target;
+   * an at-most target is only settled when its period ends.
+   */
+  getGoalProgress(id: string, now: number = Date.now()): GoalProgress | null {
+    const goal = this.getGoal(id);
+    if (!goal) return null;
+
+    const metricNames = goal.metricName ? [goal.metricName] : undefined;
+    const aggregation = goal.aggregation ?? this.getDefaultAggregation(goal.metricType, metricNames);
+    const metrics = this.queryMetrics(goal.metricType, { metricNames }).filter(m => m.timestamp <= now);
+    const unit = this.assertSingleUnit(metrics, aggregation);
+
+    const buckets = new Map<number, number[]>();
+    metrics.forEach(m => {
+      const { start } = getPeriodBounds(m.timestamp, goal.period, this.settings);
+      const bucket = buckets.get(start);
+      if (bucket) bucket.push(m.value);
+      else buckets.set(start, [m.value]);
+    });
+
+    const evaluate = (bounds: { start: number; end: number }): GoalPeriodResult => {
+      const value = aggregateValues(buckets.get(bounds.start) ?? [], aggregation);
+      const achieved = goal.direction === 'at-least' ? value >= goal.target : value <= goal.target;
+      return { ...bounds, value, achieved };
+    };
+
+    const current = evaluate(getPeriodBounds(now, goal.period, this.settings));
+    const history: GoalPeriodResult[] = [];
+    if (metrics.length > 0) {
+      for (
+        let bounds = getPeriodBounds(metrics[0].timestamp, goal.period, this.settings);
+        bounds.start < current.start;
+        bounds = getPeriodBounds(bounds.end + 1, goal.period, this.settings)
+      ) {
+        history.push(evaluate(bounds));
+      }
+    }
+
+    let streak = 0;
+    let bestStreak = 0;
+    [...history, ...(goal.direction === 'at-least' && current.achieved ? [current] : [])].forEach(result => {
+      streak = result.achieved ? streak + 1 : 0;
+      bestStreak = Math.max(bestStreak, streak);
+    });
+
+    const percent = goal.target !== 0 ? (current.value / goal.target) * 100 : 0;
+    return { goal, current, percent, unit, aggregation, history, streak, bestStreak };
+  }
+
+  // ==================== ALERT OPERATIONS ====================
+
+  getAlertRules(): AlertRule[] {
+    return [...this.alertRules];
+  }
+
+  getAlertRule(id: string): AlertRule | undefined {
+    return this.alertRules.find(r => r.id === id);
+  }
+
+  addAlertRule(rule: Omit<AlertRule, 'id' | 'createdAt' | 'enabled'> & { enabled?: boolean }): AlertRule {
+    const newRule: AlertRule = {
+      ...rule,
+      enabled: rule.enabled ?? true,
+      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+    };
+    this.alertRules.push(newRule);
+    return newRule;
+  }
+
+  updateAlertRule(id: string, updates: Partial<Omit<AlertRule, 'id' | 'createdAt'>>): AlertRule | null {
+    const index = this.alertRules.findIndex(r => r.id === id);
+    if (index === -1) return null;
+
+    this.alertRules[index] = { ...this.alertRules[index], ...updates };
+    return this.alertRules[index];
+  }
+
+  /**
+   * Delete an alert rule. Notifications it already raised are kept.
+   */
+  deleteAlertRule(id: string): boolean {
+    const initialLength = this.alertRules.length;
+    this.alertRules = this.alertRules.filter(r => r.id !== id);
+    return this.alertRules.length < initialLength;
+  }
+
+  /**
+   * Notifications, newest first
+   */
+  getNotifications(unreadOnly = false): AlertNotification[] {
+    return this.notifications
+      .filter(n => !unreadOnly || !n.read)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  markNotificationRead(id: string, read = true): AlertNotification | null {
+    const index = this.notifications.findIndex(n => n.id === id);
+    if (index === -1) return null;
+
+    this.notifications[index] = { ...this.notifications[index], read };
+    return this.notifications[index];
+  }
+
+  markAllNotificationsRead(): number {
+    const unread = this.notifications.filter(n => !n.read).length;
+    this.notifications = this.notifications.map(n => (n.read ? n : { ...n, read: true }));
+    return unread;
+  }
+
+  /**
+   * Check a rule against the data up to `now`. Returns the notification it
+   * would raise, or null when the condition does not hold. Periods without
+   * entries never satisfy a condition; a period in progress without entries
+   * yet is skipped so a streak of past periods can still match.
+   */
+  private checkAlertRule(rule: AlertRule, now: number): Omit<AlertNotification, 'id' | 'read'> | null {
+    const { condition } = rule;
+    const metricNames = rule.metricName ? [rule.metricName] : undefined;
+    const aggregation = rule.aggregation ?? this.getDefaultAggregation(rule.metricType, metricNames);
+    const metrics = this.queryMetrics(rule.metricType, { metricNames }).filter(m => m.timestamp <= now);
+    if (metrics.length === 0) return null;
+    const unit = this.assertSingleUnit(metrics, aggregation);
+
+    const valueIn = (start: number): number | null => {
+      const { end } = getPeriodBounds(start, condition.period, this.settings);
+      const values = metrics.filter(m => m.timestamp >= start && m.timestamp <= end).map(m => m.value);
+      return values.length > 0 ? aggregateValues(values, aggregation) : null;
+    };
+    const previousStart = (start: number) => getPeriodBounds(start - 1, condition.period, this.settings).start;
+    const holds = (value: number, limit: number) => (condition.operator === 'lt' ? value < limit : value > limit);
+    const operator = ALERT_OPERATORS.find(o => o.value === condition.operator)!;
+    const subject = rule.metricName ?? this.getCategory(rule.metricType)?.label ?? rule.metricType;
+
+    let start = getPeriodBounds(now, condition.period, this.settings).start;
+    if (condition.kind === 'threshold') {
+      if (valueIn(start) === null) start = previousStart(start);
+      const values: number[] = [];
+      for (let cursor = start; values.length < condition.consecutive; cursor = previousStart(cursor)) {
+        const value = valueIn(cursor);
+        if (value === null || !holds(value, condition.value)) return null;
+        values.unshift(value);
+      }
+      return {
+        ruleId: rule.id,
+        title: rule.title,
+        message: {
+          key: `alertText.threshold.${condition.operator}`,
+          params: {
+            subject,
+            value: { value: condition.value, unit },
+            count: condition.consecutive,
+            periods: { periodNoun: condition.period, count: condition.consecutive },
+            values,
+          },
+        },
+        metricType: rule.metricType,
+        timestamp: now,
+        key: `${rule.id}_${start}`,
+      };
+    }
+
+    const current = valueIn(start);
+    const previous = valueIn(previousStart(start));
+    if (current === null || previous === null || previous <= 0) return null;
+    if (!holds(current, (previous * condition.percent) / 100)) return null;
+    return {
+      ruleId: rule.id,
+      title: rule.title,
+      message: {
+        key: 'alertText.change',
+        params: {
+          subject,
+          current: { value: current, unit },
+          previous: { value: previous, unit },
+          ratio: (current / previous) * 100,
+          symbol: operator.symbol,
+          percent: condition.percent,
+        },
+      },
+      metricType: rule.metricType,
+      timestamp: now,
+      key: `${rule.id}_${start}`,
+    };
+  }
+
+  /**
+   * Run the enabled alert rules and store a notification for each one that
+   * fires. A rule fires at most once per period, so repeated runs are safe.
+   * Returns only the notifications raised by this run.
+   */
+  evaluateAlerts(now: number = Date.now()): AlertNotification[] {
+    const known = new Set(this.notifications.map(n => n.key));
+    const raised: AlertNotification[] = [];
+
+    this.alertRules
+      .filter(rule => rule.enabled)
+      .forEach(rule => {
+        let result: Omit<AlertNotification, 'id' | 'read'> | null;
+        try {
+          result = this.checkAlertRule(rule, now);
+        } catch (error) {
+          // Rules spanning several units cannot be aggregated
+          if (error instanceof UnitMismatchError) return;
+          throw error;
+        }
+        if (!result || known.has(result.key)) return;
+        raised.push({ ...result, id: `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, read: false });
+      });
+
+    if (raised.length > 0) {
+      this.notifications.push(...raised);
+      // Drop the oldest read notifications first, then the oldest unread ones
+      this.notifications = [...this.notifications]
+        .sort((a, b) => Number(a.read) - Number(b.read) || b.timestamp - a.timestamp)
+        .slice(0, NOTIFICATION_LIMIT);
+    }
+    return raised;
+  }
+
+  // ==================== METRIC OPERATIONS ====================
+
+  getAllMetrics(): Metric[] {
+    return [...this.metrics];
+  }
+
+  getMetricsByType(type: MetricType): Metric[] {
+    return this.metrics.filter(m => m.type === type);
+  }
+
+  getMetricsByPeriod(startDate: number, endDate: number): Metric[] {
+    return this.metrics.filter(m => m.timestamp >= startDate && m.timestamp <= endDate);
+  }
+
+  /**
+   * Add a metric, stamped now unless an explicit (e.g. backdated) timestamp is given
+   */
+  addMetric(metric: Omit<Metric, 'id' | 'timestamp'> & { timestamp?: number }): Metric {
+    const newMetric: Metric = {
+      ...metric,
+      id: `metric_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: metric.timestamp ?? Date.now(),
+    };
+    this.metrics.push(newMetric);
+    this.refreshInsights();
+    return newMetric;
+  }
+
+  updateMetric(id: string, updates: Partial<Omit<Metric, 'id'>>): Metric | null {
+    const index = this.metrics.findIndex(m => m.id === id);
+    if (index === -1) return null;
+
+    this.metrics[index] = { ...this.metrics[index], ...updates };
+    this.refreshInsights();
+    return this.metrics[index];
+  }
+
+  /**
+   * Add entries that carry their own timestamps (e.g. historical imports),
+   * regenerating insights once for the whole batch
+   */
+  importMetrics(entries: Omit<Metric, 'id'>[]): Metric[] {
+    const imported = entries.map((entry, index) => ({
+      ...entry,
+      id: `metric_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+    }));
+    this.metrics.push(...imported);
+    this.refreshInsights();
+    return imported;
+  }
+
+  deleteMetric(id: string): boolean {
+    const initialLength = this.metrics.length;
+    this.metrics = this.metrics.filter(m => m.id !== id);
+    if (this.metrics.length === initialLength) return false;
+
+    this.refreshInsights();
+    return true;
+  }
+
+  /**
+   * Replace several entries, matched by id, regenerating insights once for the batch
+   */
+  updateMetrics(metrics: Metric[]): Metric[] {
+    const updates = new Map(metrics.map(m => [m.id, m]));
+    this.metrics = this.metrics.map(m => updates.get(m.id) ?? m);
+    this.refreshInsights();
+    return this.metrics.filter(m => updates.has(m.id));
+  }
+
+  /**
+   * Delete several entries, regenerating insights once. Returns how many were removed.
+   */
+  deleteMetrics(ids: string[]): number {
+    const removed = new Set(ids);
+    const initialLength = this.metrics.length;
+    this.metrics = this.metrics.filter(m => !removed.has(m.id));
+    if (this.metrics.length === initialLength) return 0;
+
+    this.refreshInsights();
+    return initialLength - this.metrics.length;
+  }
+
+  /**
+   * Distinct metric names of a type, with the unit of their latest entry
+   */
+  getMetricNames(type: MetricType): { name: string; unit: string }[] {
+    const names = new Map<string, string>();
+    this.queryMetrics(type).forEach(m => names.set(m.name, m.unit));
+    return [...names].map(([name, unit]) => ({ name, unit })).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Metrics of a type matching the query, oldest first
+   */
+  private queryMetrics(type: MetricType, query: MetricQuery = {}): Metric[] {
+    const { start, end } = query.range ? resolveTimeRange(query.range, this.settings) : { start: -Infinity, end: Infinity };
+    return this.metrics
+      .filter(
+        m =>
+          m.type === type &&
+          (!query.metricNames?.length || query.metricNames.includes(m.name)) &&
+          m.timestamp >= start &&
+          m.timestamp <= end
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Values in different units cannot be combined, except by counting them
+   */
+  private assertSingleUnit(metrics: Metric[], aggregation?: AggregationFn): string | null {
+    const units = [...new Set(metrics.map(m => m.unit))];
+    if (units.length > 1 && aggregation !== 'count') throw new UnitMismatchError(units);
+    return units.length === 1 ? units[0] : null;
+  }
+
+  /**
+   * Aggregate metrics by period
+   */
+  aggregateMetrics(type: MetricType, period: PeriodType, query: MetricQuery = {}): Record<string, number> {
+    const aggregation = query.aggregation ?? this.getDefaultAggregation(type, query.metricNames);
+    const filtered = this.queryMetrics(type, query);
+    this.assertSingleUnit(filtered, aggregation);
+    return aggregateBuckets(filtered, period, this.settings, aggregation);
+  }
+
+  /**
+   * Reduce every metric matching the query to a single value
+   */
+  computeAggregate(type: MetricType, query: MetricQuery = {}): { value: number; unit: string | null } {
+    const aggregation = query.aggregation ?? this.getDefaultAggregation(type, query.metricNames);
+    const filtered = this.queryMetrics(type, query);
+    const unit = this.assertSingleUnit(filtered, aggregation);
+    return { value: aggregateValues(filtered.map(m => m.value), aggregation), unit };
+  }
+
+  /**
+   * Aggregate one series per metric name. Without a name filter, every name
+   * of the type gets its own series.
+   */
+  aggregateSeries(type: MetricType, period: PeriodType, query: MetricQuery = {}): MetricSeries[] {
+    const names = query.metricNames?.length
+      ? query.metricNames
+      : this.getMetricNames(type).map(n => n.name);
+
+    return names.map(name => {
+      const values = this.aggregateMetrics(type, period, { ...query, metricNames: [name] });
+      const unit = this.queryMetrics(type, { metricNames: [name] }).at(-1)?.unit ?? '';
+      return { name, unit, values };
+    });
+  }
+
+  /**
+   * Break down a metric type by category (metadata.category or metric name)
+   */
+  breakdownMetrics(type: MetricType, query: MetricQuery = {}): Record<string, number> {
+    const aggregation = query.aggregation ?? this.getDefaultAggregation(type, query.metricNames);
+    const filtered = this.queryMetrics(type, { range: lastDays(30), ...query });
+    this.assertSingleUnit(filtered, aggregation);
+
+    const groups: Record<string, number[]> = {};
+    filtered.forEach(metric => {
+      (groups[metric.metadata?.category ?? metric.name] ??= []).push(metric.value);
+    });
+
+    return Object.fromEntries(
+      Object.entries(groups).map(([key, values]) => [key, aggregateValues(values, aggregation)])
+    );
+  }
+
+  /**
+   * Most recent entries of a metric type
+   */
+  getRecentMetrics(type: MetricType, limit: number = 5, metricNames?: string[]): Metric[] {
+    return this.queryMetrics(type, { metricNames }).reverse().slice(0, limit);
+  }
+
+  /**
+   * Compare two periods
+   */
+  comparePeriods(
+    type: MetricType,
+    currentStart: number,
+    currentEnd: number,
+    previousStart: number,
+    previousEnd: number,
+    metricNames?: string[],
+    aggregation: AggregationFn = this.getDefaultAggregation(type, metricNames)
+  ): ComparisonData {
+    const currentMetrics = this.queryMetrics(type, { metricNames, range: { kind: 'custom', start: currentStart, end: currentEnd } });
+    const previousMetrics = this.queryMetrics(type, { metricNames, range: { kind: 'custom', start: previousStart, end: previousEnd } });
+    const unit = this.assertSingleUnit([...currentMetrics, ...previousMetrics], aggregation);
+
+    const current = aggregateValues(currentMetrics.map(m => m.value), aggregation);
+    const previous = aggregateValues(previousMetrics.map(m => m.value), aggregation);
+    const change = current - previous;
+    const changePercent = previous !== 0 ? (change / previous) * 100 : 0;
+
+    return { current, previous, change, changePercent, unit };
+  }
+
+  /**
+   * Get statistics for a metric type. Mixed units are only allowed when the
+   * query counts entries.
+   */
+  getStatistics(type: MetricType, query: MetricQuery = {}): MetricStatistics {
+    const filtered = this.queryMetrics(type, { range: lastDays(7), ...query });
+    const unit = this.assertSingleUnit(filtered, query.aggregation);
+
+    if (filtered.length === 0) {
+      return { total: 0, average: 0, max: 0, min: 0, trend: 'stable', unit };
+    }
+
+    const values = filtered.map(m => m.value);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const average = total / values.length;
+    const max = Math.max(...values);
+    const min = Math.min(...values);
+
+    // Calculate trend
+    const half = Math.floor(filtered.length / 2);
+    const firstHalf = filtered.slice(0, half).reduce((sum, m) => sum + m.value, 0) / half;
+    const secondHalf = filtered.slice(half).reduce((sum, m) => sum + m.value, 0) / (filtered.length - half);
+    const trend = secondHalf > firstHalf * 1.05 ? 'up' : secondHalf < firstHalf * 0.95 ? 'down' : 'stable';
+
+    return { total, average, max, min, trend, unit };
+  }
+
+  // ==================== WIDGET OPERATIONS ====================
+
+  getAllWidgets(): Widget[] {
+    return [...this.widgets].sort((a, b) => a.position - b.position);
+  }
+
+  getVisibleWidgets(): Widget[] {
+    return this.getAllWidgets().filter(w => w.isVisible);
+  }
+
+  addWidget(widget: Omit<Widget, 'id' | 'position'>): Widget {
+    const newWidget: Widget = {
+      ...widget,
+      id: `widget_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      position: Math.max(-1, ...this.widgets.map(w => w.position)) + 1,
+    };
+    this.widgets.push(newWidget);
+    return newWidget;
+  }
+
+  updateWidget(id: string, updates: Partial<Widget>): Widget | null {
+    const index = this.widgets.findIndex(w => w.id === id);
+    if (index === -1) return null;
+
+    this.widgets[index] = { ...this.widgets[index], ...updates };
+    return this.widgets[index];
+  }
+
+  deleteWidget(id: string): boolean {
+    const initialLength = this.widgets.length;
+    this.widgets = this.widgets.filter(w => w.id !== id);
+    return this.widgets.length < initialLength;
+  }
+
+  toggleWidgetVisibility(id: string): boolean {
+    const widget = this.widgets.find(w => w.id === id);
+    if (!widget) return false;
+    widget.isVisible = !widget.isVisible;
+    return widget.isVisible;
+  }
+
+  /**
+   * Rewrite widget positions to follow the given id order. Widgets missing
+   * from the list keep their relative order after the listed ones.
+   */
+  reorderWidgets(orderedIds: string[]): Widget[] {
+    const ordered = this.getAllWidgets().sort((a, b) => {
+      const indexA = orderedIds.indexOf(a.id);
+      const indexB = orderedIds.indexOf(b.id);
+      return (indexA === -1 ? Infinity : indexA) - (indexB === -1 ? Infinity : indexB);
+    });
+    this.widgets = ordered.map((widget, position) => ({ ...widget, position }));
+    return this.getAllWidgets();
+  }
+
+  // ==================== INSIGHTS ====================
+
+  /**
+   * Active insights that are neither dismissed nor snoozed: pinned first,
+   * then by severity and newest first
+   */
+  getInsights(now: number = Date.now()): Insight[] {
+    return this.insights
+      .filter(i => i.active && !i.dismissed && !(i.snoozedUntil && i.snoozedUntil > now))
+      .sort(
+        (a, b) =>
+          Number(!!b.pinned) - Number(!!a.pinned) ||
+          INSIGHT_SEVERITY_RANK[b.severity] - INSIGHT_SEVERITY_RANK[a.severity] ||
+          b.timestamp - a.timestamp
+      );
+  }
+
+  /**
+   * Every insight kept, including inactive, dismissed and snoozed ones, most recently seen first
+   */
+  getInsightHistory(): Insight[] {
+    return [...this.insights].sort((a, b) => b.lastSeenAt - a.lastSeenAt || b.timestamp - a.timestamp);
+  }
+
+  getInsight(id: string): Insight | undefined {
+    return this.insights.find(i => i.id === id);
+  }
+
+  /**
+   * Pin, dismiss or snooze an insight. `snoozedUntil: undefined` wakes it up.
+   */
+  updateInsight(id: string, updates: InsightUpdate): Insight | null {
+    const index = this.insights.findIndex(i => i.id === id);
+    if (index === -1) return null;
+
+    this.insights[index] = { ...this.insights[index], ...updates };
+    return this.insights[index];
+  }
+
+  getInsightRules(): InsightRule[] {
+    return [...this.insightRules];
+  }
+
+  /**
+   * Add an insight rule, replacing any rule with the same id
+   */
+  registerInsightRule(rule: InsightRule): void {
+    this.insightRules = [...this.insightRules.filter(r => r.id !== rule.id), rule];
+    this.refreshInsights();
+  }
+
+  /**
+   * Data handed to the insight rules: a series per metric name of the active
+   * categories and the progress of their goals
+   */
+  private buildInsightContext(now: number): InsightContext {
+    const active = this.getCategories();
+
+    const series = active.flatMap(({ id: metricType }) =>
+      this.getMetricNames(metricType).flatMap(({ name, unit }): InsightSeries[] => {
+        const metrics = this.queryMetrics(metricType, { metricNames: [name] }).filter(m => m.timestamp <= now);
+        if (metrics.some(m => m.unit !== unit)) return [];
+
+        const definition = this.findDefinition(metricType, name);
+        const aggregation = definition?.aggregation ?? 'sum';
+        const days = new Map<string, number[]>();
+        metrics.forEach(m => {
+          const key = getBucketKey(m.timestamp, 'day', this.settings);
+          const day = days.get(key);
+          if (day) day.push(m.value);
+          else days.set(key, [m.value]);
+        });
+
+        return [{
+          metricType,
+          name,
+          unit,
+          aggregation,
+          higherIsBetter: definition?.higherIsBetter ?? true,
+          metrics,
+          daily: new Map([...days].map(([key, values]) => [key, aggregateValues(values, aggregation)])),
+        }];
+      })
+    );
+
+    const goals = this.goals
+      .filter(goal => active.some(c => c.id === goal.metricType))
+      .flatMap(goal => {
+        try {
+          const progress = this.getGoalProgress(goal.id, now);
+          return progress ? [progress] : [];
+        } catch (error) {
+          if (error instanceof UnitMismatchError) return [];
+          throw error;
+        }
+      });
+
+    return { now, today: getBucketKey(now, 'day', this.settings), settings: this.settings, series, goals };
+  }
+
+  /**
+   * Run every insight rule over the data. Ids only depend on the rule and
+   * what the insight is about, so the same finding keeps its id across runs.
+   */
+  generateInsights(now: number = Date.now()): Insight[] {
+    const context = this.buildInsightContext(now);
+
+    return this.insightRules.flatMap(rule =>
+      rule.evaluate(context).map(({ key, ...insight }) => ({
+        ...insight,
+        id: `insight_${rule.id}_${key}`,
+        rule: rule.id,
+        timestamp: now,
+        lastSeenAt: now,
+        active: true,
+      }))
+    );
+  }
+
+  /**
+   * Merge a fresh run of the rules into the stored insights: known ones keep
+   * their first appearance and user state, missing ones become inactive, and
+   * the history is trimmed to INSIGHT_HISTORY_LIMIT inactive entries
+   */
+  refreshInsights(now: number = Date.now()): void {
+    const fresh = new Map(this.generateInsights(now).map(i => [i.id, i]));
+
+    const merged = this.insights.map(previous => {
+      const current = fresh.get(previous.id);
+      if (!current) return previous.active ? { ...previous, active: false } : previous;
+
+      fresh.delete(previous.id);
+      return {
+        ...current,
+        timestamp: previous.active ? previous.timestamp : now,
+        pinned: previous.pinned,
+        // A dismissal lasts until the insight goes away; coming back shows it again
+        dismissed: previous.active ? previous.dismissed : undefined,
+        snoozedUntil: previous.snoozedUntil,
+      };
+    });
+
+    const expired = merged
+      .filter(i => !i.active && !i.pinned)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+      .slice(INSIGHT_HISTORY_LIMIT);
+    this.insights = [...merged.filter(i => !expired.includes(i)), ...fresh.values()];
+  }
+
+  // ==================== EXPORT ====================
+
+  /**
+   * Summarise a period per metric name and unit (never across units), with
+   * one value per requested aggregation and a chart series per group
+   */
+  buildReport(
+    startDate: number,
+    endDate: number,
+    aggregations: AggregationFn[] = DEFAULT_REPORT_AGGREGATIONS
+  ): ReportData {
+    const metrics = this.getMetricsByPeriod(startDate, endDate).sort((a, b) => a.timestamp - b.timestamp);
+    const period = getReportPeriod(startDate, endDate);
+
+    const grouped = new Map<string, Metric[]>();
+    metrics.forEach(m => {
+      const key = `${m.type}\u0000${m.name}\u0000${m.unit}`;
+      const group = grouped.get(key);
+      if (group) group.push(m);
+      else grouped.set(key, [m]);
+    });
+
+    const groups: ReportGroup[] = [];
+    this.categories.forEach(({ id: type }) => {
+      grouped.forEach(group => {
+        if (group[0].type !== type) return;
+        const values = group.map(m => m.value);
+        const seriesAggregation = this.getDefaultAggregation(type, [group[0].name]);
+        groups.push({
+          type,
+          name: group[0].name,
+          unit: group[0].unit,
+          values: Object.fromEntries(aggregations.map(fn => [fn, aggregateValues(values, fn)])),
+          series: aggregateBuckets(group, period, this.settings, seriesAggregation),
+          seriesAggregation,
+        });
+      });
+    });
+
+    return {
+      start: startDate,
+      end: endDate,
+      timeZone: this.settings.timeZone,
+      generatedAt: Date.now(),
+      period,
+      aggregations,
+      categories: this.getCategories(true),
+      groups,
+      metrics,
+      insights: this.getInsights(),
+    };
+  }
+
+  /**
+   * Generate the plain-text report
+   */
+  generateReport(startDate: number, endDate: number, aggregations?: AggregationFn[], locale: Locale = DEFAULT_LOCALE): string {
+    return renderReportText(this.buildReport(startDate, endDate, aggregations), locale);
+  }
+
+  // ==================== SNAPSHOT ====================
+
+  getData(): DashboardData {
+    return {
+      settings: this.getSettings(),
+      categories: this.getCategories(true),
+      definitions: this.getDefinitions(),
+      goals: this.getGoals(),
+      alertRules: this.getAlertRules(),
+      notifications: this.getNotifications(),
+      metrics: this.getAllMetrics(),
+      widgets: this.getAllWidgets(),
+      insights: this.getInsightHistory(),
+    };
+  }
+
+  /**
+   * Replace the whole dataset, e.g. with a fresh copy fetched from the server
+   */
+  replaceData(data: DashboardData): void {
+    this.settings = { ...data.settings };
+    this.categories = [...data.categories];
+    this.definitions = [...data.definitions];
+    this.goals = [...data.goals];
+    this.alertRules = [...data.alertRules];
+    this.notifications = [...data.notifications];
+    this.metrics = [...data.metrics];
+    this.widgets = [...data.widgets];
+    this.insights = [...data.insights];
+  }
+
+  // ==================== SYNC ====================
+
+  async syncToStorage(): Promise<void> {
+    const payload: PersistedDashboard = {
+      version: DASHBOARD_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      data: this.getData(),
+    };
+    try {
+      await this.storage.save(StorageService.getKeys().DASHBOARD_DATA, payload);
+    } catch (error) {
+      console.error('Error saving dashboard data:', error);
+    }
+  }
+
+  /**
+   * Replace the current data with the persisted copy, if there is one
+   */
+  async restoreFromStorage(): Promise<boolean> {
+    try {
+      const payload = await this.storage.load(StorageService.getKeys().DASHBOARD_DATA);
+      const data = migrateDashboardData(payload);
+      if (!data) return false;
+      this.replaceData(data);
+      return true;
+    } catch (error) {
+      console.error('Error loading dashboard data:', error);
+      return false;
+    }
+  }
+
+  static async loadFromStorage(storage: StorageBackend = StorageService.getDashboardBackend()): Promise<AnalyticsModel> {
+    const model = new AnalyticsModel(undefined, storage);
+    // Rules compare against the current date, so stored insights may be stale
+    if (await model.restoreFromStorage()) model.refreshInsights();
+    return model;
+  }
+}
+
+// ============================================================================
+// CONTROLLER LAYER
+// ============================================================================
+
+// Live updates arriving together are applied with a single refresh
+const LIVE_REFRESH_DELAY = 250;
+const LIVE_RECONNECT_DELAY = 1000;
+const LIVE_RECONNECT_MAX_DELAY = 30000;
+
+class AnalyticsController {
+  private model: AnalyticsModel;
+  private listeners: Set<() => void>;
+  private pendingRefresh: ReturnType<typeof setTimeout> | null = null;
+  private alertListeners: Set<(notifications: AlertNotification[]) => void>;
+  // Notifications already announced, so each one pops up once per tab
+  private announced: Set<string>;
+
+  constructor(model: AnalyticsModel) {
+    this.model = model;
+    this.listeners = new Set();
+    this.alertListeners = new Set();
+    this.announced = new Set(model.getNotifications().map(n => n.id));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Listen for alert notifications raised since the page loaded
+   */
+  subscribeAlerts(listener: (notifications: AlertNotification[]) => void): () => void {
+    this.alertListeners.add(listener);
+    return () => this.alertListeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+    this.announceAlerts();
+    this.model.syncToStorage();
+  }
+
+  /**
+   * The server evaluates the alert rules on every write, so fresh data may
+   * carry new notifications. Pass the unread ones this tab has not shown yet
+   * to the in-app listeners and, when allowed, to the browser.
+   */
+  private announceAlerts(): void {
+    const fresh = this.model.getNotifications(true).filter(n => !this.announced.has(n.id));
+    if (fresh.length === 0) return;
+
+    fresh.forEach(n => this.announced.add(n.id));
+    this.alertListeners.forEach(listener => listener(fresh));
+
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      const locale = getBrowserLocale();
+      fresh.forEach(n => new Notification(n.title, { body: formatLocalizedText(locale, n.message), tag: n.key }));
+    }
+  }
+
+  /**
+   * Show the locally cached copy while the server data is loading
+   */
+  async restoreFromCache(): Promise<void> {
+    if (await this.model.restoreFromStorage()) {
+      this.listeners.forEach(listener => listener());
+    }
+  }
+
+  /**
+   * Pull the current dashboard data from the server API
+   */
+  async refresh(): Promise<void> {
+    // Whatever a pending live update would fetch is included in this request
+    if (this.pendingRefresh) {
+      clearTimeout(this.pendingRefresh);
+      this.pendingRefresh = null;
+    }
+    try {
+      const data = await ApiService.get<DashboardData>('/dashboard');
+      this.model.replaceData(data);
+      this.notify();
+    } catch (error) {
+      console.error('Error refreshing dashboard data:', error);
+    }
+  }
+
+  /**
+   * Follow the server's change events, so writes from other tabs, scripts
+   * and devices show up without a reload. The browser reconnects by itself
+   * after network errors and the server replays the events it missed (or
+   * asks for a full refresh); if the stream is closed for good, it is
+   * reopened with backoff from the last event seen. Returns a function that
+   * stops listening.
+   */
+  connectLive(): () => void {
+    if (typeof EventSource === 'undefined') return () => {};
+
+    let source: EventSource | null = null;
+    let lastEventId = '';
+    let retryDelay = LIVE_RECONNECT_DELAY;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const handleEvent = (event: MessageEvent) => {
+      lastEventId = event.lastEventId || lastEventId;
+      if (this.pendingRefresh) clearTimeout(this.pendingRefresh);
+      this.pendingRefresh = setTimeout(() => this.refresh(), LIVE_REFRESH_DELAY);
+    };
+
+    const connect = () => {
+      const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+      source = new EventSource(ApiService.url(`/events${query}`));
+      source.addEventListener('open', () => (retryDelay = LIVE_RECONNECT_DELAY));
+      source.addEventListener('change', handleEvent);
+      source.addEventListener('resync', handleEvent);
+      source.addEventListener('error', () => {
+        if (stopped || source?.readyState !== EventSource.CLOSED) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, LIVE_RECONNECT_MAX_DELAY);
+      });
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }
+
+  /**
+   * Run a write request against the API, then reload the dashboard data.
+   * Failures, such as a validation error from the server, are rethrown so
+   * forms can show them.
+   */
+  private async mutate(request: () => Promise<unknown>): Promise<void> {
+    await request();
+    await this.refresh();
+  }
+
+  // Settings methods
+  getSettings = () => this.model.getSettings();
+
+  updateSettings(updates: Partial<DashboardSettings>): Promise<void> {
+    return this.mutate(() => ApiService.patch('/settings', updates));
+  }
+
+  // Category methods
+  getCategories = (includeArchived?: boolean) => this.model.getCategories(includeArchived);
+  getCategory = (id: MetricType) => this.model.getCategory(id);
+
+  addCategory(category: Omit<Category, 'id' | 'archived'>): Promise<void> {
+    return this.mutate(() => ApiService.post('/categories', category));
+  }
+
+  updateCategory(id: MetricType, updates: Partial<Omit<Category, 'id'>>): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/categories/${encodeURIComponent(id)}`, updates));
+  }
+
+  deleteCategory(id: MetricType, reassignTo?: MetricType): Promise<void> {
+    const query = reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : '';
+    return this.mutate(() => ApiService.delete(`/categories/${encodeURIComponent(id)}${query}`));
+  }
+
+  // Definition methods
+  getDefinitions = (category?: MetricType) => this.model.getDefinitions(category);
+  findDefinition = (category: MetricType, name: string) => this.model.findDefinition(category, name);
+  hasDefinitionEntries = (id: string) => this.model.hasDefinitionEntries(id);
+  getDefaultAggregation = (type: MetricType, metricNames?: string[], fallback?: AggregationFn) =>
+    this.model.getDefaultAggregation(type, metricNames, fallback);
+
+  addDefinition(definition: Omit<MetricDefinition, 'id'>): Promise<void> {
+    return this.mutate(() => ApiService.post('/definitions', definition));
+  }
+
+  /**
+   * Update a definition. Changing the unit of a metric that has entries
+   * needs `unitFactor`, which converts the recorded values.
+   */
+  updateDefinition(id: string, updates: DefinitionUpdate, unitFactor?: number): Promise<void> {
+    return this.mutate(() =>
+      ApiService.patch(`/definitions/${encodeURIComponent(id)}`, unitFactor === undefined ? updates : { ...updates, unitFactor })
+    );
+  }
+
+  deleteDefinition(id: string): Promise<void> {
+    return this.mutate(() => ApiService.delete(`/definitions/${encodeURIComponent(id)}`));
+  }
+
+  // Goal methods
+  getGoals = () => this.model.getGoals();
+  getGoal = (id: string) => this.model.getGoal(id);
+  getGoalProgress = (id: string) => this.model.getGoalProgress(id);
+
+  addGoal(goal: Omit<Goal, 'id' | 'createdAt'>): Promise<void> {
+    return this.mutate(() => ApiService.post('/goals', goal));
+  }
+
+  updateGoal(id: string, updates: GoalUpdate): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/goals/${encodeURIComponent(id)}`, updates));
+  }
+
+  deleteGoal(id: string): Promise<void> {
+    return this.mutate(() => ApiService.delete(`/goals/${encodeURIComponent(id)}`));
+  }
+
+  // Metric methods
+  getAllMetrics = () => this.model.getAllMetrics();
+  getMetricsByType = (type: MetricType) => this.model.getMetricsByType(type);
+  getMetricsByPeriod = (start: number, end: number) => this.model.getMetricsByPeriod(start, end);
+  getMetricNames = (type: MetricType) => this.model.getMetricNames(type);
+  aggregateMetrics = (type: MetricType, period: PeriodType, query?: MetricQuery) =>
+    this.model.aggregateMetrics(type, period, query);
+  aggregateSeries = (type: MetricType, period: PeriodType, query?: MetricQuery) =>
+    this.model.aggregateSeries(type, period, query);
+  computeAggregate = (type: MetricType, query?: MetricQuery) => this.model.computeAggregate(type, query);
+  comparePeriods = (
+    type: MetricType,
+    cs: number,
+    ce: number,
+    ps: number,
+    pe: number,
+    metricNames?: string[],
+    aggregation?: AggregationFn
+  ) => this.model.comparePeriods(type, cs, ce, ps, pe, metricNames, aggregation);
+  getStatistics = (type: MetricType, query?: MetricQuery) => this.model.getStatistics(type, query);
+  breakdownMetrics = (type: MetricType, query?: MetricQuery) => this.model.breakdownMetrics(type, query);
+  getRecentMetrics = (type: MetricType, limit?: number, metricNames?: string[]) =>
+    this.model.getRecentMetrics(type, limit, metricNames);
+
+  addMetric(metric: Omit<Metric, 'id' | 'timestamp'> & { timestamp?: number }): Promise<void> {
+    return this.mutate(() => ApiService.post('/metrics', metric));
+  }
+
+  updateMetric(id: string, updates: Partial<Omit<Metric, 'id'>>): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/metrics/${encodeURIComponent(id)}`, updates));
+  }
+
+  deleteMetric(id: string): Promise<void> {
+    return this.mutate(() => ApiService.delete(`/metrics/${encodeURIComponent(id)}`));
+  }
+
+  deleteMetrics = (ids: string[]) => this.bulkEditMetrics(ids, { action: 'delete' });
+  retypeMetrics = (ids: string[], type: MetricType, name?: string) =>
+    this.bulkEditMetrics(ids, { action: 'retype', type, name });
+  renameMetrics = (ids: string[], name: string) => this.bulkEditMetrics(ids, { action: 'rename', name });
+  shiftMetrics = (ids: string[], offset: number) => this.bulkEditMetrics(ids, { action: 'shift', offset });
+  convertMetrics = (ids: string[], factor: number) => this.bulkEditMetrics(ids, { action: 'convert', factor });
+
+  /**
+   * Apply one operation to many entries in a single request, so listeners
+   * are notified once for the whole batch. Errors are rethrown so the
+   * metrics view can show them.
+   */
+  async bulkEditMetrics(ids: string[], operation: BulkMetricOperation): Promise<BulkMetricResult> {
+    const result = await ApiService.post<BulkMetricResult>('/metrics/bulk', { ids, operation });
+    await this.refresh();
+    return result;
+  }
+
+  /**
+   * Preview an import against the locally cached metrics
+   */
+  previewImport = (request: ImportRequest) =>
+    buildImportRows(
+      request,
+      this.model.getAllMetrics(),
+      this.model.getCategories(true),
+      this.model.getDefinitions(),
+      this.model.getSettings().timeZone
+    );
+
+  /**
+   * Import on the server, which re-checks every row against its own data.
+   * Errors are rethrown so the import view can show them.
+   */
+  async importMetrics(request: ImportRequest, skipDuplicates = true): Promise<ImportResult> {
+    const result = await ApiService.post<ImportResult>('/import', { ...request, skipDuplicates });
+    await this.refresh();
+    return result;
+  }
+
+  // Widget methods
+  getAllWidgets = () => this.model.getAllWidgets();
+  getVisibleWidgets = () => this.model.getVisibleWidgets();
+
+  addWidget(widget: Omit<Widget, 'id' | 'position'>): Promise<void> {
+    return this.mutate(() => ApiService.post('/widgets', widget));
+  }
+
+  updateWidget(id: string, updates: Partial<Widget>): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/widgets/${encodeURIComponent(id)}`, updates));
+  }
+
+  deleteWidget(id: string): Promise<void> {
+    return this.mutate(() => ApiService.delete(`/widgets/${encodeURIComponent(id)}`));
+  }
+
+  toggleWidgetVisibility(id: string): Promise<void> {
+    return this.mutate(() => ApiService.post(`/widgets/${encodeURIComponent(id)}/toggle`));
+  }
+
+  /**
+   * Show the new order right away, and put the previous one back if the
+   * server rejects it
+   */
+  async reorderWidgets(orderedIds: string[]): Promise<void> {
+    const previousOrder = this.model.getAllWidgets().map(w => w.id);
+    this.model.reorderWidgets(orderedIds);
+    this.notify();
+    try {
+      await this.mutate(() => ApiService.post('/widgets/reorder', { ids: orderedIds }));
+    } catch (error) {
+      this.model.reorderWidgets(previousOrder);
+      this.notify();
+      throw error;
+    }
+  }
+
+  // Insights
+  getInsights = () => this.model.getInsights();
+  getInsightHistory = () => this.model.getInsightHistory();
+  getInsightRules = () => this.model.getInsightRules();
+
+  /**
+   * Pin, dismiss or snooze an insight; `snoozedUntil: null` wakes it up
+   */
+  updateInsight(id: string, updates: Omit<InsightUpdate, 'snoozedUntil'> & { snoozedUntil?: number | null }): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/insights/${encodeURIComponent(id)}`, updates));
+  }
+
+  // Alerts
+  getAlertRules = () => this.model.getAlertRules();
+  getNotifications = (unreadOnly?: boolean) => this.model.getNotifications(unreadOnly);
+
+  addAlertRule(rule: Omit<AlertRule, 'id' | 'createdAt' | 'enabled'> & { enabled?: boolean }): Promise<void> {
+    return this.mutate(() => ApiService.post('/alerts', rule));
+  }
+
+  updateAlertRule(id: string, updates: AlertRuleUpdate): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/alerts/${encodeURIComponent(id)}`, updates));
+  }
+
+  deleteAlertRule(id: string): Promise<void> {
+    return this.mutate(() => ApiService.delete(`/alerts/${encodeURIComponent(id)}`));
+  }
+
+  markNotificationRead(id: string, read = true): Promise<void> {
+    return this.mutate(() => ApiService.patch(`/notifications/${encodeURIComponent(id)}`, { read }));
+  }
+
+  markAllNotificationsRead(): Promise<void> {
+    return this.mutate(() => ApiService.post('/notifications/read-all'));
+  }
+
+  /**
+   * Send a sample payload to the server's alert webhook
+   */
+  testAlertWebhook(): Promise<{ delivered: boolean; status?: number; error?: string }> {
+    return ApiService.post('/alerts/test');
+  }
+
+  /**
+   * Ask for permission to show alerts as browser notifications
+   */
+  async requestBrowserNotifications(): Promise<NotificationPermission | 'unsupported'> {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+  }
+
+  // Export
+  generateReport = (startDate: number, endDate: number, aggregations?: AggregationFn[], locale?: Locale) =>
+    this.model.generateReport(startDate, endDate, aggregations, locale);
+  exportReport = (
+    startDate: number,
+    endDate: number,
+    format: ReportFormat,
+    aggregations?: AggregationFn[],
+    locale?: Locale
+  ) => renderReport(this.model.buildReport(startDate, endDate, aggregations), format, locale);
+}
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+interface DashboardContextType {
+  controller: AnalyticsController;
+  forceUpdate: () => void;
+}
+
+const DashboardContext = createContext<DashboardContextType | null>(null);
+
+const useDashboard = () => {
+  const context = useContext(DashboardContext);
+  if (!context) throw new Error('useDashboard must be used within DashboardProvider');
+  return context;
+};
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  // Dates are shown in the user's time zone from the settings
+  timeZone: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tp: (key: PluralKey, count: number, params?: MessageParams) => string;
+  // Stored insight and notification text
+  tx: (text: LocalizedText) => string;
+  formatNumber: (value: number, maximumFractionDigits?: number) => string;
+  formatValue: (value: number, unit: string | null, maximumFractionDigits?: number) => string;
+  formatDate: (timestamp: number, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (timestamp: number) => string;
+}
+
+const I18nContext = createContext<I18nContextType | null>(null);
+
+const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used within I18nContext');
+  return context;
+};
+
+const createI18n = (locale: Locale, setLocale: (locale: Locale) => void, timeZone: string): I18nContextType => ({
+  locale,
+  setLocale,
+  timeZone,
+  t: (key, params) => translate(locale, key, params),
+  tp: (key, count, params) => translatePlural(locale, key, count, params),
+  tx: text => formatLocalizedText(locale, text),
+  formatNumber: (value, maximumFractionDigits) => formatNumber(locale, value, maximumFractionDigits),
+  formatValue: (value, unit, maximumFractionDigits) => formatValue(locale, value, unit, maximumFractionDigits),
+  formatDate: (timestamp, options) => formatDate(locale, timestamp, { timeZone, ...options }),
+  formatDateTime: timestamp => formatDateTime(locale, timestamp, timeZone),
+});
+
+/**
+ * Language saved by the switcher, else the browser's preferred languages
+ */
+const getBrowserLocale = (): Locale => {
+  const saved = document.cookie
+    .split(';')
+    .map(part => part.trim().split('='))
+    .find(([name]) => name === LOCALE_COOKIE)?.[1];
+  return isLocale(saved) ? saved : negotiateLocale(navigator.languages);
+};
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+type ViewName =
+  | 'dashboard'
+  | 'metrics'
+  | 'import'
+  | 'insights'
+  | 'reports'
+  | 'settings'
+  | 'categories'
+  | 'definitions'
+  | 'goals'
+  | 'alerts'
+  | 'preferences'
+  | 'not-found';
+
+/**
+ * Entry filters of MetricsView, kept in the query string so that links, such
+ * as a click on a chart point, can open a filtered list
+ */
+interface MetricFilters {
+  q?: string;
+  name?: string;
+  unit?: string;
+  // Inclusive days (YYYY-MM-DD) in the user's time zone
+  start?: string;
+  end?: string;
+  // Inclusive value bounds, kept as typed; anything that is not a number is ignored
+  min?: string;
+  max?: string;
+  // Metadata key and/or a case-insensitive substring of its value
+  metaKey?: string;
+  metaValue?: string;
+  sort?: MetricSortKey;
+  order?: SortOrder;
+  page?: string;
+}
+
+type MetricSortKey = 'date' | 'value' | 'name';
+type SortOrder = 'asc' | 'desc';
+
+interface Route {
+  view: ViewName;
+  metricType?: MetricType;
+  filters?: MetricFilters;
+}
+
+const BASE_PATH = import.meta.env.BASE_URL;
+
+const parseMetricFilters = (search: string): MetricFilters => {
+  const params = new URLSearchParams(search);
+  const text = (key: string) => params.get(key) || undefined;
+  const match = (key: string, pattern: RegExp) => {
+    const value = params.get(key);
+    return value && pattern.test(value) ? value : undefined;
+  };
+  const filters: MetricFilters = {
+    q: text('q'),
+    name: text('name'),
+    unit: text('unit'),
+    start: match('start', /^\d{4}-\d{2}-\d{2}$/),
+    end: match('end', /^\d{4}-\d{2}-\d{2}$/),
+    min: text('min'),
+    max: text('max'),
+    metaKey: text('metaKey'),
+    metaValue: text('metaValue'),
+    sort: match('sort', /^(date|value|name)$/) as MetricSortKey | undefined,
+    order: match('order', /^(asc|desc)$/) as SortOrder | undefined,
+    page: match('page', /^[1-9]\d*$/),
+  };
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+};
+
+const buildMetricSearch = (filters: MetricFilters = {}): string => {
+  const search = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Resolve a path relative to the app base (e.g. "metrics/health?name=Passos") to a route
+ */
+const parseRoute = (url: string): Route => {
+  const [pathname, search = ''] = url.split('#')[0].split('?');
+  const path = pathname.replace(/^\/+|\/+$/g, '');
+  const [section = '', param, ...rest] = path ? path.split('/').map(decodeURIComponent) : [];
+
+  if (rest.length > 0) return { view: 'not-found' };
+
+  switch (section) {
+    case '':
+      return param === undefined ? { view: 'dashboard' } : { view: 'not-found' };
+    case 'metrics':
+      // Categories are data, so MetricsView checks that the category exists
+      return param === undefined
+        ? { view: 'metrics', filters: parseMetricFilters(search) }
+        : { view: 'metrics', metricType: param, filters: parseMetricFilters(search) };
+    case 'settings':
+      if (param === 'categories') return { view: 'categories' };
+      if (param === 'definitions') return { view: 'definitions' };
+      if (param === 'goals') return { view: 'goals' };
+      if (param === 'alerts') return { view: 'alerts' };
+      if (param === 'preferences') return { view: 'preferences' };
+      return param === undefined ? { view: section } : { view: 'not-found' };
+    case 'import':
+    case 'insights':
+    case 'reports':
+      return param === undefined ? { view: section } : { view: 'not-found' };
+    default:
+      return { view: 'not-found' };
+  }
+};
+
+const buildPath = (route: Route): string => {
+  switch (route.view) {
+    case 'dashboard':
+    case 'not-found':
+      return BASE_PATH;
+    case 'metrics':
+      return `${BASE_PATH}metrics${route.metricType ? `/${encodeURIComponent(route.metricType)}` : ''}${buildMetricSearch(route.filters)}`;
+    case 'categories':
+    case 'definitions':
+    case 'goals':
+    case 'alerts':
+    case 'preferences':
+      return `${BASE_PATH}settings/${route.view}`;
+    default:
+      return `${BASE_PATH}${route.view}`;
+  }
+};
+
+/**
+ * Current browser location relative to the app base
+ */
+const getLocationPath = (): string => {
+  const { pathname, search } = window.location;
+  const path = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname;
+  return `${path}${search}`;
+};
+
+interface RouterContextType {
+  route: Route;
+  // `replace` swaps the current history entry instead of adding one, for edits such as typing in a filter
+  navigate: (route: Route, options?: { replace?: boolean }) => void;
+}
+
+const RouterContext = createContext<RouterContextType | null>(null);
+
+const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (!context) throw new Error('useRouter must be used within RouterContext');
+  return context;
+};
+
+/**
+ * Anchor that navigates through the history API instead of reloading the page
+ */
+const Link: React.FC<{ to: Route; className?: string; children: React.ReactNode }> = ({ to, className, children }) => {
+  const { navigate } = useRouter();
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={buildPath(to)} onClick={handleClick} className={className}>
+      {children}
+    </a>
+  );
+};
+
+// ============================================================================
+// VIEW COMPONENTS
+// ============================================================================
+
+/**
+ * Header Component
+ */
+const Header: React.FC<{
+  darkMode: boolean;
+  toggleTheme: () => void;
+}> = ({ darkMode, toggleTheme }) => {
+  const { route } = useRouter();
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <header className="header">
+      <div className="header-content">
+        <div className="header-brand">
+          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+          </svg>
+          <h1>My Analytics Dashboard</h1>
+        </div>
+
+        <nav className="header-nav">
+          <Link to={{ view: 'dashboard' }} className={route.view === 'dashboard' ? 'active' : ''}>
+            {t('nav.dashboard')}
+          </Link>
+          <Link to={{ view: 'metrics' }} className={route.view === 'metrics' ? 'active' : ''}>
+            {t('nav.metrics')}
+          </Link>
+          <Link to={{ view: 'insights' }} className={route.view === 'insights' ? 'active' : ''}>
+            {t('nav.insights')}
+          </Link>
+          <Link to={{ view: 'reports' }} className={route.view === 'reports' ? 'active' : ''}>
+            {t('nav.reports')}
+          </Link>
+          <Link to={{ view: 'settings' }} className={['settings', 'categories', 'definitions', 'goals', 'alerts', 'preferences'].includes(route.view) ? 'active' : ''}>
+            {t('nav.settings')}
+          </Link>
+        </nav>
+
+        <div className="header-actions">
+          <select
+            value={locale}
+            onChange={e => setLocale(e.target.value as Locale)}
+            className="locale-select"
+            aria-label={t('header.language')}
+          >
+            {LOCALES.map(l => (
+              <option key={l.value} value={l.value}>{l.label}</option>
+            ))}
+          </select>
+          <NotificationBell />
+          <button onClick={toggleTheme} className="theme-toggle" title={t('header.toggleTheme')}>
+            {darkMode ? (
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+              </svg>
+            ) : (
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+              </svg>
+            )}
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+};
+
+/**
+ * Header button listing the alert notifications, unread ones first
+ */
+const NotificationBell: React.FC = () => {
+  const { controller } = useDashboard();
+  const { navigate } = useRouter();
+  const { t, tp, tx, formatDateTime } = useI18n();
+  const { actionError, runAction } = useActionError();
+  const [open, setOpen] = useState(false);
+  const notifications = controller.getNotifications();
+  const unread = notifications.filter(n => !n.read).length;
+
+  return (
+    <div className="notification-bell">
+      <button
+        onClick={() => setOpen(!open)}
+        className="theme-toggle"
+        title={unread > 0 ? tp('notifications.unread', unread) : t('notifications.title')}
+      >
+        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unread > 0 && <span className="notification-badge">{unread > 99 ? '99+' : unread}</span>}
+      </button>
+
+      {open && (
+        <div className="notification-panel">
+          <div className="notification-panel-header">
+            <strong>{t('notifications.title')}</strong>
+            {unread > 0 && (
+              <button onClick={() => runAction(() => controller.markAllNotificationsRead())} className="btn-link">
+                {t('notifications.markAllRead')}
+              </button>
+            )}
+          </div>
+          {actionError && <div className="form-error">{actionError}</div>}
+          {notifications.length === 0 ? (
+            <div className="widget-empty">{t('notifications.empty')}</div>
+          ) : (
+            <ul className="notification-list">
+              {notifications.slice(0, 20).map(n => (
+                <li
+                  key={n.id}
+                  className={`notification-item ${n.read ? '' : 'unread'}`}
+                  onClick={() => runAction(() => controller.markNotificationRead(n.id, !n.read))}
+                  title={n.read ? t('notifications.markUnread') : t('notifications.markRead')}
+                >
+                  <span className="widget-icon">{controller.getCategory(n.metricType)?.icon ?? '🔔'}</span>
+                  <div>
+                    <h4>{n.title}</h4>
+                    <p>{tx(n.message)}</p>
+                    <span>{formatDateTime(n.timestamp)}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={() => {
+              setOpen(false);
+              navigate({ view: 'alerts' });
+            }}
+            className="btn-link"
+          >
+            {t('notifications.manageRules')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// How long a new alert stays on screen
+const ALERT_TOAST_MS = 8000;
+
+/**
+ * Pop-ups for alerts raised while the page is open
+ */
+const AlertToasts: React.FC = () => {
+  const { controller } = useDashboard();
+  const { t, tx } = useI18n();
+  const [toasts, setToasts] = useState<AlertNotification[]>([]);
+
+  useEffect(
+    () =>
+      controller.subscribeAlerts(fresh => {
+        setToasts(prev => [...fresh, ...prev]);
+        setTimeout(() => setToasts(prev => prev.filter(t => !fresh.includes(t))), ALERT_TOAST_MS);
+      }),
+    [controller]
+  );
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="alert-toasts">
+      {toasts.map(toast => (
+        <div key={toast.id} className="alert-toast" role="alert">
+          <div>
+            <strong>🔔 {toast.title}</strong>
+            <p>{tx(toast.message)}</p>
+          </div>
+          <button onClick={() => setToasts(prev => prev.filter(t => t !== toast))} title={t('common.close')}>×</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Run a unit-aware computation, returning the unit mismatch instead of throwing
+ */
+const tryUnitAware = <T,>(compute: () => T): { value: T; mismatch: null } | { value: null; mismatch: UnitMismatchError } => {
+  try {
+    return { value: compute(), mismatch: null };
+  } catch (error) {
+    if (error instanceof UnitMismatchError) return { value: null, mismatch: error };
+    throw error;
+  }
+};
+
+const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Run writes started by buttons and toggles, keeping the last failure to show
+ */
+const useActionError = () => {
+  const [actionError, setActionError] = useState<string | null>(null);
+  const runAction = async (request: () => Promise<unknown>): Promise<boolean> => {
+    try {
+      await request();
+      setActionError(null);
+      return true;
+    } catch (error) {
+      setActionError(getErrorMessage(error));
+      return false;
+    }
+  };
+  return { actionError, runAction };
+};
+
+const UnitMismatchNotice: React.FC<{ error: UnitMismatchError }> = ({ error }) => {
+  const { t } = useI18n();
+  return <div className="widget-empty">{t('widget.unitMismatch', { units: error.units.join(', ') })}</div>;
+};
+
+/**
+ * Series plotted by a chart widget: the selected metric names, or the category
+ * total when its metrics share a unit, or else one series per metric name.
+ * A metric name whose own entries mix units is returned as the mismatch.
+ */
+const getWidgetSeries = (controller: AnalyticsController, widget: Widget, period: PeriodType) =>
+  tryUnitAware((): MetricSeries[] => {
+    const query: MetricQuery = {
+      range: widget.config.range ?? lastDays(7),
+      metricNames: widget.config.metricNames,
+      aggregation: widget.config.aggregation,
+    };
+    if ((query.metricNames?.length ?? 0) > 1) {
+      return controller.aggregateSeries(widget.metricType, period, query);
+    }
+
+    const total = tryUnitAware(() => controller.aggregateMetrics(widget.metricType, period, query));
+    if (!total.value) return controller.aggregateSeries(widget.metricType, period, query);
+
+    const names = controller.getMetricNames(widget.metricType);
+    const name = query.metricNames?.[0] ?? controller.getCategory(widget.metricType)?.label ?? '';
+    const unit = names.find(n => n.name === name)?.unit ?? names[0]?.unit ?? '';
+    return [{ name, unit, values: total.value }];
+  });
+
+const getSeriesColor = (category: Category | undefined, index: number): string =>
+  index === 0 ? category?.color ?? CHART_PALETTE[0] : CHART_PALETTE[index % CHART_PALETTE.length];
+
+/**
+ * Chart Legend Component. With `onToggle`, clicking an entry hides or shows its series.
+ */
+const ChartLegend: React.FC<{
+  category?: Category;
+  series: MetricSeries[];
+  hidden?: Set<string>;
+  onToggle?: (name: string) => void;
+}> = ({ category, series, hidden, onToggle }) => (
+  <ul className="chart-legend">
+    {series.map((s, index) => {
+      const entry = (
+        <>
+          <span className="legend-swatch" style={{ backgroundColor: getSeriesColor(category, index) }} />
+          {s.name} ({s.unit})
+        </>
+      );
+      return (
+        <li key={s.name} className={hidden?.has(s.name) ? 'legend-hidden' : ''}>
+          {onToggle ? <button onClick={() => onToggle(s.name)}>{entry}</button> : entry}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 220;
+const CHART_MARGIN = { top: 12, right: 16, bottom: 28, left: 48 };
+
+/**
+ * Round axis values covering min and max, e.g. 0, 2.5k, 5k, 7.5k, 10k
+ */
+const getAxisTicks = (min: number, max: number, count = 4): number[] => {
+  const span = max > min ? max - min : Math.abs(max) || 1;
+  const rough = span / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map(f => f * magnitude).find(s => s >= rough)!;
+  const first = Math.floor(min / step) * step;
+  const last = Math.max(Math.ceil(max / step) * step, first + step);
+
+  const ticks: number[] = [];
+  for (let tick = first; tick <= last + step / 2; tick += step) ticks.push(Number(tick.toPrecision(12)));
+  return ticks;
+};
+
+/**
+ * SVG line chart of bucketed series, with axes, optional gridlines and a
+ * legend that hides series when clicked. Hovering shows the values of the
+ * bucket under the pointer, dragging across buckets zooms into them and
+ * clicking a point hands its bucket and series to `onSelect`.
+ */
+const TimeSeriesChart: React.FC<{
+  series: MetricSeries[];
+  period: PeriodType;
+  category?: Category;
+  showGrid?: boolean;
+  showLegend?: boolean;
+  onSelect?: (key: string, series: MetricSeries) => void;
+}> = ({ series, period, category, showGrid = true, showLegend = series.length > 1, onSelect }) => {
+  const { locale, t, formatNumber, formatValue } = useI18n();
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set());
+  // First and last bucket keys shown after a brush selection
+  const [zoom, setZoom] = useState<{ start: string; end: string } | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [brush, setBrush] = useState<{ from: number; to: number } | null>(null);
+
+  const { top, right, bottom, left } = CHART_MARGIN;
+  const plotWidth = CHART_WIDTH - left - right;
+  const plotHeight = CHART_HEIGHT - top - bottom;
+
+  const colored = series.map((s, index) => ({ ...s, color: getSeriesColor(category, index) }));
+  const shown = colored.filter(s => !hidden.has(s.name));
+  const allKeys = [...new Set(series.flatMap(s => Object.keys(s.values)))].sort();
+  const zoomed = zoom ? allKeys.filter(key => key >= zoom.start && key <= zoom.end) : [];
+  const keys = zoomed.length > 0 ? zoomed : allKeys;
+
+  const values = shown.flatMap(s => keys.flatMap(key => (s.values[key] !== undefined ? [s.values[key]] : [])));
+  const ticks = getAxisTicks(Math.min(0, ...values), Math.max(0, ...values));
+  const [low, high] = [ticks[0], ticks[ticks.length - 1]];
+
+  const x = (index: number) => left + (keys.length > 1 ? (index / (keys.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => top + (1 - (value - low) / (high - low)) * plotHeight;
+  // Label at most ~6 buckets so the axis stays legible
+  const labelEvery = Math.ceil(keys.length / 6);
+
+  /**
+   * Bucket under the pointer and the pointer height, in SVG units
+   */
+  const getPointer = (e: React.PointerEvent<SVGRectElement>) => {
+    const box = e.currentTarget.ownerSVGElement!.getBoundingClientRect();
+    const px = ((e.clientX - box.left) / box.width) * CHART_WIDTH;
+    const py = ((e.clientY - box.top) / box.height) * CHART_HEIGHT;
+    const index = keys.length > 1 ? Math.round(((px - left) / plotWidth) * (keys.length - 1)) : 0;
+    return { index: Math.min(Math.max(index, 0), keys.length - 1), py };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGRectElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { index } = getPointer(e);
+    setBrush({ from: index, to: index });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGRectElement>) => {
+    const { index } = getPointer(e);
+    setHoverIndex(index);
+    if (brush) setBrush({ ...brush, to: index });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGRectElement>) => {
+    if (!brush) return;
+    const { index, py } = getPointer(e);
+    const [from, to] = [Math.min(brush.from, index), Math.max(brush.from, index)];
+    setBrush(null);
+
+    if (to > from) {
+      setZoom({ start: keys[from], end: keys[to] });
+      setHoverIndex(null);
+      return;
+    }
+    // A click picks the series whose point is closest to the pointer
+    const key = keys[index];
+    const [nearest] = shown
+      .filter(s => s.values[key] !== undefined)
+      .sort((a, b) => Math.abs(y(a.values[key]) - py) - Math.abs(y(b.values[key]) - py));
+    if (nearest && onSelect) onSelect(key, nearest);
+  };
+
+  const toggleSeries = (name: string) => {
+    const next = new Set(hidden);
+    if (!next.delete(name)) next.add(name);
+    setHidden(next);
+  };
+
+  if (allKeys.length === 0) return <div className="widget-empty">{t('widget.noDataInRange')}</div>;
+
+  const hoverKey = hoverIndex !== null && !brush ? keys[hoverIndex] : undefined;
+
+  return (
+    <div className="time-series-chart">
+      <div className="chart-toolbar">
+        {zoom && zoomed.length > 0 ? (
+          <button onClick={() => setZoom(null)} className="btn-secondary">{t('chart.resetZoom')}</button>
+        ) : (
+          <span>{t(onSelect ? 'chart.hint' : 'chart.hintZoom')}</span>
+        )}
+      </div>
+      <div className="chart-plot">
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="chart-svg"
+          role="img"
+          aria-label={shown.map(s => s.name).join(', ')}
+        >
+          {ticks.map(tick => (
+            <g key={tick}>
+              {showGrid && <line className="chart-grid" x1={left} x2={CHART_WIDTH - right} y1={y(tick)} y2={y(tick)} />}
+              <text className="chart-axis-label" x={left - 6} y={y(tick)} dy="0.32em" textAnchor="end">
+                {formatNumber(tick, 1)}
+              </text>
+            </g>
+          ))}
+          {keys.map((key, index) =>
+            index % labelEvery === 0 && (
+              <g key={key}>
+                {showGrid && <line className="chart-grid" x1={x(index)} x2={x(index)} y1={top} y2={top + plotHeight} />}
+                <text className="chart-axis-label" x={x(index)} y={CHART_HEIGHT - bottom + 18} textAnchor="middle">
+                  {formatBucketLabel(key, period, locale)}
+                </text>
+              </g>
+            )
+          )}
+          <line className="chart-axis" x1={left} x2={left} y1={top} y2={top + plotHeight} />
+          <line className="chart-axis" x1={left} x2={CHART_WIDTH - right} y1={top + plotHeight} y2={top + plotHeight} />
+
+          {shown.map(s => {
+            const points = keys.flatMap((key, index) => (s.values[key] !== undefined ? [[x(index), y(s.values[key])]] : []));
+            return (
+              <g key={s.name}>
+                <path
+                  className="chart-line"
+                  stroke={s.color}
+                  d={points.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${px.toFixed(1)},${py.toFixed(1)}`).join(' ')}
+                />
+                {points.map(([px, py]) => (
+                  <circle key={px} cx={px} cy={py} r={keys.length > 60 ? 1.5 : 3} fill={s.color} />
+                ))}
+              </g>
+            );
+          })}
+
+          {hoverIndex !== null && hoverKey && (
+            <line className="chart-guide" x1={x(hoverIndex)} x2={x(hoverIndex)} y1={top} y2={top + plotHeight} />
+          )}
+          {brush && brush.from !== brush.to && (
+            <rect
+              className="chart-brush"
+              x={x(Math.min(brush.from, brush.to))}
+              y={top}
+              width={Math.abs(x(brush.to) - x(brush.from))}
+              height={plotHeight}
+            />
+          )}
+          <rect
+            className="chart-overlay"
+            x={left}
+            y={top}
+            width={plotWidth}
+            height={plotHeight}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={() => setHoverIndex(null)}
+            onPointerCancel={() => setBrush(null)}
+          />
+        </svg>
+        {hoverIndex !== null && hoverKey && (
+          <div
+            className={`chart-tooltip ${x(hoverIndex) > CHART_WIDTH / 2 ? 'flip' : ''}`}
+            style={{ left: `${(x(hoverIndex) / CHART_WIDTH) * 100}%` }}
+          >
+            <strong>{formatBucketLabel(hoverKey, period, locale)}</strong>
+            {shown
+              .filter(s => s.values[hoverKey] !== undefined)
+              .map(s => (
+                <div key={s.name}>
+                  <span className="legend-swatch" style={{ backgroundColor: s.color }} />
+                  {s.name}: {formatValue(s.values[hoverKey], s.unit, 1)}
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+      {showLegend && <ChartLegend category={category} series={series} hidden={hidden} onToggle={toggleSeries} />}
+    </div>
+  );
+};
+
+
+/**
+ * Stat Widget Component
+ */
+const StatWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const { locale, timeZone, t, formatNumber } = useI18n();
+  const range = widget.config.range ?? lastDays(7);
+  const aggregation =
+    widget.config.aggregation ?? controller.getDefaultAggregation(widget.metricType, widget.config.metricNames, 'avg');
+  const { value: stats, mismatch } = tryUnitAware(() =>
+    controller.getStatistics(widget.metricType, { range, metricNames: widget.config.metricNames, aggregation })
+  );
+  const mainValue = tryUnitAware(() =>
+    controller.computeAggregate(widget.metricType, { range, metricNames: widget.config.metricNames, aggregation })
+  ).value;
+  const metricConfig = controller.getCategory(widget.metricType);
+
+  const getTrendIcon = () => {
+    if (stats?.trend === 'up') return '📈';
+    if (stats?.trend === 'down') return '📉';
+    return '➡️';
+  };
+
+  return (
+    <div className="widget stat-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {stats ? (
+        <div className="stat-content">
+          <div className="stat-value">{formatNumber(mainValue?.value ?? stats.average, 1)}</div>
+          <div className="stat-label">
+            {stats.unit
+              ? t('widget.statLabelUnit', { aggregation: getAggregationLabel(aggregation, locale), unit: stats.unit })
+              : getAggregationLabel(aggregation, locale)}{' '}
+            ({describeTimeRange(range, locale, timeZone)})
+          </div>
+          {widget.config.showTrend && (
+            <div className="stat-trend">
+              <span>{getTrendIcon()}</span>
+              <span>{t(`trend.${stats.trend}`)}</span>
+            </div>
+          )}
+          <div className="stat-details">
+            <div className="stat-detail">
+              <span>{t('widget.total')}:</span>
+              <strong>{formatNumber(stats.total, 0)}</strong>
+            </div>
+            <div className="stat-detail">
+              <span>{t('widget.max')}:</span>
+              <strong>{formatNumber(stats.max, 0)}</strong>
+            </div>
+          </div>
+        </div>
+      ) : (
+        mismatch && <UnitMismatchNotice error={mismatch} />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Line Chart Widget Component
+ */
+const LineChartWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const { navigate } = useRouter();
+  const period = widget.config.period ?? 'day';
+  const { value: series, mismatch } = getWidgetSeries(controller, widget, period);
+  const metricConfig = controller.getCategory(widget.metricType);
+  const metricNames = controller.getMetricNames(widget.metricType);
+
+  // Open the entries behind a point; a category total is not filtered by name
+  const handleSelect = (key: string, selected: MetricSeries) => {
+    navigate({
+      view: 'metrics',
+      metricType: widget.metricType,
+      filters: {
+        ...getBucketDays(key, period),
+        name: metricNames.some(n => n.name === selected.name) ? selected.name : undefined,
+      },
+    });
+  };
+
+  return (
+    <div className="widget chart-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {series ? (
+        <TimeSeriesChart
+          series={series}
+          period={period}
+          category={metricConfig}
+          showGrid={widget.config.showGrid ?? true}
+          showLegend={widget.config.showLegend ?? series.length > 1}
+          onSelect={handleSelect}
+        />
+      ) : (
+        mismatch && <UnitMismatchNotice error={mismatch} />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Bar Chart Widget Component
+ */
+const BarChartWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const { locale, formatValue } = useI18n();
+  const period = widget.config.period ?? 'day';
+  const { value: series, mismatch } = getWidgetSeries(controller, widget, period);
+  const metricConfig = controller.getCategory(widget.metricType);
+
+  const keys = [...new Set((series ?? []).flatMap(s => Object.keys(s.values)))].sort();
+  const maxValue = Math.max(0, ...(series ?? []).flatMap(s => Object.values(s.values)));
+  // Bars grow from zero, so negative values and all-zero series get no height
+  const getBarHeight = (value = 0) => (maxValue > 0 ? (Math.max(0, value) / maxValue) * 100 : 0);
+
+  return (
+    <div className="widget chart-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {series ? (
+        <div className="chart-content">
+          <div className="bar-chart">
+            {keys.map(key => (
+              <div key={key} className="bar-item">
+                <div className="bar-container">
+                  {series.map((s, index) => (
+                    <div
+                      key={s.name}
+                      className="bar-fill"
+                      style={{
+                        height: `${getBarHeight(s.values[key])}%`,
+                        backgroundColor: getSeriesColor(metricConfig, index),
+                      }}
+                      title={`${s.name}: ${formatValue(s.values[key] ?? 0, s.unit, 1)}`}
+                    />
+                  ))}
+                </div>
+                <div className="bar-label">{formatBucketLabel(key, period, locale)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        mismatch && <UnitMismatchNotice error={mismatch} />
+      )}
+      {series && series.length > 1 && <ChartLegend category={metricConfig} series={series} />}
+    </div>
+  );
+};
+
+/**
+ * Pie Chart Widget Component
+ */
+const PieChartWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const { t, formatNumber } = useI18n();
+  const { value: breakdown, mismatch } = tryUnitAware(() =>
+    controller.breakdownMetrics(widget.metricType, {
+      range: widget.config.range ?? lastDays(30),
+      metricNames: widget.config.metricNames,
+      aggregation: widget.config.aggregation,
+    })
+  );
+  const metricConfig = controller.getCategory(widget.metricType);
+
+  const slices = Object.entries(breakdown ?? {})
+    .sort(([, a], [, b]) => b - a)
+    .map(([label, value], index) => ({ label, value, color: CHART_PALETTE[index % CHART_PALETTE.length] }));
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+  const radius = 80;
+  const innerRadius = widget.config.donut ? 48 : 0;
+
+  // Build each slice as an SVG arc path, starting at 12 o'clock
+  const pointAt = (angle: number, r: number) =>
+    `${100 + r * Math.sin(angle)} ${100 - r * Math.cos(angle)}`;
+
+  let startAngle = 0;
+  const paths = slices.map(slice => {
+    const sweep = (slice.value / total) * Math.PI * 2;
+    const endAngle = startAngle + Math.min(sweep, Math.PI * 2 - 0.0001);
+    const largeArc = sweep > Math.PI ? 1 : 0;
+    const d = innerRadius > 0
+      ? `M ${pointAt(startAngle, radius)} A ${radius} ${radius} 0 ${largeArc} 1 ${pointAt(endAngle, radius)} ` +
+        `L ${pointAt(endAngle, innerRadius)} A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${pointAt(startAngle, innerRadius)} Z`
+      : `M 100 100 L ${pointAt(startAngle, radius)} A ${radius} ${radius} 0 ${largeArc} 1 ${pointAt(endAngle, radius)} Z`;
+    startAngle += sweep;
+    return { ...slice, d };
+  });
+
+  return (
+    <div className="widget chart-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {total > 0 ? (
+        <div className="pie-content">
+          <svg className="pie-chart" viewBox="0 0 200 200">
+            {paths.map(slice => (
+              <path key={slice.label} d={slice.d} fill={slice.color}>
+                <title>{`${slice.label}: ${formatNumber(slice.value, 1)}`}</title>
+              </path>
+            ))}
+            {innerRadius > 0 && (
+              <text x="100" y="106" textAnchor="middle" className="pie-total">
+                {formatNumber(total, 0)}
+              </text>
+            )}
+          </svg>
+          <ul className="pie-legend">
+            {slices.map(slice => (
+              <li key={slice.label}>
+                <span className="legend-swatch" style={{ backgroundColor: slice.color }} />
+                <span className="legend-label">{slice.label}</span>
+                <strong>
+                  {widget.config.showPercentages
+                    ? `${formatNumber((slice.value / total) * 100, 1)}%`
+                    : formatNumber(slice.value, 0)}
+                </strong>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : mismatch ? (
+        <UnitMismatchNotice error={mismatch} />
+      ) : (
+        <div className="widget-empty">{t('widget.noDataInRange')}</div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Progress Widget Component
+ */
+const ProgressWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const goal = widget.config.goalId ? controller.getGoal(widget.config.goalId) : undefined;
+  return goal ? <GoalProgressWidget widget={widget} goal={goal} /> : <TargetProgressWidget widget={widget} />;
+};
+
+/**
+ * Progress bar, value and caption shared by the progress widgets
+ */
+const ProgressBar: React.FC<{
+  current: number;
+  target: number;
+  unit: string | null;
+  color?: string;
+  caption: React.ReactNode;
+}> = ({ current, target, unit, color, caption }) => {
+  const { t, formatNumber } = useI18n();
+  const percent = target ? (current / target) * 100 : 0;
+  return (
+    <div className="progress-content">
+      <div className="progress-values">
+        <span className="progress-current">{formatNumber(current, 0)}</span>
+        <span className="progress-target">/ {formatNumber(target, 0)} {unit ?? ''}</span>
+      </div>
+      <div className="progress-track">
+        <div className="progress-fill" style={{ width: `${Math.min(percent, 100)}%`, backgroundColor: color }} />
+      </div>
+      <div className="stat-label">
+        {t('widget.percentOfTarget', { percent: formatNumber(percent, 0) })} {caption}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Progress of the current period of a goal, with its streak
+ */
+const GoalProgressWidget: React.FC<{ widget: Widget; goal: Goal }> = ({ widget, goal }) => {
+  const { controller } = useDashboard();
+  const { locale, t } = useI18n();
+  const { value: progress, mismatch } = tryUnitAware(() => controller.getGoalProgress(goal.id));
+  const metricConfig = controller.getCategory(widget.metricType);
+  const exceeded = goal.direction === 'at-most' && progress && !progress.current.achieved;
+  const direction = GOAL_DIRECTIONS.find(d => d.value === goal.direction);
+
+  return (
+    <div className="widget progress-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {mismatch && <UnitMismatchNotice error={mismatch} />}
+      {progress && (
+        <>
+          <ProgressBar
+            current={progress.current.value}
+            target={goal.target}
+            unit={progress.unit}
+            color={exceeded ? 'var(--danger)' : metricConfig?.color}
+            caption={`(${direction ? t(direction.labelKey).toLowerCase() : ''}, ${t('widget.perPeriod', {
+              aggregation: getAggregationLabel(progress.aggregation, locale).toLowerCase(),
+              period: getPeriodNoun(goal.period, 1, locale),
+            })})`}
+          />
+          <div className="goal-streak">
+            🔥 {t('widget.streak', {
+              streak: progress.streak,
+              noun: getPeriodNoun(goal.period, progress.streak, locale),
+              best: progress.bestStreak,
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Progress over the widget's own range against `config.target`
+ */
+const TargetProgressWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const range = widget.config.range ?? lastDays(7);
+  const aggregation =
+    widget.config.aggregation ?? controller.getDefaultAggregation(widget.metricType, widget.config.metricNames, 'sum');
+  const { value: stats, mismatch } = tryUnitAware(() =>
+    controller.computeAggregate(widget.metricType, { range, metricNames: widget.config.metricNames, aggregation })
+  );
+  const metricConfig = controller.getCategory(widget.metricType);
+  const { locale, timeZone, t } = useI18n();
+  const target: number | undefined = widget.config.target;
+
+  return (
+    <div className="widget progress-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {mismatch && <UnitMismatchNotice error={mismatch} />}
+      {stats && (target ? (
+        <ProgressBar
+          current={stats.value}
+          target={target}
+          unit={stats.unit}
+          color={metricConfig?.color}
+          caption={`(${getAggregationLabel(aggregation, locale).toLowerCase()}, ${describeTimeRange(range, locale, timeZone)})`}
+        />
+      ) : (
+        <div className="widget-empty">{t('widget.noTarget')}</div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * List Widget Component
+ */
+const ListWidget: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const { controller } = useDashboard();
+  const metrics = controller.getRecentMetrics(widget.metricType, widget.config.limit ?? 5, widget.config.metricNames);
+  const metricConfig = controller.getCategory(widget.metricType);
+  const { t, formatValue, formatDate } = useI18n();
+
+  return (
+    <div className="widget list-widget" style={{ borderTopColor: metricConfig?.color }}>
+      <div className="widget-header">
+        <h3>{widget.title}</h3>
+        <span className="widget-icon">{metricConfig?.icon}</span>
+      </div>
+      {metrics.length > 0 ? (
+        <ul className="widget-list">
+          {metrics.map(metric => (
+            <li key={metric.id}>
+              <div>
+                <span className="widget-list-name">{metric.name}</span>
+                <span className="widget-list-date">{formatDate(metric.timestamp)}</span>
+              </div>
+              <strong>{formatValue(metric.value, metric.unit, 10)}</strong>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="widget-empty">{t('widget.noEntries')}</div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Widget Renderer
+ */
+const WidgetRenderer: React.FC<{ widget: Widget }> = ({ widget }) => {
+  switch (widget.type) {
+    case 'stat':
+      return <StatWidget widget={widget} />;
+    case 'line':
+      return <LineChartWidget widget={widget} />;
+    case 'bar':
+      return <BarChartWidget widget={widget} />;
+    case 'pie':
+      return <PieChartWidget widget={widget} />;
+    case 'progress':
+      return <ProgressWidget widget={widget} />;
+    case 'list':
+      return <ListWidget widget={widget} />;
+    default:
+      return <StatWidget widget={widget} />;
+  }
+};
+
+/**
+ * Dashboard View
+ */
+const DashboardView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { t } = useI18n();
+  const widgets = controller.getVisibleWidgets();
+
+  return (
+    <div className="dashboard-view">
+      <div className="dashboard-header">
+        <h2>{t('nav.dashboard')}</h2>
+        <p className="dashboard-subtitle">{t('dashboard.subtitle')}</p>
+      </div>
+
+      <div className="widgets-grid">
+        {widgets.map(widget => (
+          <WidgetRenderer key={widget.id} widget={widget} />
+        ))}
+      </div>
+
+      {widgets.length === 0 && (
+        <div className="empty-state">
+          <p>{t('dashboard.empty')}</p>
+          <Link to={{ view: 'settings' }} className="btn-primary">
+            {t('dashboard.openSettings')}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const METRIC_SORT_KEYS: { value: MetricSortKey; labelKey: MessageKey }[] = [
+  { value: 'date', labelKey: 'metricSort.date' },
+  { value: 'value', labelKey: 'metricSort.value' },
+  { value: 'name', labelKey: 'metricSort.name' },
+];
+
+const METRICS_PAGE_SIZE = 25;
+
+const BULK_ACTIONS: { value: BulkMetricAction; labelKey: MessageKey }[] = [
+  { value: 'delete', labelKey: 'bulk.delete' },
+  { value: 'retype', labelKey: 'bulk.retype' },
+  { value: 'rename', labelKey: 'bulk.rename' },
+  { value: 'shift', labelKey: 'bulk.shift' },
+  { value: 'convert', labelKey: 'bulk.convert' },
+];
+
+const SHIFT_STEPS: { value: number; labelKey: MessageKey }[] = [
+  { value: 60 * 60 * 1000, labelKey: 'bulk.hours' },
+  { value: DAY_MS, labelKey: 'bulk.days' },
+];
+
+// Newest entries and largest values come first, names alphabetically
+const getDefaultSortOrder = (sort: MetricSortKey): SortOrder => (sort === 'name' ? 'asc' : 'desc');
+
+/**
+ * Entries matching the MetricsView filters, in the requested order. Ties are
+ * broken by timestamp so that pages stay stable between renders
+ */
+const applyMetricFilters = (metrics: Metric[], filters: MetricFilters, timeZone: string, locale: Locale): Metric[] => {
+  const search = filters.q?.trim().toLowerCase();
+  const start = filters.start ? fromDateInputValue(filters.start, timeZone) : -Infinity;
+  const end = filters.end ? fromDateInputValue(filters.end, timeZone, true) : Infinity;
+  const min = parseFloat(filters.min ?? '');
+  const max = parseFloat(filters.max ?? '');
+  const metaValue = filters.metaValue?.trim().toLowerCase();
+
+  const matchesMetadata = (metric: Metric) => {
+    if (!filters.metaKey && !metaValue) return true;
+    const entries = Object.entries(metric.metadata ?? {}).filter(([key]) => !filters.metaKey || key === filters.metaKey);
+    return entries.length > 0 && (!metaValue || entries.some(([, value]) => String(value).toLowerCase().includes(metaValue)));
+  };
+
+  const sort = filters.sort ?? 'date';
+  const direction = (filters.order ?? getDefaultSortOrder(sort)) === 'asc' ? 1 : -1;
+  const compare = (a: Metric, b: Metric) => {
+    switch (sort) {
+      case 'value':
+        return a.value - b.value;
+      case 'name':
+        return a.name.localeCompare(b.name, locale);
+      default:
+        return 0;
+    }
+  };
+
+  return metrics
+    .filter(
+      m =>
+        (!filters.name || m.name === filters.name) &&
+        (!search || m.name.toLowerCase().includes(search)) &&
+        (!filters.unit || m.unit === filters.unit) &&
+        m.timestamp >= start &&
+        m.timestamp <= end &&
+        (Number.isNaN(min) || m.value >= min) &&
+        (Number.isNaN(max) || m.value <= max) &&
+        matchesMetadata(m)
+    )
+    .sort((a, b) => (compare(a, b) || a.timestamp - b.timestamp) * direction);
+};
+
+/**
+ * Metrics View
+ */
+const MetricsView: React.FC = () => {
+  const { controller, forceUpdate } = useDashboard();
+  const { route, navigate } = useRouter();
+  const { locale, timeZone, t, tp, formatNumber, formatValue, formatDateTime } = useI18n();
+  const selectedType = route.metricType ?? controller.getCategories()[0]?.id ?? '';
+  const filters = route.filters ?? {};
+  const selectedName = filters.name ?? '';
+  const [showAddForm, setShowAddForm] = useState(false);
+
+  const [formData, setFormData] = useState({
+    definitionId: '',
+    value: '',
+    timestamp: '',
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; definitionId: string; value: string; timestamp: string } | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulk, setBulk] = useState({
+    action: 'delete' as BulkMetricAction,
+    definitionId: '',
+    name: '',
+    amount: '',
+    step: DAY_MS,
+    factor: '',
+  });
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const { actionError, runAction } = useActionError();
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+
+  const definitions = controller.getDefinitions(selectedType);
+  const formDefinition = definitions.find(d => d.id === formData.definitionId) ?? definitions[0];
+
+  const metricNames = controller.getMetricNames(selectedType);
+  const nameFilter = metricNames.some(n => n.name === selectedName) ? [selectedName] : undefined;
+
+  const units = [...new Set(metricNames.map(n => n.unit))].sort();
+  const metrics = controller.getMetricsByType(selectedType);
+  const metadataKeys = [...new Set(metrics.flatMap(m => Object.keys(m.metadata ?? {})))].sort();
+
+  const sort = filters.sort ?? 'date';
+  const order = filters.order ?? getDefaultSortOrder(sort);
+  const filteredMetrics = applyMetricFilters(metrics, { ...filters, name: nameFilter?.[0] }, timeZone, locale);
+  const pageCount = Math.max(1, Math.ceil(filteredMetrics.length / METRICS_PAGE_SIZE));
+  const page = Math.min(Math.max(1, Math.trunc(Number(filters.page)) || 1), pageCount);
+  const pageMetrics = filteredMetrics.slice((page - 1) * METRICS_PAGE_SIZE, page * METRICS_PAGE_SIZE);
+  const hasFilters = Object.entries(filters).some(([key, value]) => value && !['sort', 'order', 'page'].includes(key));
+
+  // The selection survives paging and filtering, but only covers the category shown
+  const metricIds = new Set(metrics.map(m => m.id));
+  const selectedIds = selected.filter(id => metricIds.has(id));
+  const selectedSet = new Set(selectedIds);
+  const pageSelected = pageMetrics.length > 0 && pageMetrics.every(m => selectedSet.has(m.id));
+
+  // Filter edits replace the history entry and start over at the first page
+  const updateFilters = (updates: MetricFilters) =>
+    navigate(
+      { view: 'metrics', metricType: selectedType, filters: { ...filters, ...updates, page: undefined } },
+      { replace: true }
+    );
+  const setPage = (next: number) =>
+    navigate({ view: 'metrics', metricType: selectedType, filters: { ...filters, page: next > 1 ? String(next) : undefined } });
+
+  const { value: stats, mismatch } = tryUnitAware(() =>
+    controller.getStatistics(selectedType, { range: lastDays(30), metricNames: nameFilter })
+  );
+  const metricConfig = controller.getCategory(selectedType);
+
+  const formatMetricValue = (metric: Metric) => {
+    const definition = controller.findDefinition(metric.type, metric.name);
+    return formatValue(metric.value, metric.unit, definition?.precision ?? 10);
+  };
+
+  const handleAddMetric = async () => {
+    if (!formDefinition || !formData.value) return;
+
+    const resolved = resolveMetricDefinition(
+      { name: formDefinition.name, type: selectedType, value: parseFloat(formData.value), unit: formDefinition.unit },
+      definitions
+    );
+    if (resolved.error !== undefined) {
+      setFormError(resolved.error);
+      return;
+    }
+
+    try {
+      await controller.addMetric({
+        ...resolved.metric,
+        timestamp: formData.timestamp ? fromDateTimeInputValue(formData.timestamp, timeZone) : undefined,
+      });
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+
+    setFormData({ definitionId: formDefinition.id, value: '', timestamp: '' });
+    setFormError(null);
+    setShowAddForm(false);
+  };
+
+  const handleEdit = (metric: Metric) => {
+    setEditing({
+      id: metric.id,
+      definitionId: controller.findDefinition(metric.type, metric.name)?.id ?? '',
+      value: String(metric.value),
+      timestamp: toDateTimeInputValue(metric.timestamp, timeZone),
+    });
+    setEditError(null);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing || !editing.value || !editing.timestamp) return;
+    const definition = definitions.find(d => d.id === editing.definitionId);
+    if (!definition) {
+      setEditError(t('metrics.pickDefinition'));
+      return;
+    }
+
+    const resolved = resolveMetricDefinition(
+      { name: definition.name, type: selectedType, value: parseFloat(editing.value), unit: definition.unit },
+      definitions
+    );
+    if (resolved.error !== undefined) {
+      setEditError(resolved.error);
+      return;
+    }
+
+    try {
+      await controller.updateMetric(editing.id, {
+        name: resolved.metric.name,
+        value: resolved.metric.value,
+        unit: resolved.metric.unit,
+        timestamp: fromDateTimeInputValue(editing.timestamp, timeZone),
+      });
+    } catch (error) {
+      setEditError(getErrorMessage(error));
+      return;
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t('metrics.confirmDelete'))) {
+      runAction(() => controller.deleteMetric(id));
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(selectedSet.has(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+
+  const togglePage = () => {
+    const pageIds = new Set(pageMetrics.map(m => m.id));
+    setSelected(
+      pageSelected ? selectedIds.filter(id => !pageIds.has(id)) : [...new Set([...selectedIds, ...pageIds])]
+    );
+  };
+
+  const handleBulkApply = async () => {
+    const ids = selectedIds;
+    const amount = parseFloat(bulk.amount);
+    const factor = parseFloat(bulk.factor);
+    let request: () => Promise<BulkMetricResult>;
+    switch (bulk.action) {
+      case 'delete':
+        if (!confirm(tp('bulk.confirmDelete', ids.length))) return;
+        request = () => controller.deleteMetrics(ids);
+        break;
+      case 'retype': {
+        const target = controller.getDefinitions().find(d => d.id === bulk.definitionId);
+        if (!target) return;
+        request = () => controller.retypeMetrics(ids, target.category, target.name);
+        break;
+      }
+      case 'rename':
+        if (!bulk.name) return;
+        request = () => controller.renameMetrics(ids, bulk.name);
+        break;
+      case 'shift':
+        if (!amount) return;
+        request = () => controller.shiftMetrics(ids, amount * bulk.step);
+        break;
+      case 'convert':
+        if (!factor) return;
+        request = () => controller.convertMetrics(ids, factor);
+        break;
+    }
+
+    setBulkError(null);
+    setBulkMessage(null);
+    try {
+      const result = await request();
+      setBulkMessage(tp('bulk.done', result.affected));
+      setSelected([]);
+    } catch (error) {
+      setBulkError(getErrorMessage(error));
+    }
+  };
+
+  if (!metricConfig) return <NotFoundView />;
+
+  return (
+    <div className="metrics-view">
+      <div className="metrics-header">
+        <h2>{t('nav.metrics')}</h2>
+        <div className="metrics-actions">
+          <Link to={{ view: 'import' }} className="btn-secondary">{t('metrics.import')}</Link>
+          <button onClick={() => setShowAddForm(!showAddForm)} className="btn-primary">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            {t('metrics.new')}
+          </button>
+        </div>
+      </div>
+
+      {showAddForm && (
+        <div className="add-metric-form">
+          <h3>{t('metrics.addTitle')}</h3>
+          {formDefinition ? (
+            <div className="form-row">
+              <select
+                value={formDefinition.id}
+                onChange={e => setFormData({ ...formData, definitionId: e.target.value })}
+              >
+                {definitions.map(d => (
+                  <option key={d.id} value={d.id}>{d.name} ({d.unit})</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                placeholder={t('metrics.valuePlaceholder', { unit: formDefinition.unit })}
+                value={formData.value}
+                min={formDefinition.min}
+                max={formDefinition.max}
+                step={getPrecisionStep(formDefinition.precision)}
+                onChange={e => setFormData({ ...formData, value: e.target.value })}
+              />
+              <input
+                type="datetime-local"
+                title={t('metrics.timestampHint')}
+                value={formData.timestamp}
+                max={toDateTimeInputValue(Date.now(), timeZone)}
+                onChange={e => setFormData({ ...formData, timestamp: e.target.value })}
+              />
+              <button onClick={handleAddMetric} className="btn-primary">{t('common.add')}</button>
+            </div>
+          ) : (
+            <div className="metrics-notice">
+              {t('metrics.noDefinitions')}{' '}
+              <Link to={{ view: 'definitions' }}>{t('metrics.defineMetric')}</Link>
+            </div>
+          )}
+          {formError && <div className="form-error">{formError}</div>}
+        </div>
+      )}
+
+      <div className="metrics-filters">
+        <div className="search-box">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            type="text"
+            placeholder={t('metrics.search')}
+            value={filters.q ?? ''}
+            onChange={e => updateFilters({ q: e.target.value })}
+          />
+        </div>
+
+        <div className="type-filters">
+          {controller.getCategories().map(type => (
+            <button
+              key={type.id}
+              onClick={() => navigate({ view: 'metrics', metricType: type.id })}
+              className={`type-filter ${selectedType === type.id ? 'active' : ''}`}
+              style={{
+                borderColor: type.color,
+                backgroundColor: selectedType === type.id ? type.color : 'transparent',
+                color: selectedType === type.id ? '#fff' : 'currentColor',
+              }}
+            >
+              {type.icon} {type.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="metrics-advanced-filters">
+          <select value={nameFilter ? selectedName : ''} onChange={e => updateFilters({ name: e.target.value })}>
+            <option value="">{t('metrics.allNames')}</option>
+            {metricNames.map(n => (
+              <option key={n.name} value={n.name}>{n.name} ({n.unit})</option>
+            ))}
+          </select>
+          <select value={filters.unit ?? ''} onChange={e => updateFilters({ unit: e.target.value })}>
+            <option value="">{t('metrics.allUnits')}</option>
+            {units.map(unit => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            title={t('common.from')}
+            value={filters.start ?? ''}
+            onChange={e => updateFilters({ start: e.target.value })}
+          />
+          <input
+            type="date"
+            title={t('common.until')}
+            value={filters.end ?? ''}
+            onChange={e => updateFilters({ end: e.target.value })}
+          />
+          <input
+            type="number"
+            placeholder={t('metrics.minValue')}
+            value={filters.min ?? ''}
+            onChange={e => updateFilters({ min: e.target.value })}
+          />
+          <input
+            type="number"
+            placeholder={t('metrics.maxValue')}
+            value={filters.max ?? ''}
+            onChange={e => updateFilters({ max: e.target.value })}
+          />
+          <select value={filters.metaKey ?? ''} onChange={e => updateFilters({ metaKey: e.target.value })}>
+            <option value="">{t('metrics.anyMetadata')}</option>
+            {metadataKeys.map(key => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder={t('metrics.metadataValue')}
+            value={filters.metaValue ?? ''}
+            onChange={e => updateFilters({ metaValue: e.target.value })}
+          />
+          {hasFilters && (
+            <button
+              onClick={() => navigate({ view: 'metrics', metricType: selectedType, filters: { sort: filters.sort, order: filters.order } })}
+              className="btn-secondary"
+            >
+              {t('metrics.clearFilters')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {mismatch && (
+        <div className="metrics-notice">
+          {t('metrics.unitMismatch', { units: mismatch.units.join(', ') })}
+        </div>
+      )}
+
+      {stats && (
+        <div className="metrics-stats">
+          <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
+            <span className="stat-label">{t('metrics.total30')}{stats.unit ? ` · ${stats.unit}` : ''}</span>
+            <span className="stat-value">{formatNumber(stats.total, 0)}</span>
+          </div>
+          <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
+            <span className="stat-label">{t('aggregation.avg')}</span>
+            <span className="stat-value">{formatNumber(stats.average, 1)}</span>
+          </div>
+          <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
+            <span className="stat-label">{t('aggregation.max')}</span>
+            <span className="stat-value">{formatNumber(stats.max, 0)}</span>
+          </div>
+          <div className="stat-card" style={{ borderLeftColor: metricConfig?.color }}>
+            <span className="stat-label">{t('metrics.trend')}</span>
+            <span className="stat-value">{stats.trend === 'up' ? '📈' : stats.trend === 'down' ? '📉' : '➡️'}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="metrics-list-header">
+        <label className="metric-select">
+          <input type="checkbox" checked={pageSelected} onChange={togglePage} title={t('bulk.selectPage')} />
+          {tp('common.entries', filteredMetrics.length)}
+        </label>
+        <div className="metrics-sort">
+          <select
+            value={sort}
+            title={t('metrics.sortBy')}
+            onChange={e => updateFilters({ sort: e.target.value as MetricSortKey, order: undefined })}
+          >
+            {METRIC_SORT_KEYS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateFilters({ order: order === 'asc' ? 'desc' : 'asc' })}
+            className="btn-secondary"
+            title={order === 'asc' ? t('sortOrder.asc') : t('sortOrder.desc')}
+          >
+            {order === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="bulk-bar">
+          <span>{tp('bulk.selected', selectedIds.length)}</span>
+          {selectedIds.length < filteredMetrics.length && (
+            <button onClick={() => setSelected(filteredMetrics.map(m => m.id))} className="btn-secondary">
+              {tp('bulk.selectAll', filteredMetrics.length)}
+            </button>
+          )}
+          <button onClick={() => setSelected([])} className="btn-secondary">{t('bulk.clearSelection')}</button>
+          <select value={bulk.action} onChange={e => setBulk({ ...bulk, action: e.target.value as BulkMetricAction })}>
+            {BULK_ACTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+          {bulk.action === 'retype' && (
+            <select value={bulk.definitionId} onChange={e => setBulk({ ...bulk, definitionId: e.target.value })}>
+              <option value="">{t('bulk.pickTarget')}</option>
+              {controller.getCategories().filter(c => c.id !== selectedType).map(c => (
+                <optgroup key={c.id} label={`${c.icon} ${c.label}`}>
+                  {controller.getDefinitions(c.id).map(d => (
+                    <option key={d.id} value={d.id}>{d.name} ({d.unit})</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          )}
+          {bulk.action === 'rename' && (
+            <select value={bulk.name} onChange={e => setBulk({ ...bulk, name: e.target.value })}>
+              <option value="">{t('bulk.pickMetric')}</option>
+              {definitions.map(d => (
+                <option key={d.id} value={d.name}>{d.name} ({d.unit})</option>
+              ))}
+            </select>
+          )}
+          {bulk.action === 'shift' && (
+            <>
+              <input
+                type="number"
+                placeholder={t('bulk.shiftAmount')}
+                value={bulk.amount}
+                onChange={e => setBulk({ ...bulk, amount: e.target.value })}
+              />
+              <select value={bulk.step} onChange={e => setBulk({ ...bulk, step: Number(e.target.value) })}>
+                {SHIFT_STEPS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {bulk.action === 'convert' && (
+            <input
+              type="number"
+              placeholder={t('bulk.factor')}
+              title={t('bulk.factorHint')}
+              value={bulk.factor}
+              onChange={e => setBulk({ ...bulk, factor: e.target.value })}
+            />
+          )}
+          <button onClick={handleBulkApply} className="btn-primary">
+            {t('bulk.apply')}
+          </button>
+        </div>
+      )}
+      {bulkError && <div className="form-error">{bulkError}</div>}
+      {actionError && <div className="form-error">{actionError}</div>}
+      {bulkMessage && <div className="metrics-notice">{bulkMessage}</div>}
+
+      <div className="metrics-list">
+        {pageMetrics.length === 0 && <div className="widget-empty">{t('metrics.noneFound')}</div>}
+        {pageMetrics.map(metric => editing?.id === metric.id ? (
+          <div key={metric.id} className="metric-item editing" style={{ borderLeftColor: metricConfig?.color }}>
+            <div className="metric-edit-fields">
+              <select
+                value={editing.definitionId}
+                onChange={e => setEditing({ ...editing, definitionId: e.target.value })}
+              >
+                {!editing.definitionId && <option value="">{t('metrics.undefinedName', { name: metric.name })}</option>}
+                {definitions.map(d => (
+                  <option key={d.id} value={d.id}>{d.name} ({d.unit})</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={editing.value}
+                onChange={e => setEditing({ ...editing, value: e.target.value })}
+              />
+              <input
+                type="datetime-local"
+                value={editing.timestamp}
+                onChange={e => setEditing({ ...editing, timestamp: e.target.value })}
+              />
+              {editError && <div className="form-error">{editError}</div>}
+            </div>
+            <button onClick={handleSaveEdit} className="btn-primary">{t('common.save')}</button>
+            <button onClick={() => setEditing(null)} className="btn-secondary">{t('common.cancel')}</button>
+          </div>
+        ) : (
+          <div
+            key={metric.id}
+            className={`metric-item ${selectedSet.has(metric.id) ? 'selected' : ''}`}
+            style={{ borderLeftColor: metricConfig?.color }}
+          >
+            <input
+              type="checkbox"
+              className="metric-select"
+              checked={selectedSet.has(metric.id)}
+              onChange={() => toggleSelected(metric.id)}
+              title={t('bulk.select')}
+            />
+            <div className="metric-info">
+              <h4>{metric.name}</h4>
+              <span className="metric-date">{formatDateTime(metric.timestamp)}</span>
+              {Object.entries(metric.metadata ?? {}).map(([key, value]) => (
+                <span key={key} className="metric-meta">{key}: {String(value)}</span>
+              ))}
+            </div>
+            <div className="metric-value">{formatMetricValue(metric)}</div>
+            <button onClick={() => handleEdit(metric)} className="btn-edit" title={t('common.edit')}>
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+            <button onClick={() => handleDelete(metric.id)} className="btn-delete" title={t('common.delete')}>
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="pagination">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn-secondary">
+            ← {t('pagination.previous')}
+          </button>
+          <span>{t('pagination.status', { page, pages: pageCount })}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pageCount} className="btn-secondary">
+            {t('pagination.next')} →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+type InsightTab = 'current' | 'hidden' | 'history';
+
+const INSIGHT_TABS: { value: InsightTab; labelKey: MessageKey }[] = [
+  { value: 'current', labelKey: 'insightTab.current' },
+  { value: 'hidden', labelKey: 'insightTab.hidden' },
+  { value: 'history', labelKey: 'insightTab.history' },
+];
+
+const INSIGHT_TYPES: { value: Insight['type']; labelKey: MessageKey }[] = [
+  { value: 'positive', labelKey: 'insightType.positive' },
+  { value: 'negative', labelKey: 'insightType.negative' },
+  { value: 'neutral', labelKey: 'insightType.neutral' },
+];
+
+const SNOOZE_DAYS = [1, 3, 7];
+
+/**
+ * Insights View
+ */
+const InsightsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { locale, timeZone, t, tp, tx, formatDate } = useI18n();
+  const { actionError, runAction } = useActionError();
+  const [tab, setTab] = useState<InsightTab>('current');
+  const [filters, setFilters] = useState({ category: '', type: '', rule: '', start: '', end: '' });
+
+  const now = Date.now();
+  const isHidden = (insight: Insight) =>
+    insight.active && (!!insight.dismissed || (!!insight.snoozedUntil && insight.snoozedUntil > now));
+  const rules = controller.getInsightRules();
+  const ruleLabels = new Map(rules.map(rule => [rule.id, getInsightRuleLabel(rule, locale)]));
+
+  const source =
+    tab === 'current'
+      ? controller.getInsights()
+      : controller.getInsightHistory().filter(i => (tab === 'hidden' ? isHidden(i) : !i.active));
+
+  // An insight matches a date range when it was shown at some point within it
+  const start = filters.start ? fromDateInputValue(filters.start, timeZone) : -Infinity;
+  const end = filters.end ? fromDateInputValue(filters.end, timeZone, true) : Infinity;
+  const insights = source.filter(
+    i =>
+      (!filters.category || i.metricType === filters.category) &&
+      (!filters.type || i.type === filters.type) &&
+      (!filters.rule || i.rule === filters.rule) &&
+      i.timestamp <= end &&
+      i.lastSeenAt >= start
+  );
+
+  const getInsightIcon = (type: string) => {
+    switch (type) {
+      case 'positive':
+        return '✅';
+      case 'negative':
+        return '⚠️';
+      default:
+        return 'ℹ️';
+    }
+  };
+
+  const getInsightClass = (type: string) => {
+    switch (type) {
+      case 'positive':
+        return 'insight-positive';
+      case 'negative':
+        return 'insight-negative';
+      default:
+        return 'insight-neutral';
+    }
+  };
+
+  return (
+    <div className="insights-view">
+      <div className="insights-header">
+        <h2>{t('insights.title')}</h2>
+        <p className="insights-subtitle">{t('insights.subtitle')}</p>
+      </div>
+
+      <nav className="settings-tabs">
+        {INSIGHT_TABS.map(option => (
+          <button key={option.value} onClick={() => setTab(option.value)} className={tab === option.value ? 'active' : ''}>
+            {t(option.labelKey)}
+          </button>
+        ))}
+      </nav>
+
+      <div className="insight-filters">
+        <select value={filters.category} onChange={e => setFilters({ ...filters, category: e.target.value })}>
+          <option value="">{t('common.allCategories')}</option>
+          {controller.getCategories(true).map(c => (
+            <option key={c.id} value={c.id}>{c.icon} {c.label}</option>
+          ))}
+        </select>
+        <select value={filters.type} onChange={e => setFilters({ ...filters, type: e.target.value })}>
+          <option value="">{t('insights.allTypes')}</option>
+          {INSIGHT_TYPES.map(option => (
+            <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+          ))}
+        </select>
+        <select value={filters.rule} onChange={e => setFilters({ ...filters, rule: e.target.value })}>
+          <option value="">{t('insights.allRules')}</option>
+          {rules.map(rule => (
+            <option key={rule.id} value={rule.id}>{ruleLabels.get(rule.id)}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          title={t('common.from')}
+          value={filters.start}
+          onChange={e => setFilters({ ...filters, start: e.target.value })}
+        />
+        <input
+          type="date"
+          title={t('common.until')}
+          value={filters.end}
+          onChange={e => setFilters({ ...filters, end: e.target.value })}
+        />
+      </div>
+
+{actionError && <div className="form-error">{actionError}</div>}
+      <div className="insights-list">
+        {insights.map(insight => {
+          const metricConfig = controller.getCategory(insight.metricType);
+          return (
+            <div
+              key={insight.id}
+              className={`insight-card ${getInsightClass(insight.type)} ${insight.pinned ? 'insight-pinned' : ''}`}
+            >
+              <div className="insight-icon">{getInsightIcon(insight.type)}</div>
+              <div className="insight-content">
+                <h3>{tx(insight.title)}</h3>
+                <p>{tx(insight.description)}</p>
+                {insight.explanation && <p className="insight-explanation">{tx(insight.explanation)}</p>}
+                <div className="insight-footer">
+                  <span className="insight-category" style={{ color: metricConfig?.color }}>
+                    {metricConfig?.icon} {metricConfig?.label}
+                  </span>
+                  <span className={`insight-severity severity-${insight.severity}`}>
+                    {t(INSIGHT_SEVERITIES.find(level => level.value === insight.severity)!.labelKey)}
+                    {ruleLabels.has(insight.rule) ? ` · ${ruleLabels.get(insight.rule)}` : ''}
+                  </span>
+                  <span className="insight-date">
+                    {formatDate(insight.timestamp)}
+                    {!insight.active && ` – ${formatDate(insight.lastSeenAt)}`}
+                    {isHidden(insight) && insight.snoozedUntil && insight.snoozedUntil > now &&
+                      ` · ${t('insights.snoozedUntil', { date: formatDate(insight.snoozedUntil) })}`}
+                  </span>
+                </div>
+              </div>
+              <div className="insight-actions">
+                <button
+                  onClick={() => runAction(() => controller.updateInsight(insight.id, { pinned: !insight.pinned }))}
+                  title={insight.pinned ? t('insights.unpin') : t('insights.pin')}
+                  className={insight.pinned ? 'active' : ''}
+                >
+                  📌
+                </button>
+                {insight.active && (isHidden(insight) ? (
+                  <button
+                    onClick={() => runAction(() => controller.updateInsight(insight.id, { dismissed: false, snoozedUntil: null }))}
+                    title={t('insights.restore')}
+                  >
+                    ↩️
+                  </button>
+                ) : (
+                  <>
+                    <select
+                      value=""
+                      title={t('insights.snooze')}
+                      onChange={e =>
+                        e.target.value &&
+                        runAction(() =>
+                          controller.updateInsight(insight.id, { snoozedUntil: Date.now() + Number(e.target.value) * DAY_MS })
+                        )
+                      }
+                    >
+                      <option value="">💤</option>
+                      {SNOOZE_DAYS.map(days => (
+                        <option key={days} value={days}>{tp('insights.snoozeFor', days)}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => runAction(() => controller.updateInsight(insight.id, { dismissed: true }))}
+                      title={t('insights.dismiss')}
+                    >
+                      ✕
+                    </button>
+                  </>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {insights.length === 0 && (
+        <div className="empty-state">
+          <p>
+            {tab === 'current' && source.length === 0
+              ? t('insights.noneYet')
+              : t('insights.noneFound')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Reports View
+ */
+const ReportsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { locale, timeZone, t, formatNumber, formatValue, formatDate } = useI18n();
+  const [endDate, setEndDate] = useState(() => toDateInputValue(Date.now(), timeZone));
+  const [startDate, setStartDate] = useState(() => shiftDayKey(endDate, -30));
+  const [compareType, setCompareType] = useState<MetricType>(() => controller.getCategories()[0]?.id ?? '');
+  const [compareName, setCompareName] = useState('');
+  const [compareAggregation, setCompareAggregation] = useState<AggregationFn>('sum');
+  const [reportAggregations, setReportAggregations] = useState<AggregationFn[]>(DEFAULT_REPORT_AGGREGATIONS);
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('txt');
+
+  const toggleReportAggregation = (fn: AggregationFn) => {
+    setReportAggregations(current =>
+      current.includes(fn)
+        ? current.filter(f => f !== fn)
+        : AGGREGATION_FNS.map(a => a.value).filter(f => f === fn || current.includes(f))
+    );
+  };
+
+  // Comparisons always target a single metric name so units never get mixed
+  const compareNames = controller.getMetricNames(compareType);
+  const comparedName = compareNames.some(n => n.name === compareName) ? compareName : compareNames[0]?.name;
+
+  // Whole days in the user's time zone, the end date included. Cleared
+  // inputs are ignored, so the dates always hold the last complete value.
+  const currentStart = fromDateInputValue(startDate, timeZone);
+  const currentEnd = fromDateInputValue(endDate, timeZone, true);
+
+  const handleExport = () => {
+    const report = controller.exportReport(currentStart, currentEnd, reportFormat, reportAggregations, locale);
+
+    const blob = new Blob([report.content as BlobPart], { type: report.mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${t('report.filename')}-${Date.now()}.${report.extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The previous period has as many calendar days and ends right before the current one
+  const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1;
+  const previousStart = fromDateInputValue(shiftDayKey(startDate, -days), timeZone);
+  const previousEnd = currentStart - 1;
+
+  const { value: comparison, mismatch } = tryUnitAware(() =>
+    controller.comparePeriods(
+      compareType,
+      currentStart,
+      currentEnd,
+      previousStart,
+      previousEnd,
+      comparedName ? [comparedName] : undefined,
+      compareAggregation
+    )
+  );
+
+  return (
+    <div className="reports-view">
+      <div className="reports-header">
+        <h2>{t('nav.reports')}</h2>
+        <div className="report-export">
+          <select value={reportFormat} onChange={e => setReportFormat(e.target.value as ReportFormat)}>
+            {REPORT_FORMATS.map(format => (
+              <option key={format.value} value={format.value}>{t(format.labelKey)}</option>
+            ))}
+          </select>
+          <button onClick={handleExport} className="btn-primary">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            {t('reports.export')}
+          </button>
+        </div>
+      </div>
+
+      <div className="report-config">
+        <h3>{t('reports.config')}</h3>
+        <div className="form-row">
+          <div className="form-group">
+            <label>{t('reports.startDate')}</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={e => e.target.value && setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>{t('reports.endDate')}</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={e => e.target.value && setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="form-group">
+          <label>{t('reports.aggregations')}</label>
+          <div className="metric-name-options">
+            {AGGREGATION_FNS.map(fn => (
+              <label key={fn.value}>
+                <input
+                  type="checkbox"
+                  checked={reportAggregations.includes(fn.value)}
+                  onChange={() => toggleReportAggregation(fn.value)}
+                />
+                {t(fn.labelKey)}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="comparison-section">
+        <h3>{t('reports.comparison')}</h3>
+        <div className="comparison-type-select">
+          {controller.getCategories().map(type => (
+            <button
+              key={type.id}
+              onClick={() => setCompareType(type.id)}
+              className={compareType === type.id ? 'active' : ''}
+            >
+              {type.icon} {type.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="form-group comparison-aggregation">
+          <label>{t('common.aggregation')}</label>
+          <select
+            value={compareAggregation}
+            onChange={e => setCompareAggregation(e.target.value as AggregationFn)}
+          >
+            {AGGREGATION_FNS.map(fn => (
+              <option key={fn.value} value={fn.value}>{t(fn.labelKey)}</option>
+            ))}
+          </select>
+        </div>
+
+        {compareNames.length > 1 && (
+          <div className="comparison-type-select">
+            {compareNames.map(n => (
+              <button
+                key={n.name}
+                onClick={() => setCompareName(n.name)}
+                className={comparedName === n.name ? 'active' : ''}
+              >
+                {n.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mismatch && (
+          <div className="metrics-notice">
+            {t('reports.unitMismatch', { name: comparedName ?? '', units: mismatch.units.join(', ') })}
+          </div>
+        )}
+
+        {comparison && (
+          <div className="comparison-cards">
+            <div className="comparison-card">
+              <h4>{t('reports.currentPeriod')}</h4>
+              <div className="comparison-value">{formatValue(comparison.current, comparison.unit, 0)}</div>
+              <div className="comparison-dates">
+                {formatDate(currentStart)} - {formatDate(currentEnd)}
+              </div>
+            </div>
+
+            <div className="comparison-card">
+              <h4>{t('reports.previousPeriod')}</h4>
+              <div className="comparison-value">{formatValue(comparison.previous, comparison.unit, 0)}</div>
+              <div className="comparison-dates">
+                {formatDate(previousStart)} - {formatDate(previousEnd)}
+              </div>
+            </div>
+
+            <div className={`comparison-card ${comparison.change >= 0 ? 'positive' : 'negative'}`}>
+              <h4>{t('reports.change')}</h4>
+              <div className="comparison-value">
+                {comparison.change >= 0 ? '+' : ''}{formatNumber(comparison.change, 0)}
+              </div>
+              <div className="comparison-percent">
+                {comparison.changePercent >= 0 ? '+' : ''}{formatNumber(comparison.changePercent, 1)}%
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Time Range Input Component
+ */
+const TimeRangeInput: React.FC<{ value: TimeRange; onChange: (range: TimeRange) => void }> = ({ value, onChange }) => {
+  const { controller } = useDashboard();
+  const { timeZone, t } = useI18n();
+  const handleKindChange = (kind: TimeRange['kind']) => {
+    if (kind === 'last-days') {
+      onChange(lastDays(7));
+    } else if (kind === 'this-month') {
+      onChange({ kind: 'this-month' });
+    } else {
+      onChange({ kind: 'custom', ...resolveTimeRange(value, controller.getSettings()) });
+    }
+  };
+
+  return (
+    <div className="time-range-input">
+      <select value={value.kind} onChange={e => handleKindChange(e.target.value as TimeRange['kind'])}>
+        <option value="last-days">{t('timeRange.lastDays')}</option>
+        <option value="this-month">{t('timeRange.thisMonth')}</option>
+        <option value="custom">{t('timeRange.custom')}</option>
+      </select>
+      {value.kind === 'last-days' && (
+        <input
+          type="number"
+          min={1}
+          value={value.days}
+          onChange={e => onChange(lastDays(Math.max(1, parseInt(e.target.value, 10) || 1)))}
+        />
+      )}
+      {value.kind === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={toDateInputValue(value.start, timeZone)}
+            onChange={e => e.target.value && onChange({ ...value, start: fromDateInputValue(e.target.value, timeZone) })}
+          />
+          <input
+            type="date"
+            value={toDateInputValue(value.end, timeZone)}
+            onChange={e => e.target.value && onChange({ ...value, end: fromDateInputValue(e.target.value, timeZone, true) })}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Tabs shared by the settings views
+ */
+const SettingsTabs: React.FC = () => {
+  const { route } = useRouter();
+  const { t } = useI18n();
+  return (
+    <nav className="settings-tabs">
+      <Link to={{ view: 'settings' }} className={route.view === 'settings' ? 'active' : ''}>{t('settings.widgets')}</Link>
+      <Link to={{ view: 'categories' }} className={route.view === 'categories' ? 'active' : ''}>{t('settings.categories')}</Link>
+      <Link to={{ view: 'definitions' }} className={route.view === 'definitions' ? 'active' : ''}>{t('nav.metrics')}</Link>
+      <Link to={{ view: 'goals' }} className={route.view === 'goals' ? 'active' : ''}>{t('settings.goals')}</Link>
+      <Link to={{ view: 'alerts' }} className={route.view === 'alerts' ? 'active' : ''}>{t('notifications.title')}</Link>
+      <Link to={{ view: 'preferences' }} className={route.view === 'preferences' ? 'active' : ''}>{t('settings.preferences')}</Link>
+    </nav>
+  );
+};
+
+type CategoryDraft = Omit<Category, 'id' | 'archived'>;
+
+const EMPTY_CATEGORY_DRAFT: CategoryDraft = { label: '', color: CHART_PALETTE[0], icon: DEFAULT_CATEGORY_ICON };
+
+/**
+ * Category Settings View
+ */
+const CategorySettingsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { t, tp } = useI18n();
+  const categories = controller.getCategories(true);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CategoryDraft>(EMPTY_CATEGORY_DRAFT);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { actionError, runAction } = useActionError();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_CATEGORY_DRAFT);
+    setFormError(null);
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setDraft({ label: category.label, color: category.color, icon: category.icon });
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const error = validateCategoryInput(draft);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    try {
+      if (editingId) {
+        await controller.updateCategory(editingId, draft);
+      } else {
+        await controller.addCategory(draft);
+      }
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+    resetForm();
+  };
+
+  const handleDelete = async () => {
+    if (!deletingId) return;
+    try {
+      await controller.deleteCategory(deletingId, reassignTo || undefined);
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+    if (editingId === deletingId) resetForm();
+    setDeletingId(null);
+    setReassignTo('');
+  };
+
+  return (
+    <div className="settings-view">
+      <div className="settings-header">
+        <h2>{t('nav.settings')}</h2>
+        <p className="dashboard-subtitle">{t('categories.subtitle')}</p>
+      </div>
+      <SettingsTabs />
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('settings.categories')}</h3>
+          {actionError && <div className="form-error">{actionError}</div>}
+          <ul className="widget-settings-list">
+            {categories.map(category => (
+              <li
+                key={category.id}
+                className={`widget-settings-item ${category.archived ? 'hidden-widget' : ''}`}
+                style={{ borderLeftColor: category.color, cursor: 'default' }}
+              >
+                <span className="widget-icon">{category.icon}</span>
+                <div className="widget-settings-info">
+                  <h4>{category.label}</h4>
+                  <span>
+                    {tp('common.entries', controller.getMetricsByType(category.id).length)}
+                    {category.archived ? ` · ${t('categories.archived')}` : ''}
+                  </span>
+                </div>
+                <div className="widget-settings-actions">
+                  <button
+                    onClick={() => runAction(() => controller.updateCategory(category.id, { archived: !category.archived }))}
+                    title={category.archived ? t('categories.restore') : t('categories.archive')}
+                  >
+                    {category.archived ? '♻️' : '🗄️'}
+                  </button>
+                  <button onClick={() => handleEdit(category)} title={t('common.edit')}>✏️</button>
+                  <button
+                    onClick={() => {
+                      setDeletingId(category.id);
+                      setReassignTo('');
+                    }}
+                    className="btn-delete"
+                    title={t('common.delete')}
+                    disabled={categories.length === 1}
+                  >
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {deletingId && (
+            <div className="category-delete">
+              <p>{t('categories.deletePrompt', { label: controller.getCategory(deletingId)?.label ?? '' })}</p>
+              <select value={reassignTo} onChange={e => setReassignTo(e.target.value)}>
+                <option value="">{t('categories.deleteWith')}</option>
+                {categories
+                  .filter(c => c.id !== deletingId)
+                  .map(c => (
+                    <option key={c.id} value={c.id}>{t('categories.moveTo', { category: `${c.icon} ${c.label}` })}</option>
+                  ))}
+              </select>
+              <div className="form-actions">
+                <button onClick={handleDelete} className="btn-primary">{t('categories.delete')}</button>
+                <button onClick={() => setDeletingId(null)} className="btn-secondary">{t('common.cancel')}</button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        <section className="settings-panel">
+          <h3>{editingId ? t('categories.edit') : t('categories.new')}</h3>
+          <div className="widget-form">
+            <div className="form-group">
+              <label>{t('common.name')}</label>
+              <input
+                type="text"
+                value={draft.label}
+                onChange={e => setDraft({ ...draft, label: e.target.value })}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('common.icon')}</label>
+                <input
+                  type="text"
+                  value={draft.icon}
+                  maxLength={CATEGORY_ICON_MAX_LENGTH}
+                  onChange={e => setDraft({ ...draft, icon: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('common.color')}</label>
+                <input
+                  type="color"
+                  value={draft.color}
+                  onChange={e => setDraft({ ...draft, color: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {formError && <div className="form-error">{formError}</div>}
+
+            <div className="form-actions">
+              <button onClick={handleSave} className="btn-primary">
+                {editingId ? t('common.saveChanges') : t('categories.add')}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="btn-secondary">{t('common.cancel')}</button>
+              )}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+interface DefinitionDraft {
+  name: string;
+  category: MetricType;
+  unit: string;
+  min: string;
+  max: string;
+  precision: number;
+  aggregation: AggregationFn;
+  higherIsBetter: boolean;
+}
+
+const EMPTY_DEFINITION_DRAFT: DefinitionDraft = {
+  name: '',
+  category: '',
+  unit: '',
+  min: '',
+  max: '',
+  precision: 0,
+  aggregation: 'sum',
+  higherIsBetter: true,
+};
+
+/**
+ * Metric Definition Settings View
+ */
+const DefinitionSettingsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { locale, t } = useI18n();
+  const categories = controller.getCategories(true);
+  const definitions = controller.getDefinitions();
+  const emptyDraft = { ...EMPTY_DEFINITION_DRAFT, category: controller.getCategories()[0]?.id ?? '' };
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DefinitionDraft>(emptyDraft);
+  const [unitFactor, setUnitFactor] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const { actionError, runAction } = useActionError();
+
+  // Entries already recorded have to be converted when the unit changes
+  const editedDefinition = definitions.find(d => d.id === editingId);
+  const convertsEntries =
+    !!editedDefinition &&
+    draft.unit.trim().toLowerCase() !== editedDefinition.unit.toLowerCase() &&
+    controller.hasDefinitionEntries(editedDefinition.id);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setUnitFactor('');
+    setFormError(null);
+  };
+
+  const handleEdit = (definition: MetricDefinition) => {
+    setEditingId(definition.id);
+    setUnitFactor('');
+    setDraft({
+      name: definition.name,
+      category: definition.category,
+      unit: definition.unit,
+      min: definition.min !== undefined ? String(definition.min) : '',
+      max: definition.max !== undefined ? String(definition.max) : '',
+      precision: definition.precision,
+      aggregation: definition.aggregation,
+      higherIsBetter: definition.higherIsBetter,
+    });
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const definition = {
+      ...draft,
+      name: draft.name.trim(),
+      unit: draft.unit.trim(),
+      min: draft.min.trim() ? parseFloat(draft.min) : null,
+      max: draft.max.trim() ? parseFloat(draft.max) : null,
+    };
+    const error = validateDefinitionInput(definition, categories);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    const clash = controller.findDefinition(definition.category, definition.name);
+    if (clash && clash.id !== editingId) {
+      setFormError(`Metric "${definition.name}" is already defined in this category`);
+      return;
+    }
+    const factor = parseFloat(unitFactor);
+    if (convertsEntries && !factor) {
+      setFormError(t('definitions.unitFactorRequired'));
+      return;
+    }
+
+    // `null` clears a bound on the server; new definitions simply omit it
+    try {
+      if (editingId) {
+        await controller.updateDefinition(editingId, definition, convertsEntries ? factor : undefined);
+      } else {
+        await controller.addDefinition({
+          ...definition,
+          min: definition.min ?? undefined,
+          max: definition.max ?? undefined,
+        });
+      }
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+    resetForm();
+  };
+
+  const handleDelete = (definition: MetricDefinition) => {
+    if (confirm(t('definitions.confirmDelete', { name: definition.name }))) {
+      runAction(() => controller.deleteDefinition(definition.id));
+      if (editingId === definition.id) resetForm();
+    }
+  };
+
+  return (
+    <div className="settings-view">
+      <div className="settings-header">
+        <h2>{t('nav.settings')}</h2>
+        <p className="dashboard-subtitle">{t('definitions.subtitle')}</p>
+      </div>
+      <SettingsTabs />
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('nav.metrics')}</h3>
+          {actionError && <div className="form-error">{actionError}</div>}
+          {categories.map(category => {
+            const items = definitions.filter(d => d.category === category.id);
+            if (items.length === 0) return null;
+            return (
+              <div key={category.id} className="definition-group">
+                <h4>{category.icon} {category.label}</h4>
+                <ul className="widget-settings-list">
+                  {items.map(definition => (
+                    <li
+                      key={definition.id}
+                      className="widget-settings-item"
+                      style={{ borderLeftColor: category.color, cursor: 'default' }}
+                    >
+                      <span className="widget-icon">{definition.higherIsBetter ? '⬆️' : '⬇️'}</span>
+                      <div className="widget-settings-info">
+                        <h4>{definition.name}</h4>
+                        <span>
+                          {definition.unit} · {getAggregationLabel(definition.aggregation, locale)}
+                          {definition.min !== undefined || definition.max !== undefined
+                            ? ` · ${t('definitions.range', { min: definition.min ?? '−∞', max: definition.max ?? '∞' })}`
+                            : ''}
+                        </span>
+                      </div>
+                      <div className="widget-settings-actions">
+                        <button onClick={() => handleEdit(definition)} title={t('common.edit')}>✏️</button>
+                        <button onClick={() => handleDelete(definition)} className="btn-delete" title={t('common.delete')}>
+                          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+          {definitions.length === 0 && <div className="widget-empty">{t('definitions.empty')}</div>}
+        </section>
+
+        <section className="settings-panel">
+          <h3>{editingId ? t('definitions.edit') : t('definitions.new')}</h3>
+          <div className="widget-form">
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('common.name')}</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('common.category')}</label>
+                <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })}>
+                  {categories.map(c => (
+                    <option key={c.id} value={c.id}>{c.icon} {c.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('report.unit')}</label>
+                <input
+                  type="text"
+                  value={draft.unit}
+                  onChange={e => setDraft({ ...draft, unit: e.target.value })}
+                />
+              </div>
+              {convertsEntries && (
+                <div className="form-group">
+                  <label>{t('definitions.unitFactor', { from: editedDefinition.unit, to: draft.unit.trim() })}</label>
+                  <input
+                    type="number"
+                    placeholder={t('bulk.factor')}
+                    value={unitFactor}
+                    onChange={e => setUnitFactor(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="form-group">
+                <label>{t('definitions.precision')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={6}
+                  value={draft.precision}
+                  onChange={e => setDraft({ ...draft, precision: parseInt(e.target.value, 10) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('aggregation.min')}</label>
+                <input
+                  type="number"
+                  placeholder={t('definitions.noLimit')}
+                  value={draft.min}
+                  onChange={e => setDraft({ ...draft, min: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('aggregation.max')}</label>
+                <input
+                  type="number"
+                  placeholder={t('definitions.noLimit')}
+                  value={draft.max}
+                  onChange={e => setDraft({ ...draft, max: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label>{t('definitions.defaultAggregation')}</label>
+              <select
+                value={draft.aggregation}
+                onChange={e => setDraft({ ...draft, aggregation: e.target.value as AggregationFn })}
+              >
+                {AGGREGATION_FNS.map(fn => (
+                  <option key={fn.value} value={fn.value}>{t(fn.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group form-check">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={draft.higherIsBetter}
+                  onChange={e => setDraft({ ...draft, higherIsBetter: e.target.checked })}
+                />
+                {t('definitions.higherIsBetter')}
+              </label>
+            </div>
+
+            {formError && <div className="form-error">{formError}</div>}
+
+            <div className="form-actions">
+              <button onClick={handleSave} className="btn-primary">
+                {editingId ? t('common.saveChanges') : t('definitions.add')}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="btn-secondary">{t('common.cancel')}</button>
+              )}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+interface GoalDraft {
+  title: string;
+  metricType: MetricType;
+  metricName: string;
+  period: PeriodType;
+  target: string;
+  direction: GoalDirection;
+  aggregation: AggregationFn | '';
+}
+
+const EMPTY_GOAL_DRAFT: GoalDraft = {
+  title: '',
+  metricType: '',
+  metricName: '',
+  period: 'day',
+  target: '',
+  direction: 'at-least',
+  aggregation: '',
+};
+
+/**
+ * Goal Settings View
+ */
+const GoalSettingsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { locale, t, formatNumber, formatValue } = useI18n();
+  const categories = controller.getCategories(true);
+  const goals = controller.getGoals();
+  const emptyDraft = { ...EMPTY_GOAL_DRAFT, metricType: controller.getCategories()[0]?.id ?? '' };
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GoalDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { actionError, runAction } = useActionError();
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setFormError(null);
+  };
+
+  const handleEdit = (goal: Goal) => {
+    setEditingId(goal.id);
+    setDraft({
+      title: goal.title,
+      metricType: goal.metricType,
+      metricName: goal.metricName ?? '',
+      period: goal.period,
+      target: String(goal.target),
+      direction: goal.direction,
+      aggregation: goal.aggregation ?? '',
+    });
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const goal = {
+      title: draft.title.trim(),
+      metricType: draft.metricType,
+      metricName: draft.metricName || null,
+      period: draft.period,
+      target: draft.target.trim() ? parseFloat(draft.target) : NaN,
+      direction: draft.direction,
+      aggregation: draft.aggregation || null,
+    };
+    const error = validateGoalInput(goal, categories);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    // `null` clears the metric name or aggregation of an existing goal
+    try {
+      if (editingId) {
+        await controller.updateGoal(editingId, goal);
+      } else {
+        await controller.addGoal({
+          ...goal,
+          metricName: goal.metricName ?? undefined,
+          aggregation: goal.aggregation ?? undefined,
+        });
+      }
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+    resetForm();
+  };
+
+  const handleDelete = (goal: Goal) => {
+    if (confirm(t('goals.confirmDelete', { title: goal.title }))) {
+      runAction(() => controller.deleteGoal(goal.id));
+      if (editingId === goal.id) resetForm();
+    }
+  };
+
+  return (
+    <div className="settings-view">
+      <div className="settings-header">
+        <h2>{t('nav.settings')}</h2>
+        <p className="dashboard-subtitle">{t('goals.subtitle')}</p>
+      </div>
+      <SettingsTabs />
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('settings.goals')}</h3>
+          {actionError && <div className="form-error">{actionError}</div>}
+          {goals.length === 0 ? (
+            <div className="widget-empty">{t('goals.empty')}</div>
+          ) : (
+            <ul className="widget-settings-list">
+              {goals.map(goal => {
+                const category = controller.getCategory(goal.metricType);
+                const { value: progress, mismatch } = tryUnitAware(() => controller.getGoalProgress(goal.id));
+                const direction = GOAL_DIRECTIONS.find(d => d.value === goal.direction);
+                return (
+                  <li
+                    key={goal.id}
+                    className="widget-settings-item goal-settings-item"
+                    style={{ borderLeftColor: category?.color, cursor: 'default' }}
+                  >
+                    <span className="widget-icon">{category?.icon}</span>
+                    <div className="widget-settings-info">
+                      <h4>{goal.title}</h4>
+                      <span>
+                        {goal.metricName ?? category?.label} ·{' '}
+                        {direction ? t(direction.labelKey).toLowerCase() : ''}{' '}
+                        {t('goals.targetPerPeriod', { target: formatNumber(goal.target), period: getPeriodNoun(goal.period, 1, locale) })}
+                      </span>
+                      {mismatch && <UnitMismatchNotice error={mismatch} />}
+                      {progress && (
+                        <span>
+                          {t('goals.current', { value: formatValue(progress.current.value, progress.unit) })}{' '}
+                          ({formatNumber(progress.percent, 0)}%) · 🔥{' '}
+                          {t('widget.streak', {
+                            streak: progress.streak,
+                            noun: getPeriodNoun(goal.period, progress.streak, locale),
+                            best: progress.bestStreak,
+                          })}
+                        </span>
+                      )}
+                    </div>
+                    <div className="widget-settings-actions">
+                      <button onClick={() => handleEdit(goal)} title={t('common.edit')}>✏️</button>
+                      <button onClick={() => handleDelete(goal)} className="btn-delete" title={t('common.delete')}>
+                        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+
+        <section className="settings-panel">
+          <h3>{editingId ? t('goals.edit') : t('goals.new')}</h3>
+          <div className="widget-form">
+            <div className="form-group">
+              <label>{t('common.title')}</label>
+              <input
+                type="text"
+                placeholder={t('goals.titlePlaceholder')}
+                value={draft.title}
+                onChange={e => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('common.category')}</label>
+                <select
+                  value={draft.metricType}
+                  onChange={e => setDraft({ ...draft, metricType: e.target.value, metricName: '' })}
+                >
+                  {categories.map(c => (
+                    <option key={c.id} value={c.id}>{c.icon} {c.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('report.metric')}</label>
+                <select value={draft.metricName} onChange={e => setDraft({ ...draft, metricName: e.target.value })}>
+                  <option value="">{t('common.wholeCategory')}</option>
+                  {controller.getDefinitions(draft.metricType).map(d => (
+                    <option key={d.id} value={d.name}>{d.name} ({d.unit})</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('goals.direction')}</label>
+                <select
+                  value={draft.direction}
+                  onChange={e => setDraft({ ...draft, direction: e.target.value as GoalDirection })}
+                >
+                  {GOAL_DIRECTIONS.map(d => (
+                    <option key={d.value} value={d.value}>{t(d.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('goals.target')}</label>
+                <input
+                  type="number"
+                  value={draft.target}
+                  onChange={e => setDraft({ ...draft, target: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('report.period')}</label>
+                <select value={draft.period} onChange={e => setDraft({ ...draft, period: e.target.value as PeriodType })}>
+                  {PERIOD_TYPES.map(p => (
+                    <option key={p.value} value={p.value}>{t(p.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('common.aggregation')}</label>
+                <select
+                  value={draft.aggregation}
+                  onChange={e => setDraft({ ...draft, aggregation: e.target.value as AggregationFn | '' })}
+                >
+                  <option value="">
+                    {t('common.defaultAggregation', {
+                      aggregation: getAggregationLabel(
+                        controller.getDefaultAggregation(draft.metricType, draft.metricName ? [draft.metricName] : undefined),
+                        locale
+                      ).toLowerCase(),
+                    })}
+                  </option>
+                  {AGGREGATION_FNS.map(fn => (
+                    <option key={fn.value} value={fn.value}>{t(fn.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {formError && <div className="form-error">{formError}</div>}
+
+            <div className="form-actions">
+              <button onClick={handleSave} className="btn-primary">
+                {editingId ? t('common.saveChanges') : t('goals.add')}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="btn-secondary">{t('common.cancel')}</button>
+              )}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+interface AlertRuleDraft {
+  title: string;
+  metricType: MetricType;
+  metricName: string;
+  aggregation: AggregationFn | '';
+  kind: AlertCondition['kind'];
+  operator: AlertOperator;
+  period: PeriodType;
+  value: string;
+  consecutive: string;
+  percent: string;
+}
+
+const EMPTY_ALERT_RULE_DRAFT: AlertRuleDraft = {
+  title: '',
+  metricType: '',
+  metricName: '',
+  aggregation: '',
+  kind: 'threshold',
+  operator: 'lt',
+  period: 'day',
+  value: '',
+  consecutive: '3',
+  percent: '120',
+};
+
+const describeAlertCondition = (condition: AlertCondition, locale: Locale): string => {
+  const operator = translate(locale, ALERT_OPERATORS.find(o => o.value === condition.operator)!.labelKey).toLowerCase();
+  return condition.kind === 'threshold'
+    ? translate(locale, 'alerts.describeThreshold', {
+        operator,
+        value: formatNumber(locale, condition.value),
+        consecutive: condition.consecutive,
+        noun: getPeriodNoun(condition.period, condition.consecutive, locale),
+      })
+    : translate(locale, 'alerts.describeChange', {
+        operator,
+        percent: formatNumber(locale, condition.percent),
+        noun: getPeriodNoun(condition.period, 1, locale),
+      });
+};
+
+/**
+ * Alert Settings View
+ */
+const AlertSettingsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { locale, t } = useI18n();
+  const categories = controller.getCategories(true);
+  const rules = controller.getAlertRules();
+  const emptyDraft = { ...EMPTY_ALERT_RULE_DRAFT, metricType: controller.getCategories()[0]?.id ?? '' };
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AlertRuleDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { actionError, runAction } = useActionError();
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported' | null>(null);
+  const [webhookResult, setWebhookResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setFormError(null);
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    const { condition } = rule;
+    setEditingId(rule.id);
+    setDraft({
+      title: rule.title,
+      metricType: rule.metricType,
+      metricName: rule.metricName ?? '',
+      aggregation: rule.aggregation ?? '',
+      kind: condition.kind,
+      operator: condition.operator,
+      period: condition.period,
+      value: condition.kind === 'threshold' ? String(condition.value) : '',
+      consecutive: condition.kind === 'threshold' ? String(condition.consecutive) : EMPTY_ALERT_RULE_DRAFT.consecutive,
+      percent: condition.kind === 'change' ? String(condition.percent) : EMPTY_ALERT_RULE_DRAFT.percent,
+    });
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const parse = (value: string) => (value.trim() ? parseFloat(value) : NaN);
+    const condition: AlertCondition =
+      draft.kind === 'threshold'
+        ? { kind: 'threshold', operator: draft.operator, period: draft.period, value: parse(draft.value), consecutive: parse(draft.consecutive) }
+        : { kind: 'change', operator: draft.operator, period: draft.period, percent: parse(draft.percent) };
+    const rule = {
+      title: draft.title.trim(),
+      metricType: draft.metricType,
+      metricName: draft.metricName || null,
+      aggregation: draft.aggregation || null,
+      condition,
+    };
+    const error = validateAlertRuleInput(rule, categories);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    // `null` clears the metric name or aggregation of an existing rule
+    try {
+      if (editingId) {
+        await controller.updateAlertRule(editingId, rule);
+      } else {
+        await controller.addAlertRule({
+          ...rule,
+          metricName: rule.metricName ?? undefined,
+          aggregation: rule.aggregation ?? undefined,
+        });
+      }
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+    resetForm();
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    if (confirm(t('alerts.confirmDelete', { title: rule.title }))) {
+      runAction(() => controller.deleteAlertRule(rule.id));
+      if (editingId === rule.id) resetForm();
+    }
+  };
+
+  const handleTestWebhook = async () => {
+    setWebhookResult(t('alerts.webhookSending'));
+    try {
+      const result = await controller.testAlertWebhook();
+      setWebhookResult(
+        result.delivered
+          ? t('alerts.webhookDelivered', { status: result.status ?? '' })
+          : t('alerts.webhookFailed', { error: result.error ?? '' })
+      );
+    } catch (error) {
+      setWebhookResult(t('alerts.webhookFailed', { error: (error as Error).message }));
+    }
+  };
+
+  return (
+    <div className="settings-view">
+      <div className="settings-header">
+        <h2>{t('nav.settings')}</h2>
+        <p className="dashboard-subtitle">{t('alerts.subtitle')}</p>
+      </div>
+      <SettingsTabs />
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('alerts.rules')}</h3>
+          {actionError && <div className="form-error">{actionError}</div>}
+          {rules.length === 0 ? (
+            <div className="widget-empty">{t('alerts.empty')}</div>
+          ) : (
+            <ul className="widget-settings-list">
+              {rules.map(rule => {
+                const category = controller.getCategory(rule.metricType);
+                return (
+                  <li
+                    key={rule.id}
+                    className={`widget-settings-item ${rule.enabled ? '' : 'hidden-widget'}`}
+                    style={{ borderLeftColor: category?.color, cursor: 'default' }}
+                  >
+                    <span className="widget-icon">{category?.icon}</span>
+                    <div className="widget-settings-info">
+                      <h4>{rule.title}</h4>
+                      <span>{rule.metricName ?? category?.label} · {describeAlertCondition(rule.condition, locale)}</span>
+                    </div>
+                    <div className="widget-settings-actions">
+                      <button
+                        onClick={() => runAction(() => controller.updateAlertRule(rule.id, { enabled: !rule.enabled }))}
+                        title={rule.enabled ? t('alerts.disable') : t('alerts.enable')}
+                      >
+                        {rule.enabled ? '🔔' : '🔕'}
+                      </button>
+                      <button onClick={() => handleEdit(rule)} title={t('common.edit')}>✏️</button>
+                      <button onClick={() => handleDelete(rule)} className="btn-delete" title={t('common.delete')}>
+                        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <h3>{t('alerts.delivery')}</h3>
+          <div className="form-actions">
+            <button
+              onClick={async () => setPermission(await controller.requestBrowserNotifications())}
+              className="btn-secondary"
+              disabled={permission !== 'default'}
+            >
+              {permission === 'granted'
+                ? t('alerts.browserGranted')
+                : permission === 'denied'
+                  ? t('alerts.browserDenied')
+                  : permission === 'unsupported'
+                    ? t('alerts.browserUnsupported')
+                    : t('alerts.browserEnable')}
+            </button>
+            <button onClick={handleTestWebhook} className="btn-secondary">{t('alerts.testWebhook')}</button>
+          </div>
+          {webhookResult && <p className="dashboard-subtitle">{webhookResult}</p>}
+        </section>
+
+        <section className="settings-panel">
+          <h3>{editingId ? t('alerts.edit') : t('alerts.new')}</h3>
+          <div className="widget-form">
+            <div className="form-group">
+              <label>{t('common.title')}</label>
+              <input
+                type="text"
+                placeholder={t('alerts.titlePlaceholder')}
+                value={draft.title}
+                onChange={e => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('common.category')}</label>
+                <select
+                  value={draft.metricType}
+                  onChange={e => setDraft({ ...draft, metricType: e.target.value, metricName: '' })}
+                >
+                  {categories.map(c => (
+                    <option key={c.id} value={c.id}>{c.icon} {c.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('report.metric')}</label>
+                <select value={draft.metricName} onChange={e => setDraft({ ...draft, metricName: e.target.value })}>
+                  <option value="">{t('common.wholeCategory')}</option>
+                  {controller.getDefinitions(draft.metricType).map(d => (
+                    <option key={d.id} value={d.name}>{d.name} ({d.unit})</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('alerts.condition')}</label>
+                <select
+                  value={draft.kind}
+                  onChange={e => setDraft({ ...draft, kind: e.target.value as AlertCondition['kind'] })}
+                >
+                  <option value="threshold">{t('alerts.kindThreshold')}</option>
+                  <option value="change">{t('alerts.kindChange')}</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('alerts.operator')}</label>
+                <select
+                  value={draft.operator}
+                  onChange={e => setDraft({ ...draft, operator: e.target.value as AlertOperator })}
+                >
+                  {ALERT_OPERATORS.map(o => (
+                    <option key={o.value} value={o.value}>{t(o.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              {draft.kind === 'threshold' ? (
+                <>
+                  <div className="form-group">
+                    <label>{t('alerts.threshold')}</label>
+                    <input
+                      type="number"
+                      value={draft.value}
+                      onChange={e => setDraft({ ...draft, value: e.target.value })}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>{t('alerts.consecutive')}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={draft.consecutive}
+                      onChange={e => setDraft({ ...draft, consecutive: e.target.value })}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div className="form-group">
+                  <label>{t('alerts.percent')}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={draft.percent}
+                    onChange={e => setDraft({ ...draft, percent: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('report.period')}</label>
+                <select value={draft.period} onChange={e => setDraft({ ...draft, period: e.target.value as PeriodType })}>
+                  {PERIOD_TYPES.map(p => (
+                    <option key={p.value} value={p.value}>{t(p.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('common.aggregation')}</label>
+                <select
+                  value={draft.aggregation}
+                  onChange={e => setDraft({ ...draft, aggregation: e.target.value as AggregationFn | '' })}
+                >
+                  <option value="">
+                    {t('common.defaultAggregation', {
+                      aggregation: getAggregationLabel(
+                        controller.getDefaultAggregation(draft.metricType, draft.metricName ? [draft.metricName] : undefined),
+                        locale
+                      ).toLowerCase(),
+                    })}
+                  </option>
+                  {AGGREGATION_FNS.map(fn => (
+                    <option key={fn.value} value={fn.value}>{t(fn.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {formError && <div className="form-error">{formError}</div>}
+
+            <div className="form-actions">
+              <button onClick={handleSave} className="btn-primary">
+                {editingId ? t('common.saveChanges') : t('alerts.add')}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="btn-secondary">{t('common.cancel')}</button>
+              )}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Preferences Settings View
+ */
+const PreferencesSettingsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { t, formatDateTime } = useI18n();
+  const { actionError, runAction } = useActionError();
+  const settings = controller.getSettings();
+  // The browser's zone is only known after hydration
+  const [browserTimeZone, setBrowserTimeZone] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBrowserTimeZone(getDefaultTimeZone());
+  }, []);
+
+  return (
+    <div className="settings-view">
+      <div className="settings-header">
+        <h2>{t('nav.settings')}</h2>
+        <p className="dashboard-subtitle">{t('preferences.subtitle')}</p>
+      </div>
+      <SettingsTabs />
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('preferences.calendar')}</h3>
+          {actionError && <div className="form-error">{actionError}</div>}
+          <div className="widget-form">
+            <div className="form-group">
+              <label>{t('preferences.timeZone')}</label>
+              <select
+                value={settings.timeZone}
+                onChange={e => runAction(() => controller.updateSettings({ timeZone: e.target.value }))}
+              >
+                {getTimeZones(settings.timeZone).map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </div>
+            {browserTimeZone && browserTimeZone !== settings.timeZone && (
+              <div className="form-actions">
+                <button
+                  onClick={() => runAction(() => controller.updateSettings({ timeZone: browserTimeZone }))}
+                  className="btn-secondary"
+                >
+                  {t('preferences.useBrowserTimeZone', { timeZone: browserTimeZone })}
+                </button>
+              </div>
+            )}
+            <div className="form-group">
+              <label>{t('preferences.weekStart')}</label>
+              <select
+                value={settings.weekStart}
+                onChange={e => runAction(() => controller.updateSettings({ weekStart: Number(e.target.value) as WeekStart }))}
+              >
+                {WEEK_STARTS.map(w => (
+                  <option key={w.value} value={w.value}>{t(w.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <p className="dashboard-subtitle">{t('preferences.hint', { now: formatDateTime(Date.now()) })}</p>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+type WidgetDraft = Omit<Widget, 'id' | 'position'>;
+
+const EMPTY_WIDGET_DRAFT: WidgetDraft = {
+  title: '',
+  type: 'stat',
+  metricType: '',
+  isVisible: true,
+  config: {},
+};
+
+/**
+ * Widget Settings View
+ */
+const WidgetSettingsView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { locale, t } = useI18n();
+  const widgets = controller.getAllWidgets();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // New widgets start on the first active category, since the defaults may have been deleted
+  const emptyDraft: WidgetDraft = { ...EMPTY_WIDGET_DRAFT, metricType: controller.getCategories()[0]?.id ?? '' };
+  const [draft, setDraft] = useState<WidgetDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { actionError, runAction } = useActionError();
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const orderedWidgets = dragOrder
+    ? dragOrder.map(id => widgets.find(w => w.id === id)).filter((w): w is Widget => !!w)
+    : widgets;
+
+  const previewWidget: Widget = { ...draft, id: 'widget_preview', position: 0 };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setFormError(null);
+  };
+
+  const handleEdit = (widget: Widget) => {
+    setEditingId(widget.id);
+    setDraft({
+      title: widget.title,
+      type: widget.type,
+      metricType: widget.metricType,
+      isVisible: widget.isVisible,
+      config: { ...widget.config },
+    });
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const error = validateWidgetInput(draft, controller.getCategories(true));
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    try {
+      if (editingId) {
+        await controller.updateWidget(editingId, draft);
+      } else {
+        await controller.addWidget(draft);
+      }
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+      return;
+    }
+    resetForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t('widgets.confirmDelete'))) {
+      runAction(() => controller.deleteWidget(id));
+      if (editingId === id) resetForm();
+    }
+  };
+
+  const updateConfig = (key: string, value: unknown) => {
+    const config = { ...draft.config };
+    if (value === undefined) {
+      delete config[key];
+    } else {
+      config[key] = value;
+    }
+    setDraft({ ...draft, config });
+  };
+
+  const moveWidget = (id: string, offset: number) => {
+    const ids = widgets.map(w => w.id);
+    const from = ids.indexOf(id);
+    const to = from + offset;
+    if (to < 0 || to >= ids.length) return;
+    ids.splice(to, 0, ...ids.splice(from, 1));
+    runAction(() => controller.reorderWidgets(ids));
+  };
+
+  const handleDragStart = (id: string) => {
+    setDraggedId(id);
+    setDragOrder(widgets.map(w => w.id));
+  };
+
+  const handleDragOver = (e: React.DragEvent, overId: string) => {
+    e.preventDefault();
+    if (!dragOrder || !draggedId || draggedId === overId) return;
+    const ids = dragOrder.filter(id => id !== draggedId);
+    ids.splice(ids.indexOf(overId) + (dragOrder.indexOf(overId) > dragOrder.indexOf(draggedId) ? 1 : 0), 0, draggedId);
+    setDragOrder(ids);
+  };
+
+  const handleDragEnd = () => {
+    if (dragOrder) runAction(() => controller.reorderWidgets(dragOrder));
+    setDraggedId(null);
+    setDragOrder(null);
+  };
+
+  return (
+    <div className="settings-view">
+      <div className="settings-header">
+        <h2>{t('nav.settings')}</h2>
+        <p className="dashboard-subtitle">{t('widgets.subtitle')}</p>
+      </div>
+      <SettingsTabs />
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('settings.widgets')}</h3>
+          {actionError && <div className="form-error">{actionError}</div>}
+          <ul className="widget-settings-list">
+            {orderedWidgets.map((widget, index) => {
+              const metricConfig = controller.getCategory(widget.metricType);
+              return (
+                <li
+                  key={widget.id}
+                  draggable
+                  onDragStart={() => handleDragStart(widget.id)}
+                  onDragOver={e => handleDragOver(e, widget.id)}
+                  onDragEnd={handleDragEnd}
+                  className={`widget-settings-item ${draggedId === widget.id ? 'dragging' : ''} ${widget.isVisible ? '' : 'hidden-widget'}`}
+                  style={{ borderLeftColor: metricConfig?.color }}
+                >
+                  <span className="drag-handle" title={t('widgets.dragToReorder')}>⋮⋮</span>
+                  <div className="widget-settings-info">
+                    <h4>{widget.title}</h4>
+                    <span>
+                      {t(WIDGET_TYPES.find(type => type.value === widget.type)!.labelKey)} · {metricConfig?.icon} {metricConfig?.label}
+                    </span>
+                  </div>
+                  <div className="widget-settings-actions">
+                    <button onClick={() => moveWidget(widget.id, -1)} disabled={index === 0} title={t('widgets.moveUp')}>↑</button>
+                    <button onClick={() => moveWidget(widget.id, 1)} disabled={index === orderedWidgets.length - 1} title={t('widgets.moveDown')}>↓</button>
+                    <button
+                      onClick={() => runAction(() => controller.toggleWidgetVisibility(widget.id))}
+                      title={widget.isVisible ? t('widgets.hide') : t('widgets.show')}
+                    >
+                      {widget.isVisible ? '👁️' : '🚫'}
+                    </button>
+                    <button onClick={() => handleEdit(widget)} title={t('common.edit')}>✏️</button>
+                    <button onClick={() => handleDelete(widget.id)} className="btn-delete" title={t('common.delete')}>
+                      <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {widgets.length === 0 && (
+            <div className="widget-empty">{t('widgets.empty')}</div>
+          )}
+        </section>
+
+        <section className="settings-panel">
+          <h3>{editingId ? t('widgets.edit') : t('widgets.new')}</h3>
+          <div className="widget-form">
+            <div className="form-group">
+              <label>{t('common.title')}</label>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={e => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label>{t('widgets.type')}</label>
+              <select
+                value={draft.type}
+                onChange={e => setDraft({ ...draft, type: e.target.value as WidgetType })}
+              >
+                {WIDGET_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{t(type.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>{t('common.category')}</label>
+              <select
+                value={draft.metricType}
+                onChange={e => {
+                  const { metricNames: _metricNames, ...config } = draft.config;
+                  setDraft({ ...draft, metricType: e.target.value as MetricType, config });
+                }}
+              >
+                {controller
+                  .getCategories(true)
+                  .filter(type => !type.archived || type.id === draft.metricType)
+                  .map(type => (
+                    <option key={type.id} value={type.id}>{type.icon} {type.label}</option>
+                  ))}
+              </select>
+            </div>
+            {WIDGET_CONFIG_FIELDS[draft.type]
+              // A linked goal supplies the metric, period, aggregation and target
+              .filter(field => !draft.config.goalId || field.key === 'goalId')
+              .map(field => (
+                <div key={field.key} className={`form-group ${field.kind === 'boolean' ? 'form-check' : ''}`}>
+                  {field.kind === 'boolean' && (
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={!!draft.config[field.key]}
+                        onChange={e => updateConfig(field.key, e.target.checked)}
+                      />
+                      {t(field.labelKey)}
+                    </label>
+                  )}
+                  {field.kind === 'goal' && (
+                    <>
+                      <label>{t(field.labelKey)}</label>
+                      <select
+                        value={draft.config.goalId ?? ''}
+                        onChange={e => updateConfig('goalId', e.target.value || undefined)}
+                      >
+                        <option value="">{t('widgets.noGoal')}</option>
+                        {controller
+                          .getGoals()
+                          .filter(g => g.metricType === draft.metricType)
+                          .map(g => (
+                            <option key={g.id} value={g.id}>{g.title}</option>
+                          ))}
+                      </select>
+                    </>
+                  )}
+                  {field.kind === 'number' && (
+                    <>
+                      <label>{t(field.labelKey)}</label>
+                      <input
+                        type="number"
+                        value={draft.config[field.key] ?? ''}
+                        onChange={e => updateConfig(field.key, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                      />
+                    </>
+                  )}
+                  {field.kind === 'range' && (
+                    <>
+                      <label>{t(field.labelKey)}</label>
+                      <TimeRangeInput
+                        value={draft.config.range ?? lastDays(7)}
+                        onChange={range => updateConfig('range', range)}
+                      />
+                    </>
+                  )}
+                  {field.kind === 'metricNames' && (
+                    <>
+                      <label>{t(field.labelKey)}</label>
+                      <div className="metric-name-options">
+                        {controller.getMetricNames(draft.metricType).map(n => {
+                          const selected: string[] = draft.config.metricNames ?? [];
+                          return (
+                            <label key={n.name}>
+                              <input
+                                type="checkbox"
+                                checked={selected.includes(n.name)}
+                                onChange={e => {
+                                  const next = e.target.checked
+                                    ? [...selected, n.name]
+                                    : selected.filter(name => name !== n.name);
+                                  updateConfig('metricNames', next.length > 0 ? next : undefined);
+                                }}
+                              />
+                              {n.name} <span>({n.unit})</span>
+                            </label>
+                          );
+                        })}
+                      </div>
+                      <small>{t('widgets.noNamesHint')}</small>
+                    </>
+                  )}
+                  {field.kind === 'period' && (
+                    <>
+                      <label>{t(field.labelKey)}</label>
+                      <select
+                        value={draft.config.period ?? 'day'}
+                        onChange={e => updateConfig('period', e.target.value as PeriodType)}
+                      >
+                        {PERIOD_TYPES.map(period => (
+                          <option key={period.value} value={period.value}>{t(period.labelKey)}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  {field.kind === 'aggregation' && (
+                    <>
+                      <label>{t(field.labelKey)}</label>
+                      <select
+                        value={draft.config.aggregation ?? ''}
+                        onChange={e => updateConfig('aggregation', (e.target.value || undefined) as AggregationFn | undefined)}
+                      >
+                        <option value="">
+                          {t('common.defaultAggregation', {
+                            aggregation: getAggregationLabel(
+                              controller.getDefaultAggregation(draft.metricType, draft.config.metricNames, draft.type === 'stat' ? 'avg' : 'sum'),
+                              locale
+                            ).toLowerCase(),
+                          })}
+                        </option>
+                        {AGGREGATION_FNS.map(fn => (
+                          <option key={fn.value} value={fn.value}>{t(fn.labelKey)}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                </div>
+              ))}
+            <div className="form-group form-check">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={draft.isVisible}
+                  onChange={e => setDraft({ ...draft, isVisible: e.target.checked })}
+                />
+                {t('widgets.visible')}
+              </label>
+            </div>
+
+            {formError && <div className="form-error">{formError}</div>}
+
+            <div className="form-actions">
+              <button onClick={handleSave} className="btn-primary">
+                {editingId ? t('common.saveChanges') : t('widgets.add')}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="btn-secondary">{t('common.cancel')}</button>
+              )}
+            </div>
+          </div>
+
+          <h3 className="preview-title">{t('widgets.preview')}</h3>
+          <div className="widget-preview">
+            <WidgetRenderer widget={{ ...previewWidget, title: previewWidget.title || t('widgets.untitled') }} />
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Import View
+ */
+const ImportView: React.FC = () => {
+  const { controller } = useDashboard();
+  const { t, tp, formatValue, formatDateTime } = useI18n();
+
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [defaults, setDefaults] = useState<{ name: string; unit: string; type: MetricType }>({
+    name: '',
+    unit: '',
+    type: controller.getCategories()[0]?.id ?? '',
+  });
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator | ''>('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Parsing happens on every render so the preview follows the mapping live
+  let columns: string[] = [];
+  let parseError: string | null = null;
+  try {
+    columns = content.trim() ? getImportColumns(parseImportRecords(format, content)) : [];
+  } catch (error) {
+    parseError = error instanceof Error ? error.message : String(error);
+  }
+
+  const request: ImportRequest = {
+    format,
+    content,
+    mapping,
+    defaults: {
+      name: defaults.name || undefined,
+      unit: defaults.unit || undefined,
+      type: defaults.type,
+    },
+    ...(decimalSeparator ? { decimalSeparator } : {}),
+  };
+  const rows = columns.length > 0 && !parseError ? controller.previewImport(request) : [];
+  const validRows = rows.filter(r => r.metric && !r.duplicate);
+  const duplicateRows = rows.filter(r => r.duplicate);
+  const errorRows = rows.filter(r => r.error);
+  const toImport = skipDuplicates ? validRows.length : validRows.length + duplicateRows.length;
+
+  const loadContent = (text: string, nextFormat: ImportFormat) => {
+    setFormat(nextFormat);
+    setContent(text);
+    setMessage(null);
+    setImportError(null);
+    try {
+      // Keep choices the user made for columns that still exist
+      const nextColumns = getImportColumns(parseImportRecords(nextFormat, text));
+      setMapping(current => ({
+        ...guessImportMapping(nextColumns),
+        ...Object.fromEntries(Object.entries(current).filter(([, column]) => column && nextColumns.includes(column))),
+      }));
+    } catch {
+      setMapping({});
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+    loadContent(text, isJson ? 'json' : 'csv');
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError(null);
+    try {
+      const result = await controller.importMetrics(request, skipDuplicates);
+      setMessage(tp('import.done', result.imported));
+      setContent('');
+      setMapping({});
+    } catch (error) {
+      setImportError(getErrorMessage(error));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="import-view">
+      <div className="settings-header">
+        <h2>{t('import.title')}</h2>
+        <p className="dashboard-subtitle">{t('import.subtitle')}</p>
+      </div>
+
+      <div className="settings-layout">
+        <section className="settings-panel">
+          <h3>{t('import.file')}</h3>
+          <div className="widget-form">
+            <div className="form-group">
+              <label>{t('import.fileLabel')}</label>
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={e => handleFile(e.target.files?.[0])} />
+            </div>
+            <div className="form-group">
+              <label>{t('import.format')}</label>
+              <select value={format} onChange={e => loadContent(content, e.target.value as ImportFormat)}>
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>{t('import.decimalSeparator')}</label>
+              <select value={decimalSeparator} onChange={e => setDecimalSeparator(e.target.value as DecimalSeparator | '')}>
+                <option value="">{t('import.decimalAuto')}</option>
+                <option value=",">{t('import.decimalComma')}</option>
+                <option value=".">{t('import.decimalDot')}</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>{t('import.content')}</label>
+              <textarea
+                rows={8}
+                placeholder={format === 'csv' ? t('import.csvPlaceholder') : '[{ "timestamp": "2024-01-31", "name": "Passos", "value": 8500 }]'}
+                value={content}
+                onChange={e => loadContent(e.target.value, format)}
+              />
+            </div>
+            {parseError && <div className="form-error">{parseError}</div>}
+          </div>
+        </section>
+
+        <section className="settings-panel">
+          <h3>{t('import.mapping')}</h3>
+          <div className="widget-form">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key} className="form-group">
+                <label>{t(field.labelKey)}</label>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={e => setMapping({ ...mapping, [field.key]: e.target.value || undefined })}
+                >
+                  <option value="">
+                    {field.key === 'timestamp' || field.key === 'value' ? t('import.select') : t('import.useDefault')}
+                  </option>
+                  {columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                {field.key === 'timestamp' && (
+                  <small>{t('import.timestampHint')}</small>
+                )}
+              </div>
+            ))}
+
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('import.defaultCategory')}</label>
+                <select
+                  value={defaults.type}
+                  onChange={e => setDefaults({ ...defaults, type: e.target.value as MetricType })}
+                >
+                  {controller.getCategories().map(type => (
+                    <option key={type.id} value={type.id}>{type.icon} {type.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('import.defaultName')}</label>
+                <input type="text" value={defaults.name} onChange={e => setDefaults({ ...defaults, name: e.target.value })} />
+              </div>
+              <div className="form-group">
+                <label>{t('import.defaultUnit')}</label>
+                <input type="text" value={defaults.unit} onChange={e => setDefaults({ ...defaults, unit: e.target.value })} />
+              </div>
+            </div>
+          </div>
+        </section>
+      </div>
+
+      {rows.length > 0 && (
+        <section className="settings-panel import-preview">
+          <div className="import-summary">
+            <span className="import-status ok">{tp('import.valid', validRows.length)}</span>
+            <span className="import-status duplicate">{tp('import.duplicates', duplicateRows.length)}</span>
+            <span className="import-status error">{tp('import.errors', errorRows.length)}</span>
+            <label>
+              <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} />
+              {t('import.skipDuplicates')}
+            </label>
+            <button onClick={handleImport} className="btn-primary" disabled={importing || toImport === 0}>
+              {importing ? t('import.importing') : tp('import.submit', toImport)}
+            </button>
+          </div>
+
+          {importError && <div className="form-error">{importError}</div>}
+
+          <div className="import-table-wrapper">
+            <table className="import-table">
+              <thead>
+                <tr>
+                  <th>{t('import.row')}</th>
+                  <th>{t('importField.timestamp')}</th>
+                  <th>{t('common.category')}</th>
+                  <th>{t('common.name')}</th>
+                  <th>{t('importField.value')}</th>
+                  <th>{t('import.status')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, 100).map(row => (
+                  <tr key={row.row} className={row.error ? 'error' : row.duplicate ? 'duplicate' : ''}>
+                    <td>{row.row}</td>
+                    <td>{row.metric && formatDateTime(row.metric.timestamp)}</td>
+                    <td>{row.metric && controller.getCategory(row.metric!.type)?.label}</td>
+                    <td>{row.metric?.name}</td>
+                    <td>{row.metric && formatValue(row.metric.value, row.metric.unit, 10)}</td>
+                    <td>{row.error ?? (row.duplicate ? t('import.duplicate') : 'OK')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {rows.length > 100 && <small>{t('import.truncated', { shown: 100, total: rows.length })}</small>}
+        </section>
+      )}
+
+      {message && <div className="import-message">{message}</div>}
+    </div>
+  );
+};
+
+/**
+ * Not Found View
+ */
+const NotFoundView: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <div className="empty-state">
+      <h2>{t('notFound.title')}</h2>
+      <p>{t('notFound.message')}</p>
+      <Link to={{ view: 'dashboard' }} className="btn-primary">
+        {t('notFound.back')}
+      </Link>
+    </div>
+  );
+};
+
+// ============================================================================
+// MAIN APP COMPONENT
+// ============================================================================
+
+const App: React.FC<{ url?: string; initialData?: DashboardData; locale?: Locale }> = ({
+  url,
+  initialData,
+  locale: initialLocale,
+}) => {
+  // The server cannot see the stored theme, so it is applied after hydration
+  const [darkMode, setDarkMode] = useState(false);
+
+  // The server negotiates the locale and passes it on, so both sides render the same text
+  const [locale, setLocaleState] = useState<Locale>(
+    () => initialLocale ?? (isClient ? getBrowserLocale() : DEFAULT_LOCALE)
+  );
+
+  const setLocale = (next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; SameSite=Lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  };
+
+  const [controller] = useState(() => new AnalyticsController(new AnalyticsModel(initialData)));
+
+  const [, setUpdateCount] = useState(0);
+  const forceUpdate = () => setUpdateCount(prev => prev + 1);
+
+  const [route, setRoute] = useState<Route>(() => parseRoute(url ?? (isClient ? getLocationPath() : '')));
+
+  const navigate = (next: Route, { replace = false } = {}) => {
+    if (replace) {
+      window.history.replaceState(null, '', buildPath(next));
+    } else {
+      window.history.pushState(null, '', buildPath(next));
+    }
+    setRoute(next);
+    if (!replace) window.scrollTo(0, 0);
+  };
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(getLocationPath()));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = controller.subscribe(() => {
+      forceUpdate();
+    });
+    return unsubscribe;
+  }, [controller]);
+
+  useEffect(() => controller.connectLive(), [controller]);
+
+  useEffect(() => {
+    if (initialData) {
+      controller.refresh();
+    } else {
+      controller.restoreFromCache().then(() => controller.refresh());
+    }
+  }, [controller]);
+
+  useEffect(() => {
+    setDarkMode(StorageService.loadFromStorage(StorageService.getKeys().DARK_MODE, false));
+  }, []);
+
+  useEffect(() => {
+    if (isClient) {
+      document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
+      StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, darkMode);
+    }
+  }, [darkMode]);
+
+  const toggleTheme = () => setDarkMode(!darkMode);
+
+  return (
+    <DashboardContext.Provider value={{ controller, forceUpdate }}>
+      <I18nContext.Provider value={createI18n(locale, setLocale, controller.getSettings().timeZone)}>
+        <RouterContext.Provider value={{ route, navigate }}>
+          <div className="app">
+            <Header darkMode={darkMode} toggleTheme={toggleTheme} />
+            <AlertToasts />
+
+            <main className="main-content">
+              {route.view === 'dashboard' && <DashboardView />}
+              {route.view === 'metrics' && <MetricsView />}
+              {route.view === 'import' && <ImportView />}
+              {route.view === 'insights' && <InsightsView />}
+              {route.view === 'reports' && <ReportsView />}
+              {route.view === 'settings' && <WidgetSettingsView />}
+              {route.view === 'categories' && <CategorySettingsView />}
+              {route.view === 'definitions' && <DefinitionSettingsView />}
+              {route.view === 'goals' && <GoalSettingsView />}
+              {route.view === 'alerts' && <AlertSettingsView />}
+              {route.view === 'preferences' && <PreferencesSettingsView />}
+              {route.view === 'not-found' && <NotFoundView />}
+            </main>
+          </div>
+        </RouterContext.Provider>
+      </I18nContext.Provider>
+    </DashboardContext.Provider>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const APP_STYLES = `
+:root {
+  --primary: #3b82f6;
+  --primary-dark: #2563eb;
+  --success: #10b981;
+  --danger: #ef4444;
+  --warning: #f59e0b;
+  --info: #06b6d4;
+  
+  --bg: #f8fafc;
+  --surface: #ffffff;
+  --card-bg: #ffffff;
+  --text: #0f172a;
+  --text-secondary: #64748b;
+  --border: #e2e8f0;
+  --shadow: rgba(0, 0, 0, 0.1);
+  --shadow-lg: rgba(0, 0, 0, 0.15);
+  
+  --header-bg: #ffffff;
+  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
+}
+
+[data-theme="dark"] {
+  --bg: #0f172a;
+  --surface: #1e293b;
+  --card-bg: #1e293b;
+  --text: #f1f5f9;
+  --text-secondary: #94a3b8;
+  --border: #334155;
+  --shadow: rgba(0, 0, 0, 0.3);
+  --shadow-lg: rgba(0, 0, 0, 0.5);
+  
+  --header-bg: #1e293b;
+  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.3);
+}
+
+* {
+  margin: 0;
+  padding: 0;
+  box-sizing: border-box;
+}
+
+body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen',
+    'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
+  -webkit-font-smoothing: antialiased;
+  -moz-osx-font-smoothing: grayscale;
+  background: var(--bg);
+  color: var(--text);
+  transition: background-color 0.3s ease, color 0.3s ease;
+}
+
+.app {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+}
+
+/* Header */
+.header {
+  background: var(--header-bg);
+  box-shadow: var(--header-shadow);
+  position: sticky;
+  top: 0;
+  z-index: 100;
+}
+
+.header-content {
+  max-width: 1400px;
+  margin: 0 auto;
+  padding: 1rem 2rem;
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 2rem;
+}
+
+.header-brand {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+}
+
+.header-icon {
+  width: 32px;
+  height: 32px;
+  color: var(--primary);
+}
+
+.header h1 {
+  font-size: 1.5rem;
+  font-weight: 700;
+  color: var(--text);
+}
+
+.header-nav {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.header-nav a {
+  padding: 0.5rem 1rem;
+  border: none;
+  border-radius: 8px;
+  background: transparent;
+  color: var(--text);
+  font-weight: 500;
+  text-decoration: none;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.header-nav a:hover {
+  background: var(--surface);
+}
+
+.header-nav a.active {
+  background: var(--primary);
+  color: white;
+}
+
+.theme-toggle {
+  width: 40px;
+  height: 40px;
+  border-radius: 50%;
+  border: none;
+  background: var(--surface);
+  color: var(--text);
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.2s ease;
+  box-shadow: 0 2px 4px var(--shadow);
+}
+
+.theme-toggle:hover {
+  transform: scale(1.05);
+  background: var(--primary);
+  color: white;
+}
+
+.theme-toggle svg {
+  width: 20px;
+  height: 20px;
+}
+
+.header-actions {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.locale-select {
+  height: 40px;
+  padding: 0 0.75rem;
+  border: none;
+  border-radius: 20px;
+  background: var(--surface);
+  color: var(--text);
+  cursor: pointer;
+}
+
+.notification-bell {
+  position: relative;
+}
+
+.notification-badge {
+  position: absolute;
+  top: -4px;
+  right: -4px;
+  min-width: 18px;
+  padding: 0 4px;
+  border-radius: 999px;
+  background: var(--danger);
+  color: white;
+  font-size: 0.6875rem;
+  font-weight: 700;
+  line-height: 18px;
+}
+
+.notification-panel {
+  position: absolute;
+  top: calc(100% + 0.5rem);
+  right: 0;
+  width: 360px;
+  max-height: 480px;
+  overflow-y: auto;
+  padding: 1rem;
+  border-radius: 12px;
+  background: var(--card-bg);
+  box-shadow: 0 8px 24px var(--shadow);
+  z-index: 200;
+}
+
+.notification-panel-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 0.75rem;
+}
+
+.notification-list {
+  list-style: none;
+  margin: 0 0 0.75rem;
+  padding: 0;
+}
+
+.notification-item {
+  display: flex;
+  gap: 0.75rem;
+  padding: 0.625rem;
+  border-radius: 8px;
+  cursor: pointer;
+  opacity: 0.6;
+}
+
+.notification-item.unread {
+  background: var(--bg);
+  opacity: 1;
+}
+
+.notification-item h4 {
+  margin: 0;
+  font-size: 0.875rem;
+}
+
+.notification-item p {
+  margin: 0.25rem 0;
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
+}
+
+.notification-item span {
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.btn-link {
+  border: none;
+  background: none;
+  padding: 0;
+  color: var(--primary);
+  font-size: 0.8125rem;
+  cursor: pointer;
+}
+
+.alert-toasts {
+  position: fixed;
+  bottom: 1.5rem;
+  right: 1.5rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  z-index: 300;
+}
+
+.alert-toast {
+  display: flex;
+  gap: 1rem;
+  align-items: flex-start;
+  width: 340px;
+  padding: 0.875rem 1rem;
+  border-left: 4px solid var(--warning);
+  border-radius: 8px;
+  background: var(--card-bg);
+  box-shadow: 0 8px 24px var(--shadow);
+}
+
+.alert-toast p {
+  margin: 0.25rem 0 0;
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
+}
+
+.alert-toast button {
+  border: none;
+  background: none;
+  color: var(--text-secondary);
+  font-size: 1.25rem;
+  cursor: pointer;
+}
+
+/* Main Content */
+.main-content {
+  flex: 1;
+  max-width: 1400px;
+  width: 100%;
+  margin: 0 auto;
+  padding: 2rem;
+}
+
+/* Dashboard View */
+.dashboard-header {
+  margin-bottom: 2rem;
+}
+
+.dashboard-header h2 {
+  font-size: 1.75rem;
+  font-weight: 700;
+  margin-bottom: 0.25rem;
+}
+
+.dashboard-subtitle {
+  color: var(--text-secondary);
+}
+
+.widgets-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(350px, 1fr));
+  gap: 1.5rem;
+}
+
+.widget {
+  background: var(--card-bg);
+  border-radius: 12px;
+  padding: 1.5rem;
+  box-shadow: 0 2px 8px var(--shadow);
+  border-top: 4px solid;
+  transition: all 0.2s ease;
+}
+
+.widget:hover {
+  transform: translateY(-2px);
+  box-shadow: 0 4px 12px var(--shadow-lg);
+}
+
+.widget-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 1.25rem;
+}
+
+.widget-header h3 {
+  font-size: 1rem;
+  font-weight: 600;
+  color: var(--text);
+}
+
+.widget-icon {
+  font-size: 1.5rem;
+}
+
+/* Stat Widget */
+.stat-content {
+  text-align: center;
+}
+
+.stat-value {
+  font-size: 3rem;
+  font-weight: 700;
+  color: var(--primary);
+  margin-bottom: 0.5rem;
+}
+
+.stat-label {
+  color: var(--text-secondary);
+  font-size: 0.875rem;
+  margin-bottom: 1rem;
+}
+
+.stat-trend {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 0.5rem;
+  margin-bottom: 1rem;
+  padding: 0.5rem;
+  background: var(--surface);
+  border-radius: 8px;
+}
+
+.stat-details {
+  display: flex;
+  justify-content: space-around;
+  padding-top: 1rem;
+  border-top: 1px solid var(--border);
+}
+
+.stat-detail {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  align-items: center;
+}
+
+.stat-detail span {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
+
+.stat-detail strong {
+  font-size: 1.125rem;
+  color: var(--text);
+}
+
+/* Chart Widgets */
+.chart-content {
+  height: 250px;
+  display: flex;
+  align-items: flex-end;
+  justify-content: space-around;
+  padding: 1rem 0;
+}
+
+.bar-chart {
+  display: flex;
+  align-items: flex-end;
+  justify-content: space-around;
+  width: 100%;
+  height: 100%;
+  position: relative;
+}
+
+.bar-item {
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  position: relative;
+  height: 100%;
+}
+
+.bar-container {
+  flex: 1;
+  width: 80%;
+  display: flex;
+  align-items: flex-end;
+}
+
+.bar-fill {
+  width: 100%;
+  border-radius: 4px 4px 0 0;
+  transition: all 0.3s ease;
+}
+
+.bar-container .bar-fill + .bar-fill {
+  margin-left: 2px;
+}
+
+.chart-legend {
+  list-style: none;
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 0.75rem;
+  margin-top: 0.75rem;
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
+}
+
+.chart-legend li {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+}
+
+.chart-legend button {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+  background: none;
+  border: none;
+  color: inherit;
+  font: inherit;
+  cursor: pointer;
+}
+
+.chart-legend .legend-hidden {
+  opacity: 0.4;
+  text-decoration: line-through;
+}
+
+.time-series-chart {
+  padding-top: 0.5rem;
+}
+
+.chart-toolbar {
+  display: flex;
+  justify-content: flex-end;
+  align-items: center;
+  min-height: 1.75rem;
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.chart-toolbar .btn-secondary {
+  padding: 0.25rem 0.625rem;
+  font-size: 0.75rem;
+}
+
+.chart-plot {
+  position: relative;
+}
+
+.chart-svg {
+  display: block;
+  width: 100%;
+  height: auto;
+  user-select: none;
+}
+
+.chart-grid {
+  stroke: var(--border);
+  stroke-dasharray: 3 3;
+}
+
+.chart-axis {
+  stroke: var(--text-secondary);
+  stroke-opacity: 0.5;
+}
+
+.chart-axis-label {
+  font-size: 10px;
+  fill: var(--text-secondary);
+}
+
+.chart-line {
+  fill: none;
+  stroke-width: 2;
+  stroke-linejoin: round;
+  stroke-linecap: round;
+}
+
+.chart-guide {
+  stroke: var(--text-secondary);
+  stroke-dasharray: 2 2;
+}
+
+.chart-brush {
+  fill: var(--primary);
+  fill-opacity: 0.15;
+  stroke: var(--primary);
+}
+
+.chart-overlay {
+  fill: transparent;
+  cursor: crosshair;
+  /* Horizontal drags select a period; vertical swipes still scroll the page */
+  touch-action: pan-y;
+}
+
+.chart-tooltip {
+  position: absolute;
+  top: 0;
+  transform: translateX(8px);
+  display: flex;
+  flex-direction: column;
+  gap: 0.125rem;
+  padding: 0.375rem 0.5rem;
+  background: var(--surface);
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  box-shadow: 0 4px 12px var(--shadow-lg);
+  font-size: 0.75rem;
+  white-space: nowrap;
+  pointer-events: none;
+  z-index: 1;
+}
+
+.chart-tooltip.flip {
+  transform: translateX(calc(-100% - 8px));
+}
+
+.chart-tooltip div {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+}
+
+.bar-label {
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+  margin-top: 0.5rem;
+}
+
+/* Pie Widget */
+.pie-content {
+  display: flex;
+  align-items: center;
+  gap: 1.5rem;
+  min-height: 250px;
+}
+
+.pie-chart {
+  width: 180px;
+  height: 180px;
+  flex-shrink: 0;
+}
+
+.pie-chart path {
+  stroke: var(--card-bg);
+  stroke-width: 2;
+  transition: opacity 0.2s ease;
+}
+
+.pie-chart path:hover {
+  opacity: 0.8;
+}
+
+.pie-total {
+  font-size: 1.5rem;
+  font-weight: 700;
+  fill: var(--text);
+}
+
+.pie-legend {
+  list-style: none;
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+}
+
+.pie-legend li {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  font-size: 0.875rem;
+}
+
+.legend-swatch {
+  width: 12px;
+  height: 12px;
+  border-radius: 3px;
+  flex-shrink: 0;
+}
+
+.legend-label {
+  flex: 1;
+  color: var(--text-secondary);
+}
+
+/* Progress Widget */
+.progress-content {
+  text-align: center;
+  padding: 1rem 0;
+}
+
+.progress-values {
+  margin-bottom: 1rem;
+}
+
+.progress-current {
+  font-size: 3rem;
+  font-weight: 700;
+  color: var(--primary);
+}
 
-[data-theme="dark"] {
-  --bg: #0f172a;
-  --surface: #1e293b;
-  --card-bg: #1e293b;
-  --text: #f1f5f9;
-  --text-secondary: #94a3b8;
-  --border: #334155;
-  --shadow: rgba(0, 0, 0, 0.3);
-  --shadow-lg: rgba(0, 0, 0, 0.5);
-  
-  --header-bg: #1e293b;
-  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.3);
+.progress-target {
+  font-size: 1.25rem;
+  color: var(--text-secondary);
+  margin-left: 0.25rem;
 }
 
-* {
-  margin: 0;
-  padding: 0;
-  box-sizing: border-box;
+.progress-track {
+  height: 16px;
+  border-radius: 8px;
+  background: var(--surface);
+  border: 1px solid var(--border);
+  overflow: hidden;
+  margin-bottom: 1rem;
 }
 
-body {
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen',
-    'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
-  -webkit-font-smoothing: antialiased;
-  -moz-osx-font-smoothing: grayscale;
-  background: var(--bg);
+.progress-fill {
+  height: 100%;
+  border-radius: 8px;
+  transition: width 0.3s ease;
+}
+
+/* List Widget */
+.widget-list {
+  list-style: none;
+  display: flex;
+  flex-direction: column;
+}
+
+.widget-list li {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 0.625rem 0;
+  border-bottom: 1px solid var(--border);
+}
+
+.widget-list li:last-child {
+  border-bottom: none;
+}
+
+.widget-list-name {
+  display: block;
+  font-weight: 500;
+}
+
+.widget-list-date {
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.widget-empty {
+  padding: 2rem 0;
+  text-align: center;
+  color: var(--text-secondary);
+  font-size: 0.875rem;
+}
+
+/* Metrics View */
+.metrics-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 1.5rem;
+}
+
+.metrics-header h2 {
+  font-size: 1.75rem;
+  font-weight: 700;
+}
+
+.metrics-actions {
+  display: flex;
+  gap: 0.75rem;
+  align-items: center;
+}
+
+.metrics-actions .btn-secondary {
+  text-decoration: none;
+}
+
+.add-metric-form {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
+  margin-bottom: 1.5rem;
+}
+
+.add-metric-form h3 {
+  font-size: 1rem;
+  font-weight: 600;
+  margin-bottom: 1rem;
+}
+
+.form-row {
+  display: flex;
+  gap: 0.75rem;
+}
+
+.form-row input {
+  flex: 1;
+  padding: 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.9375rem;
+}
+
+.form-row input:focus {
+  outline: none;
+  border-color: var(--primary);
+  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
+}
+
+.metrics-filters {
+  margin-bottom: 1.5rem;
+}
+
+.search-box {
+  position: relative;
+  margin-bottom: 1rem;
+}
+
+.search-box svg {
+  position: absolute;
+  left: 1rem;
+  top: 50%;
+  transform: translateY(-50%);
+  width: 20px;
+  height: 20px;
+  color: var(--text-secondary);
+}
+
+.search-box input {
+  width: 100%;
+  padding: 0.75rem 1rem 0.75rem 3rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.9375rem;
+}
+
+.search-box input:focus {
+  outline: none;
+  border-color: var(--primary);
+  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
+}
+
+.type-filters {
+  display: flex;
+  gap: 0.5rem;
+  flex-wrap: wrap;
+}
+
+.type-filter {
+  padding: 0.5rem 1rem;
+  border: 2px solid;
+  border-radius: 8px;
+  background: transparent;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.type-filter:hover {
+  transform: translateY(-2px);
+  box-shadow: 0 2px 8px var(--shadow);
+}
+
+.metrics-advanced-filters {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.75rem;
+  margin-top: 1rem;
+}
+
+.metrics-advanced-filters select,
+.metrics-advanced-filters input,
+.metrics-sort select {
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+}
+
+.metrics-advanced-filters input[type='number'] {
+  width: 8rem;
+}
+
+.metrics-list-header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 0.75rem;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
+
+.metrics-sort {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.metric-select {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  cursor: pointer;
+}
+
+.metric-item.selected {
+  background: rgba(59, 130, 246, 0.08);
+}
+
+.bulk-bar {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.75rem;
+  margin-bottom: 0.75rem;
+  padding: 0.75rem 1rem;
+  border: 1px solid var(--primary);
+  border-radius: 8px;
+  background: var(--surface);
+  font-size: 0.875rem;
+}
+
+.bulk-bar select,
+.bulk-bar input {
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--card-bg);
+  color: var(--text);
+}
+
+.bulk-bar input[type='number'] {
+  width: 8rem;
+}
+
+.pagination {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 1rem;
+  margin-top: 1.5rem;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
+
+.pagination button:disabled {
+  opacity: 0.5;
+  cursor: default;
+}
+
+.metrics-notice {
+  padding: 1rem;
+  margin-bottom: 1.5rem;
+  border-radius: 8px;
+  border: 1px solid var(--warning);
+  background: rgba(245, 158, 11, 0.1);
+  color: var(--text);
+  font-size: 0.875rem;
+}
+
+.metrics-stats {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+  gap: 1rem;
+  margin-bottom: 1.5rem;
+}
+
+.stat-card {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-left: 4px solid;
+  border-radius: 8px;
+  padding: 1rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+}
+
+.stat-card .stat-label {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+  margin: 0;
+}
+
+.stat-card .stat-value {
+  font-size: 1.75rem;
+  font-weight: 700;
   color: var(--text);
-  transition: background-color 0.3s ease, color 0.3s ease;
+  margin: 0;
 }
 
-.app {
-  min-height: 100vh;
+.metrics-list {
   display: flex;
   flex-direction: column;
+  gap: 0.75rem;
 }
 
-/* Header */
-.header {
-  background: var(--header-bg);
-  box-shadow: var(--header-shadow);
-  position: sticky;
-  top: 0;
-  z-index: 100;
-}
-
-.header-content {
-  max-width: 1400px;
-  margin: 0 auto;
-  padding: 1rem 2rem;
+.metric-item {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-left: 4px solid;
+  border-radius: 8px;
+  padding: 1rem;
   display: flex;
-  justify-content: space-between;
   align-items: center;
-  gap: 2rem;
+  gap: 1rem;
+  transition: all 0.2s ease;
 }
 
-.header-brand {
-  display: flex;
-  align-items: center;
-  gap: 0.75rem;
+.metric-item:hover {
+  box-shadow: 0 2px 8px var(--shadow);
 }
 
-.header-icon {
-  width: 32px;
-  height: 32px;
-  color: var(--primary);
+.metric-info {
+  flex: 1;
 }
 
-.header h1 {
-  font-size: 1.5rem;
-  font-weight: 700;
-  color: var(--text);
+.metric-info h4 {
+  font-size: 0.9375rem;
+  font-weight: 600;
+  margin-bottom: 0.25rem;
 }
 
-.header-nav {
-  display: flex;
-  gap: 0.5rem;
+.metric-date {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
 }
 
-.header-nav button {
-  padding: 0.5rem 1rem;
+.metric-meta {
+  margin-left: 0.75rem;
+  padding: 0.125rem 0.5rem;
+  border-radius: 999px;
+  background: var(--surface);
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.metric-value {
+  font-size: 1.125rem;
+  font-weight: 700;
+  color: var(--primary);
+}
+
+.btn-delete {
+  width: 32px;
+  height: 32px;
   border: none;
   border-radius: 8px;
-  background: transparent;
-  color: var(--text);
-  font-weight: 500;
+  background: rgba(239, 68, 68, 0.1);
+  color: var(--danger);
   cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
   transition: all 0.2s ease;
 }
 
-.header-nav button:hover {
-  background: var(--surface);
+.btn-delete:hover {
+  background: var(--danger);
+  color: white;
 }
 
-.header-nav button.active {
-  background: var(--primary);
-  color: white;
+.btn-delete svg {
+  width: 16px;
+  height: 16px;
 }
 
-.theme-toggle {
-  width: 40px;
-  height: 40px;
-  border-radius: 50%;
+.btn-edit {
+  width: 32px;
+  height: 32px;
   border: none;
-  background: var(--surface);
-  color: var(--text);
+  border-radius: 8px;
+  background: rgba(59, 130, 246, 0.1);
+  color: var(--primary);
   cursor: pointer;
   display: flex;
   align-items: center;
   justify-content: center;
   transition: all 0.2s ease;
-  box-shadow: 0 2px 4px var(--shadow);
 }
 
-.theme-toggle:hover {
-  transform: scale(1.05);
+.btn-edit:hover {
   background: var(--primary);
   color: white;
 }
 
-.theme-toggle svg {
-  width: 20px;
-  height: 20px;
+.btn-edit svg {
+  width: 16px;
+  height: 16px;
 }
 
-/* Main Content */
-.main-content {
+.metric-edit-fields {
   flex: 1;
-  max-width: 1400px;
-  width: 100%;
-  margin: 0 auto;
-  padding: 2rem;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
 }
 
-/* Dashboard View */
-.dashboard-header {
+.metric-edit-fields input {
+  flex: 1;
+  min-width: 120px;
+  padding: 0.5rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+}
+
+/* Insights View */
+.insights-header {
   margin-bottom: 2rem;
 }
 
-.dashboard-header h2 {
+.insights-header h2 {
   font-size: 1.75rem;
   font-weight: 700;
   margin-bottom: 0.25rem;
 }
 
-.dashboard-subtitle {
+.insights-subtitle {
   color: var(--text-secondary);
 }
 
-.widgets-grid {
-  display: grid;
-  grid-template-columns: repeat(auto-fit, minmax(350px, 1fr));
-  gap: 1.5rem;
+.insights-list {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
 }
 
-.widget {
+.insight-card {
   background: var(--card-bg);
+  border: 1px solid var(--border);
   border-radius: 12px;
   padding: 1.5rem;
-  box-shadow: 0 2px 8px var(--shadow);
-  border-top: 4px solid;
+  display: flex;
+  gap: 1rem;
   transition: all 0.2s ease;
 }
 
-.widget:hover {
+.insight-card:hover {
   transform: translateY(-2px);
   box-shadow: 0 4px 12px var(--shadow-lg);
 }
 
-.widget-header {
-  display: flex;
-  justify-content: space-between;
-  align-items: center;
-  margin-bottom: 1.25rem;
+.insight-positive {
+  border-left: 4px solid var(--success);
 }
 
-.widget-header h3 {
-  font-size: 1rem;
-  font-weight: 600;
-  color: var(--text);
+.insight-negative {
+  border-left: 4px solid var(--danger);
 }
 
-.widget-icon {
-  font-size: 1.5rem;
+.insight-neutral {
+  border-left: 4px solid var(--info);
 }
 
-/* Stat Widget */
-.stat-content {
-  text-align: center;
+.insight-icon {
+  font-size: 2rem;
+  flex-shrink: 0;
 }
 
-.stat-value {
-  font-size: 3rem;
-  font-weight: 700;
-  color: var(--primary);
+.insight-content {
+  flex: 1;
+}
+
+.insight-content h3 {
+  font-size: 1.125rem;
+  font-weight: 600;
   margin-bottom: 0.5rem;
 }
 
-.stat-label {
+.insight-content p {
   color: var(--text-secondary);
-  font-size: 0.875rem;
-  margin-bottom: 1rem;
+  line-height: 1.6;
+  margin-bottom: 0.75rem;
 }
 
-.stat-trend {
+.insight-footer {
   display: flex;
+  justify-content: space-between;
   align-items: center;
-  justify-content: center;
-  gap: 0.5rem;
-  margin-bottom: 1rem;
-  padding: 0.5rem;
-  background: var(--surface);
-  border-radius: 8px;
-}
-
-.stat-details {
-  display: flex;
-  justify-content: space-around;
-  padding-top: 1rem;
-  border-top: 1px solid var(--border);
 }
 
-.stat-detail {
-  display: flex;
-  flex-direction: column;
-  gap: 0.25rem;
-  align-items: center;
+.insight-category {
+  font-size: 0.875rem;
+  font-weight: 500;
 }
 
-.stat-detail span {
+.insight-date {
   font-size: 0.875rem;
   color: var(--text-secondary);
 }
 
-.stat-detail strong {
-  font-size: 1.125rem;
-  color: var(--text);
-}
-
-/* Chart Widgets */
-.chart-content {
-  height: 250px;
-  display: flex;
-  align-items: flex-end;
-  justify-content: space-around;
-  padding: 1rem 0;
-}
-
-.line-chart,
-.bar-chart {
-  display: flex;
-  align-items: flex-end;
-  justify-content: space-around;
-  width: 100%;
-  height: 100%;
-  position: relative;
+.insight-pinned {
+  box-shadow: 0 0 0 2px var(--primary);
 }
 
-.chart-bar-container,
-.bar-item {
-  flex: 1;
+.insight-actions {
   display: flex;
   flex-direction: column;
-  align-items: center;
-  position: relative;
-  height: 100%;
+  gap: 0.375rem;
+  flex-shrink: 0;
 }
 
-.chart-line-point {
-  position: absolute;
-  width: 12px;
-  height: 12px;
-  border-radius: 50%;
-  box-shadow: 0 2px 4px var(--shadow);
+.insight-actions button,
+.insight-actions select {
+  padding: 0.375rem 0.5rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  cursor: pointer;
+  opacity: 0.7;
+}
+
+.insight-actions button.active,
+.insight-actions button:hover,
+.insight-actions select:hover {
+  opacity: 1;
 }
 
-.bar-container {
-  flex: 1;
-  width: 80%;
+.insight-filters {
   display: flex;
-  align-items: flex-end;
+  flex-wrap: wrap;
+  gap: 0.75rem;
+  margin-bottom: 1.5rem;
 }
 
-.bar-fill {
-  width: 100%;
-  border-radius: 4px 4px 0 0;
-  transition: all 0.3s ease;
+.insight-filters select,
+.insight-filters input {
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
 }
 
-.chart-label,
-.bar-label {
+.insight-content p.insight-explanation {
+  font-size: 0.8125rem;
+  font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+}
+
+.insight-severity {
   font-size: 0.75rem;
+  font-weight: 600;
+  padding: 0.125rem 0.5rem;
+  border-radius: 999px;
+  background: var(--bg);
   color: var(--text-secondary);
-  margin-top: 0.5rem;
 }
 
-/* Metrics View */
-.metrics-header {
+.insight-severity.severity-medium {
+  color: var(--warning);
+}
+
+.insight-severity.severity-high {
+  color: var(--danger);
+}
+
+/* Reports View */
+.reports-header {
   display: flex;
   justify-content: space-between;
   align-items: center;
-  margin-bottom: 1.5rem;
+  margin-bottom: 2rem;
 }
 
-.metrics-header h2 {
+.reports-header h2 {
   font-size: 1.75rem;
   font-weight: 700;
 }
 
-.add-metric-form {
+.report-config {
   background: var(--card-bg);
   border: 1px solid var(--border);
   border-radius: 12px;
   padding: 1.5rem;
-  margin-bottom: 1.5rem;
+  margin-bottom: 2rem;
 }
 
-.add-metric-form h3 {
-  font-size: 1rem;
+.report-config h3 {
+  font-size: 1.125rem;
   font-weight: 600;
   margin-bottom: 1rem;
 }
 
-.form-row {
+.form-group {
   display: flex;
-  gap: 0.75rem;
+  flex-direction: column;
+  gap: 0.5rem;
 }
 
-.form-row input {
-  flex: 1;
+.form-group label {
+  font-size: 0.875rem;
+  font-weight: 600;
+  color: var(--text);
+}
+
+.form-group input {
   padding: 0.75rem;
   border: 1px solid var(--border);
   border-radius: 8px;
@@ -1615,34 +10594,40 @@ body {
   font-size: 0.9375rem;
 }
 
-.form-row input:focus {
+.form-group input:focus {
   outline: none;
   border-color: var(--primary);
   box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
 }
 
-.metrics-filters {
-  margin-bottom: 1.5rem;
+.comparison-section {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
 }
 
-.search-box {
-  position: relative;
+.comparison-section h3 {
+  font-size: 1.125rem;
+  font-weight: 600;
   margin-bottom: 1rem;
 }
 
-.search-box svg {
-  position: absolute;
-  left: 1rem;
-  top: 50%;
-  transform: translateY(-50%);
-  width: 20px;
-  height: 20px;
-  color: var(--text-secondary);
+.comparison-type-select {
+  display: flex;
+  gap: 0.5rem;
+  margin-bottom: 1.5rem;
+  flex-wrap: wrap;
 }
 
-.search-box input {
-  width: 100%;
-  padding: 0.75rem 1rem 0.75rem 3rem;
+.report-export {
+  display: flex;
+  gap: 0.75rem;
+  align-items: center;
+}
+
+.report-export select {
+  padding: 0.75rem;
   border: 1px solid var(--border);
   border-radius: 8px;
   background: var(--surface);
@@ -1650,365 +10635,446 @@ body {
   font-size: 0.9375rem;
 }
 
-.search-box input:focus {
-  outline: none;
-  border-color: var(--primary);
-  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
-}
-
-.type-filters {
-  display: flex;
-  gap: 0.5rem;
-  flex-wrap: wrap;
+.comparison-aggregation {
+  max-width: 240px;
+  margin-bottom: 1.5rem;
 }
 
-.type-filter {
+.comparison-type-select button {
   padding: 0.5rem 1rem;
-  border: 2px solid;
+  border: 1px solid var(--border);
   border-radius: 8px;
-  background: transparent;
-  font-weight: 500;
+  background: var(--surface);
+  color: var(--text);
   cursor: pointer;
   transition: all 0.2s ease;
 }
 
-.type-filter:hover {
-  transform: translateY(-2px);
-  box-shadow: 0 2px 8px var(--shadow);
+.comparison-type-select button:hover {
+  background: var(--border);
 }
 
-.metrics-stats {
+.comparison-type-select button.active {
+  background: var(--primary);
+  color: white;
+  border-color: var(--primary);
+}
+
+.comparison-cards {
   display: grid;
   grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
   gap: 1rem;
-  margin-bottom: 1.5rem;
 }
 
-.stat-card {
-  background: var(--card-bg);
+.comparison-card {
+  background: var(--surface);
   border: 1px solid var(--border);
-  border-left: 4px solid;
   border-radius: 8px;
-  padding: 1rem;
-  display: flex;
-  flex-direction: column;
-  gap: 0.5rem;
+  padding: 1.25rem;
+  text-align: center;
 }
 
-.stat-card .stat-label {
+.comparison-card h4 {
   font-size: 0.875rem;
+  font-weight: 500;
   color: var(--text-secondary);
-  margin: 0;
+  margin-bottom: 0.75rem;
 }
 
-.stat-card .stat-value {
+.comparison-value {
+  font-size: 2rem;
+  font-weight: 700;
+  color: var(--text);
+  margin-bottom: 0.5rem;
+}
+
+.comparison-dates {
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.comparison-percent {
+  font-size: 1.125rem;
+  font-weight: 600;
+  margin-top: 0.5rem;
+}
+
+.comparison-card.positive {
+  border-left: 4px solid var(--success);
+}
+
+.comparison-card.positive .comparison-value,
+.comparison-card.positive .comparison-percent {
+  color: var(--success);
+}
+
+.comparison-card.negative {
+  border-left: 4px solid var(--danger);
+}
+
+.comparison-card.negative .comparison-value,
+.comparison-card.negative .comparison-percent {
+  color: var(--danger);
+}
+
+/* Settings View */
+.settings-header {
+  margin-bottom: 1.5rem;
+}
+
+.settings-header h2 {
   font-size: 1.75rem;
   font-weight: 700;
+  margin-bottom: 0.25rem;
+}
+
+.settings-tabs {
+  display: flex;
+  gap: 0.5rem;
+  margin-bottom: 1.5rem;
+}
+
+.settings-tabs a,
+.settings-tabs button {
+  padding: 0.5rem 1rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
   color: var(--text);
-  margin: 0;
+  font-weight: 500;
+  text-decoration: none;
+  transition: all 0.2s ease;
 }
 
-.metrics-list {
+.settings-tabs button {
+  background: none;
+  font: inherit;
+  cursor: pointer;
+}
+
+.settings-tabs a.active,
+.settings-tabs button.active {
+  background: var(--primary);
+  border-color: var(--primary);
+  color: white;
+}
+
+.category-delete {
   display: flex;
   flex-direction: column;
   gap: 0.75rem;
+  margin-top: 1rem;
+  padding: 1rem;
+  border: 1px solid var(--danger);
+  border-radius: 8px;
 }
 
-.metric-item {
-  background: var(--card-bg);
+.category-delete select {
+  padding: 0.75rem;
   border: 1px solid var(--border);
-  border-left: 4px solid;
   border-radius: 8px;
-  padding: 1rem;
+  background: var(--surface);
+  color: var(--text);
+}
+
+.form-group input[type='color'] {
+  padding: 0.25rem;
+  height: 46px;
+}
+
+.settings-layout {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(380px, 1fr));
+  gap: 1.5rem;
+  align-items: start;
+}
+
+.settings-panel {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
+}
+
+.settings-panel h3 {
+  font-size: 1.125rem;
+  font-weight: 600;
+  margin-bottom: 1rem;
+}
+
+.goal-streak {
+  margin-top: 0.75rem;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
+
+.definition-group + .definition-group {
+  margin-top: 1.25rem;
+}
+
+.definition-group > h4 {
+  font-size: 0.875rem;
+  font-weight: 600;
+  color: var(--text-secondary);
+  margin-bottom: 0.5rem;
+}
+
+.widget-settings-list {
+  list-style: none;
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+}
+
+.widget-settings-item {
   display: flex;
   align-items: center;
-  gap: 1rem;
+  gap: 0.75rem;
+  padding: 0.75rem;
+  background: var(--surface);
+  border: 1px solid var(--border);
+  border-left: 4px solid;
+  border-radius: 8px;
+  cursor: grab;
   transition: all 0.2s ease;
 }
 
-.metric-item:hover {
-  box-shadow: 0 2px 8px var(--shadow);
+.widget-settings-item.dragging {
+  opacity: 0.5;
 }
 
-.metric-info {
+.widget-settings-item.hidden-widget .widget-settings-info {
+  opacity: 0.5;
+}
+
+.drag-handle {
+  color: var(--text-secondary);
+  letter-spacing: -2px;
+}
+
+.widget-settings-info {
   flex: 1;
 }
 
-.metric-info h4 {
+.widget-settings-info h4 {
   font-size: 0.9375rem;
   font-weight: 600;
-  margin-bottom: 0.25rem;
 }
 
-.metric-date {
-  font-size: 0.875rem;
+.widget-settings-info span {
+  font-size: 0.8125rem;
   color: var(--text-secondary);
 }
 
-.metric-value {
-  font-size: 1.125rem;
-  font-weight: 700;
-  color: var(--primary);
+.goal-settings-item .widget-settings-info span {
+  display: block;
 }
 
-.btn-delete {
+.widget-settings-actions {
+  display: flex;
+  gap: 0.25rem;
+}
+
+.widget-settings-actions button {
   width: 32px;
   height: 32px;
-  border: none;
+  border: 1px solid var(--border);
   border-radius: 8px;
-  background: rgba(239, 68, 68, 0.1);
-  color: var(--danger);
+  background: var(--card-bg);
+  color: var(--text);
   cursor: pointer;
   display: flex;
   align-items: center;
   justify-content: center;
-  transition: all 0.2s ease;
-}
-
-.btn-delete:hover {
-  background: var(--danger);
-  color: white;
-}
-
-.btn-delete svg {
-  width: 16px;
-  height: 16px;
-}
-
-/* Insights View */
-.insights-header {
-  margin-bottom: 2rem;
-}
-
-.insights-header h2 {
-  font-size: 1.75rem;
-  font-weight: 700;
-  margin-bottom: 0.25rem;
 }
 
-.insights-subtitle {
-  color: var(--text-secondary);
+.widget-settings-actions button:disabled {
+  opacity: 0.4;
+  cursor: not-allowed;
 }
 
-.insights-list {
+.widget-form {
   display: flex;
   flex-direction: column;
   gap: 1rem;
+  margin-bottom: 1.5rem;
 }
 
-.insight-card {
-  background: var(--card-bg);
+.form-group select {
+  padding: 0.75rem;
   border: 1px solid var(--border);
-  border-radius: 12px;
-  padding: 1.5rem;
-  display: flex;
-  gap: 1rem;
-  transition: all 0.2s ease;
-}
-
-.insight-card:hover {
-  transform: translateY(-2px);
-  box-shadow: 0 4px 12px var(--shadow-lg);
-}
-
-.insight-positive {
-  border-left: 4px solid var(--success);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.9375rem;
 }
 
-.insight-negative {
-  border-left: 4px solid var(--danger);
+.time-range-input {
+  display: flex;
+  gap: 0.5rem;
 }
 
-.insight-neutral {
-  border-left: 4px solid var(--info);
+.time-range-input select,
+.time-range-input input {
+  flex: 1;
+  min-width: 0;
 }
 
-.insight-icon {
-  font-size: 2rem;
-  flex-shrink: 0;
+.metric-name-options {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem 1rem;
 }
 
-.insight-content {
-  flex: 1;
+.metric-name-options label {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+  font-weight: 500;
+  cursor: pointer;
 }
 
-.insight-content h3 {
-  font-size: 1.125rem;
-  font-weight: 600;
-  margin-bottom: 0.5rem;
+.metric-name-options label span,
+.form-group small {
+  color: var(--text-secondary);
+  font-weight: 400;
+  font-size: 0.8125rem;
 }
 
-.insight-content p {
-  color: var(--text-secondary);
-  line-height: 1.6;
-  margin-bottom: 0.75rem;
+.form-check input,
+.metric-name-options input {
+  padding: 0;
 }
 
-.insight-footer {
+.form-check label {
   display: flex;
-  justify-content: space-between;
   align-items: center;
-}
-
-.insight-category {
-  font-size: 0.875rem;
+  gap: 0.5rem;
   font-weight: 500;
+  cursor: pointer;
 }
 
-.insight-date {
+.form-error {
+  padding: 0.75rem;
+  border-radius: 8px;
+  background: rgba(239, 68, 68, 0.1);
+  color: var(--danger);
   font-size: 0.875rem;
-  color: var(--text-secondary);
 }
 
-/* Reports View */
-.reports-header {
+.form-actions {
   display: flex;
-  justify-content: space-between;
-  align-items: center;
-  margin-bottom: 2rem;
-}
-
-.reports-header h2 {
-  font-size: 1.75rem;
-  font-weight: 700;
+  gap: 0.75rem;
 }
 
-.report-config {
-  background: var(--card-bg);
+.btn-secondary {
+  padding: 0.75rem 1.25rem;
   border: 1px solid var(--border);
-  border-radius: 12px;
-  padding: 1.5rem;
-  margin-bottom: 2rem;
-}
-
-.report-config h3 {
-  font-size: 1.125rem;
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
   font-weight: 600;
-  margin-bottom: 1rem;
-}
-
-.form-group {
-  display: flex;
-  flex-direction: column;
-  gap: 0.5rem;
+  cursor: pointer;
+  transition: all 0.2s ease;
 }
 
-.form-group label {
-  font-size: 0.875rem;
-  font-weight: 600;
-  color: var(--text);
+.btn-secondary:hover {
+  background: var(--border);
 }
 
-.form-group input {
+.form-group textarea {
   padding: 0.75rem;
   border: 1px solid var(--border);
   border-radius: 8px;
   background: var(--surface);
   color: var(--text);
-  font-size: 0.9375rem;
-}
-
-.form-group input:focus {
-  outline: none;
-  border-color: var(--primary);
-  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
+  font-family: monospace;
+  font-size: 0.875rem;
+  resize: vertical;
 }
 
-.comparison-section {
-  background: var(--card-bg);
-  border: 1px solid var(--border);
-  border-radius: 12px;
-  padding: 1.5rem;
+.import-preview {
+  margin-top: 1.5rem;
 }
 
-.comparison-section h3 {
-  font-size: 1.125rem;
-  font-weight: 600;
+.import-summary {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.75rem;
   margin-bottom: 1rem;
 }
 
-.comparison-type-select {
+.import-summary label {
   display: flex;
-  gap: 0.5rem;
-  margin-bottom: 1.5rem;
-  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.375rem;
+  margin-left: auto;
+  font-weight: 500;
 }
 
-.comparison-type-select button {
-  padding: 0.5rem 1rem;
-  border: 1px solid var(--border);
-  border-radius: 8px;
-  background: var(--surface);
-  color: var(--text);
-  cursor: pointer;
-  transition: all 0.2s ease;
+.import-status {
+  padding: 0.25rem 0.75rem;
+  border-radius: 999px;
+  font-size: 0.8125rem;
+  font-weight: 600;
 }
 
-.comparison-type-select button:hover {
-  background: var(--border);
+.import-status.ok {
+  background: rgba(16, 185, 129, 0.15);
+  color: var(--success);
 }
 
-.comparison-type-select button.active {
-  background: var(--primary);
-  color: white;
-  border-color: var(--primary);
+.import-status.duplicate {
+  background: rgba(245, 158, 11, 0.15);
+  color: var(--warning);
 }
 
-.comparison-cards {
-  display: grid;
-  grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-  gap: 1rem;
+.import-status.error {
+  background: rgba(239, 68, 68, 0.1);
+  color: var(--danger);
 }
 
-.comparison-card {
-  background: var(--surface);
-  border: 1px solid var(--border);
-  border-radius: 8px;
-  padding: 1.25rem;
-  text-align: center;
+.import-table-wrapper {
+  overflow-x: auto;
+  margin-bottom: 0.5rem;
 }
 
-.comparison-card h4 {
+.import-table {
+  width: 100%;
+  border-collapse: collapse;
   font-size: 0.875rem;
-  font-weight: 500;
-  color: var(--text-secondary);
-  margin-bottom: 0.75rem;
 }
 
-.comparison-value {
-  font-size: 2rem;
-  font-weight: 700;
-  color: var(--text);
-  margin-bottom: 0.5rem;
-}
-
-.comparison-dates {
-  font-size: 0.75rem;
-  color: var(--text-secondary);
+.import-table th,
+.import-table td {
+  padding: 0.5rem;
+  border-bottom: 1px solid var(--border);
+  text-align: left;
 }
 
-.comparison-percent {
-  font-size: 1.125rem;
-  font-weight: 600;
-  margin-top: 0.5rem;
+.import-table tr.duplicate td {
+  color: var(--warning);
 }
 
-.comparison-card.positive {
-  border-left: 4px solid var(--success);
+.import-table tr.error td {
+  color: var(--danger);
 }
 
-.comparison-card.positive .comparison-value,
-.comparison-card.positive .comparison-percent {
+.import-message {
+  margin-top: 1rem;
+  padding: 0.75rem;
+  border-radius: 8px;
+  background: rgba(16, 185, 129, 0.15);
   color: var(--success);
 }
 
-.comparison-card.negative {
-  border-left: 4px solid var(--danger);
+.preview-title {
+  padding-top: 1.5rem;
+  border-top: 1px solid var(--border);
 }
 
-.comparison-card.negative .comparison-value,
-.comparison-card.negative .comparison-percent {
-  color: var(--danger);
+.widget-preview .widget:hover {
+  transform: none;
 }
 
 /* Buttons */
@@ -2032,6 +11098,10 @@ body {
   box-shadow: 0 4px 12px rgba(59, 130, 246, 0.4);
 }
 
+a.btn-primary {
+  text-decoration: none;
+}
+
 .btn-primary svg {
   width: 18px;
   height: 18px;
@@ -2048,6 +11118,17 @@ body {
   color: var(--text-secondary);
 }
 
+.empty-state h2 {
+  font-size: 1.75rem;
+  font-weight: 700;
+  color: var(--text);
+  margin-bottom: 0.5rem;
+}
+
+.empty-state .btn-primary {
+  margin-top: 1.5rem;
+}
+
 /* Responsive */
 @media (max-width: 1024px) {
   .widgets-grid {
@@ -2133,4 +11214,59 @@ if (isClient) {
   }
 }
 
+export {
+  AGGREGATION_FNS,
+  AnalyticsModel,
+  DEFAULT_LOCALE,
+  INGEST_BATCH_LIMIT,
+  LOCALE_COOKIE,
+  REPORT_FORMATS,
+  applyBulkMetricOperation,
+  buildImportRows,
+  buildIngestResults,
+  formatLocalizedText,
+  fromDateInputValue,
+  isLocale,
+  isRecord,
+  negotiateLocale,
+  parseRoute,
+  renderReport,
+  resolveMetricDefinition,
+  translate,
+  validateAlertRuleInput,
+  validateBulkMetricInput,
+  validateCategoryInput,
+  validateDefinitionInput,
+  validateGoalInput,
+  validateInsightUpdate,
+  validateMetricInput,
+  validateSettingsInput,
+  validateWidgetInput,
+};
+export type {
+  StorageBackend,
+  Category,
+  MetricDefinition,
+  Goal,
+  GoalProgress,
+  AlertRule,
+  AlertNotification,
+  Metric,
+  MetricType,
+  Widget,
+  WidgetType,
+  Insight,
+  InsightRule,
+  DashboardData,
+  DashboardSettings,
+  WeekStart,
+  PeriodType,
+  AggregationFn,
+  ImportRequest,
+  IngestItemResult,
+  BulkMetricOperation,
+  BulkMetricResult,
+  Locale,
+  ReportFormat,
+};
 export default App;
@@ -1,11 +1,18 @@
 import './index.css'
 import { StrictMode } from 'react'
 import { hydrateRoot } from 'react-dom/client'
-import App from './App'
+import App, { type DashboardData, type Locale } from './App'
+
+declare global {
+  interface Window {
+    __DASHBOARD_DATA__?: DashboardData
+    __LOCALE__?: Locale
+  }
+}
 
 hydrateRoot(
   document.getElementById('root') as HTMLElement,
   <StrictMode>
-    <App />
+    <App initialData={window.__DASHBOARD_DATA__} locale={window.__LOCALE__} />
   </StrictMode>,
 )
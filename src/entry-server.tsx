@@ -3,13 +3,61 @@ import {
   type RenderToPipeableStreamOptions,
   renderToPipeableStream,
 } from 'react-dom/server'
-import App from './App'
+import App, { type DashboardData, type Locale, parseRoute } from './App'
 
-export function render(_url: string, options?: RenderToPipeableStreamOptions) {
-  return renderToPipeableStream(
+export {
+  AGGREGATION_FNS,
+  AnalyticsModel,
+  DEFAULT_LOCALE,
+  INGEST_BATCH_LIMIT,
+  LOCALE_COOKIE,
+  REPORT_FORMATS,
+  applyBulkMetricOperation,
+  buildImportRows,
+  buildIngestResults,
+  formatLocalizedText,
+  fromDateInputValue,
+  isLocale,
+  isRecord,
+  negotiateLocale,
+  renderReport,
+  resolveMetricDefinition,
+  translate,
+  validateAlertRuleInput,
+  validateBulkMetricInput,
+  validateCategoryInput,
+  validateDefinitionInput,
+  validateGoalInput,
+  validateInsightUpdate,
+  validateMetricInput,
+  validateSettingsInput,
+  validateWidgetInput,
+} from './App'
+
+/**
+ * Serialize the dashboard data and locale so the client hydrates from the
+ * same state. `<` is escaped so the payload can never close the script tag.
+ */
+function renderHead(data: DashboardData, locale: Locale) {
+  const json = JSON.stringify(data).replace(/</g, '\\u003c')
+  return `<script>window.__DASHBOARD_DATA__ = ${json}; window.__LOCALE__ = ${JSON.stringify(locale)}</script>`
+}
+
+export function render(
+  url: string,
+  data: DashboardData,
+  locale: Locale,
+  options?: RenderToPipeableStreamOptions,
+) {
+  const route = parseRoute(url)
+  const unknownCategory =
+    route.metricType !== undefined && !data.categories.some((c) => c.id === route.metricType)
+  const statusCode = route.view === 'not-found' || unknownCategory ? 404 : 200
+  const stream = renderToPipeableStream(
     <StrictMode>
-      <App />
+      <App url={url} initialData={data} locale={locale} />
     </StrictMode>,
     options,
   )
+  return { ...stream, statusCode, head: renderHead(data, locale), lang: locale }
 }